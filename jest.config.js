@@ -0,0 +1,20 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  // Golden renders take a few seconds each on slow machines
+  testTimeout: 30000,
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  transform: {
+    '^.+\\.tsx?$': [
+      'ts-jest',
+      {
+        // Next.js compiles the app; tests run as CommonJS under Node
+        tsconfig: { module: 'commonjs', moduleResolution: 'node', jsx: 'react-jsx' },
+      },
+    ],
+  },
+};
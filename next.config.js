@@ -0,0 +1,10 @@
+/** @type {import('next').NextConfig} */
+module.exports = {
+  experimental: {
+    // src/instrumentation.ts registers the custom templates at startup
+    instrumentationHook: true,
+    // tesseract.js starts worker threads from its own files, and harfbuzzjs
+    // loads its WebAssembly module from its own directory, so neither is bundled
+    serverComponentsExternalPackages: ['tesseract.js', 'harfbuzzjs'],
+  },
+};
@@ -7,15 +7,48 @@
  * - storyboard: string (JSON)
  * - screenshots: File[] (multiple files, must match screenshot IDs in storyboard)
  * - brandColor: string (optional, hex color)
+ * - targets: string (optional, comma-separated device target IDs, e.g. "iphone-6.9,ipad-11")
+ * - orientation: 'portrait' | 'landscape' | 'both' (optional, default 'portrait';
+ *   applies to the default targets when `targets` is not given)
+ * - stores: string (optional, comma-separated: 'app-store', 'google-play';
+ *   default 'app-store'; selects default targets when `targets` is not given)
+ * - locales: string (optional, comma-separated locale codes; default: every
+ *   locale in the storyboard)
+ * 
+ * Slides may use built-in templates or custom templates loaded from the
+ * templates directory (TEMPLATES_PATH, see JsonTemplateLoader).
  * 
  * Response: application/zip
  * - ZIP file with rendered images and manifest
+ * - One folder per locale; App Store folders at the root, Google Play under google-play/
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { SharpRenderer } from '@/infrastructure/rendering';
+import { FontLoader, SharpRenderer } from '@/infrastructure/rendering';
 import { ZipExportService } from '@/infrastructure/export';
-import { DEVICE_TARGETS, Storyboard } from '@/domain';
+import { loadTemplates } from '@/infrastructure/templates';
+import {
+  DeviceTarget,
+  Locale,
+  Orientation,
+  SlideScreenshot,
+  Store,
+  Storyboard,
+  selectExportTargets,
+  getMaxImagesForTarget,
+  getStoryboardLocales,
+  localizeStoryboard,
+  validateStoryboardLocales,
+  validateStoryboardSlides,
+  validateStoryboardPanoramas,
+  validateScreenshotCrop,
+  groupSlidesByPanorama,
+  getSlideScreenshots,
+  getTemplateById,
+} from '@/domain';
+
+const ORIENTATION_OPTIONS = ['portrait', 'landscape', 'both'] as const;
+const STORE_OPTIONS: readonly Store[] = ['app-store', 'google-play'];
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,6 +58,19 @@ export async function POST(request: NextRequest) {
     // Extract storyboard JSON
     const storyboardJson = formData.get('storyboard') as string;
     const brandColor = formData.get('brandColor') as string | null;
+    const orientation = (formData.get('orientation') as string | null) || 'portrait';
+    const targetIds = ((formData.get('targets') as string | null) || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+    const stores = ((formData.get('stores') as string | null) || 'app-store')
+      .split(',')
+      .map((store) => store.trim())
+      .filter(Boolean);
+    const requestedLocales = ((formData.get('locales') as string | null) || '')
+      .split(',')
+      .map((locale) => locale.trim())
+      .filter(Boolean);
     
     if (!storyboardJson) {
       return NextResponse.json(
@@ -33,6 +79,38 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    if (!ORIENTATION_OPTIONS.includes(orientation as (typeof ORIENTATION_OPTIONS)[number])) {
+      return NextResponse.json(
+        { error: `Invalid orientation: ${orientation}. Expected one of: ${ORIENTATION_OPTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const invalidStore = stores.find((store) => !STORE_OPTIONS.includes(store as Store));
+    if (invalidStore) {
+      return NextResponse.json(
+        { error: `Invalid store: ${invalidStore}. Expected one of: ${STORE_OPTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    let targets: DeviceTarget[];
+    try {
+      targets = selectExportTargets({
+        targetIds,
+        orientation: orientation as Orientation | 'both',
+        stores: stores as Store[],
+      });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    
+    // Custom templates (TEMPLATES_PATH) the storyboard may use
+    await loadTemplates();
+    
     // Parse storyboard
     let storyboard: Storyboard;
     try {
@@ -44,6 +122,38 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // 1-10 slides numbered in order, with known templates and text for every storyboard locale
+    let locales: Locale[];
+    try {
+      validateStoryboardSlides(storyboard);
+      storyboard.slides.forEach((slide) => getTemplateById(slide.templateId));
+      validateStoryboardPanoramas(storyboard);
+      validateStoryboardLocales(storyboard);
+      const available = getStoryboardLocales(storyboard);
+      const missing = requestedLocales.filter((locale) => !available.includes(locale as Locale));
+      if (missing.length > 0) {
+        throw new Error(`Storyboard has no text for locale(s): ${missing.join(', ')}`);
+      }
+      locales = requestedLocales.length > 0
+        ? available.filter((locale) => requestedLocales.includes(locale))
+        : available;
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    
+    // Every exported locale's scripts need an installed font
+    const fonts = new FontLoader();
+    const unsupportedLocales = await fonts.findUnsupportedLocales(locales);
+    if (unsupportedLocales.length > 0) {
+      return NextResponse.json(
+        { error: `Fonts for locale(s) ${unsupportedLocales.join(', ')} are not installed (see public/fonts/README.md)` },
+        { status: 400 }
+      );
+    }
+    
     // Extract screenshots
     const screenshotFiles = formData.getAll('screenshots') as File[];
     
@@ -61,55 +171,112 @@ export async function POST(request: NextRequest) {
       const arrayBuffer = await file.arrayBuffer();
       const buffer = Buffer.from(arrayBuffer);
       
-      // Extract screenshot ID from filename or use index
-      // For simplicity, match by order for now
+      // Screenshot ID is the filename without extension (as in /api/storyboard)
       const screenshotId = file.name.replace(/\.[^/.]+$/, ''); // Remove extension
       screenshotBuffers.set(screenshotId, buffer);
     }
     
-    // Initialize renderer
-    const renderer = new SharpRenderer();
-    await renderer.initialize();
+    // Find a slide screenshot's upload: by ID, then by filename
+    const findScreenshotBuffer = (screenshot: SlideScreenshot): Buffer | undefined =>
+      screenshotBuffers.get(screenshot.screenshotId) ??
+      screenshotBuffers.get(screenshot.originalFilename);
     
-    // Render all slides for all targets
-    const renderedImages: any[] = [];
+    const renderer = new SharpRenderer(fonts);
     
-    for (const target of DEVICE_TARGETS) {
-      for (const slide of storyboard.slides) {
-        // Find screenshot buffer
-        const screenshotId = slide.screenshot.screenshotId;
-        let screenshotBuffer = screenshotBuffers.get(screenshotId);
-        
-        // Fallback: try by filename
-        if (!screenshotBuffer) {
-          screenshotBuffer = screenshotBuffers.get(slide.screenshot.originalFilename);
+    // Every slide screenshot must be uploaded, and crops must lie inside it
+    for (const slide of storyboard.slides) {
+      for (const screenshot of getSlideScreenshots(slide)) {
+        const buffer = findScreenshotBuffer(screenshot);
+        if (!buffer) {
+          return NextResponse.json(
+            { error: `Screenshot not found: ${screenshot.screenshotId}` },
+            { status: 400 }
+          );
         }
-        
-        // Fallback: use first screenshot
-        if (!screenshotBuffer) {
-          screenshotBuffer = Array.from(screenshotBuffers.values())[0];
+        if (!screenshot.crop) {
+          continue;
         }
-        
-        if (!screenshotBuffer) {
+        try {
+          validateScreenshotCrop(screenshot.crop, await renderer.getImageSize(buffer));
+        } catch (error: any) {
           return NextResponse.json(
-            { error: `Screenshot not found: ${screenshotId}` },
+            { error: `Slide ${slide.id}: ${error.message}` },
             { status: 400 }
           );
         }
+      }
+    }
+    
+    // Initialize renderer
+    await renderer.initialize();
+    
+    if (!(await renderer.isReady())) {
+      return NextResponse.json(
+        {
+          error: 'Renderer not ready: bundled fonts could not be loaded',
+          details: renderer.getInitializationErrors(),
+        },
+        { status: 503 }
+      );
+    }
+    
+    // Render all slides for all locales and targets
+    const renderedImages: any[] = [];
+    
+    for (const locale of locales) {
+      // Render each locale from a single-locale view of the storyboard
+      const localized = localizeStoryboard(storyboard, locale);
+      
+      for (const target of targets) {
+        // Targets cap their image count (e.g., one feature graphic per listing)
+        const slides = localized.slides.slice(0, getMaxImagesForTarget(target));
         
-        // Render slide
-        const rendered = await renderer.render({
-          target,
-          slide,
-          screenshotBuffer,
-          brandColor: brandColor || undefined,
-        });
-        
-        renderedImages.push({
-          target,
-          slideId: slide.id,
-          buffer: rendered.buffer,
-        });
+        // Panorama slides render together on one canvas
+        for (const group of groupSlidesByPanorama(slides, localized.panoramas)) {
+          // Find screenshot buffers (each slide's screenshot, then its additional ones)
+          const slideBuffers: Buffer[][] = [];
+          for (const slide of group) {
+            const buffers: Buffer[] = [];
+            for (const screenshot of getSlideScreenshots(slide)) {
+              const screenshotBuffer = findScreenshotBuffer(screenshot);
+              
+              if (!screenshotBuffer) {
+                return NextResponse.json(
+                  { error: `Screenshot not found: ${screenshot.screenshotId}` },
+                  { status: 400 }
+                );
+              }
+              buffers.push(screenshotBuffer);
+            }
+            slideBuffers.push(buffers);
+          }
+          
+          // Render slide (or panorama, sliced per slide)
+          const rendered = group.length > 1
+            ? await renderer.renderPanorama({
+                target,
+                slides: group,
+                screenshotBuffers: slideBuffers.map(([primary]) => primary),
+                additionalScreenshotBuffers: slideBuffers.map(([, ...additional]) => additional),
+                brandColor: brandColor || undefined,
+              })
+            : [await renderer.render({
+                target,
+                slide: group[0],
+                screenshotBuffer: slideBuffers[0][0],
+                additionalScreenshotBuffers: slideBuffers[0].slice(1),
+                brandColor: brandColor || undefined,
+              })];
+          
+          for (const image of rendered) {
+            renderedImages.push({
+              target,
+              slideId: image.metadata.slideId,
+              locale,
+              buffer: image.buffer,
+            });
+          }
+        }
       }
     }
     
@@ -117,7 +284,7 @@ export async function POST(request: NextRequest) {
     const exportService = new ZipExportService();
     const exportResult = await exportService.exportAsZip({
       storyboard,
-      targets: Array.from(DEVICE_TARGETS),
+      targets,
       renderedImages,
     });
     
@@ -2,37 +2,55 @@
  * GET /api/health
  * 
  * Health check endpoint.
- * Verifies that services are ready.
+ * Verifies that services are ready, and loads the custom templates
+ * (reporting invalid template files).
  */
 
 import { NextResponse } from 'next/server';
 import { SharpRenderer } from '@/infrastructure/rendering';
-import { validateTemplateConfiguration, DEVICE_TARGETS } from '@/domain';
+import { createCopyGenerator } from '@/infrastructure/copy';
+import { loadTemplates } from '@/infrastructure/templates';
+import {
+  validateTemplateConfiguration,
+  validateDeviceTargetConfiguration,
+  getTemplates,
+  DEVICE_TARGETS,
+} from '@/domain';
 
 export async function GET() {
   try {
-    // Validate template configuration
+    // Validate template (built-in and custom) and device target configuration
+    const customTemplates = await loadTemplates();
     validateTemplateConfiguration();
+    validateDeviceTargetConfiguration();
     
     // Check renderer
     const renderer = new SharpRenderer();
     await renderer.initialize();
     const rendererReady = await renderer.isReady();
     
-    const copyGeneratorReady = !!process.env.OPENAI_API_KEY;
+    const copyGenerator = createCopyGenerator();
+    const copyGeneratorReady = await copyGenerator.isAvailable();
     
     // Gather system info
     const health = {
-      status: 'healthy',
+      status: rendererReady && customTemplates.errors.length === 0 ? 'healthy' : 'degraded',
       timestamp: new Date().toISOString(),
       services: {
         renderer: rendererReady ? 'ready' : 'not ready',
         copyGenerator: copyGeneratorReady ? 'ready' : 'not configured',
-        templates: 'validated',
+        templates: customTemplates.errors.length === 0 ? 'validated' : 'custom templates invalid',
+        deviceTargets: 'validated',
       },
+      errors: renderer.getInitializationErrors(),
+      missingFallbackFonts: renderer.getFallbackFontErrors(),
+      templateErrors: customTemplates.errors,
       config: {
         deviceTargets: DEVICE_TARGETS.length,
+        templates: getTemplates().length,
+        customTemplates: customTemplates.templates.length,
         generatorType: 'openai-image',
+        copyGenerator: copyGenerator.getName(),
       },
     };
     
@@ -0,0 +1,196 @@
+/**
+ * POST /api/storyboard
+ *
+ * Generate a storyboard (slide layout and copy) for preview and editing.
+ * Nothing is rendered; send the storyboard to /api/export when done.
+ *
+ * Request: FormData
+ * - appName: string
+ * - valueBullets: string (JSON array of 3-6 strings)
+ * - screenshots: File[] (one image per slide, up to 10; IDs in the storyboard
+ *   are the filenames without extension, which is how /api/export matches them)
+ * - brandColor: string (optional, hex color)
+ * - locale: string (optional, default 'en-US')
+ * - additionalLocales: string (optional, comma-separated locale codes)
+ * - slideCount: string (optional, 1-10; default: hero, one feature per bullet, closing)
+ * - allowScreenshotReuse: 'true' | 'false' (optional, default 'false'; accept
+ *   fewer screenshots than slides, reusing the best match or screenshot #1)
+ * - recognizeText: 'true' | 'false' (optional, default 'true'; read screenshot
+ *   text with local OCR to match screenshots and inform copy)
+ *
+ * Response: application/json
+ * - storyboard: Storyboard
+ * - warnings: string[]
+ *
+ * Invalid input: 400 with
+ * - error: string
+ * - fieldErrors: { field, message }[] (field is a StoryboardInput key)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  StoryboardInputError,
+  StoryboardInputFieldError,
+  UploadedScreenshot,
+  getStoryboardInputErrors,
+} from '@/domain';
+import { ScreenshotTextExtractor, StoryboardGenerator } from '@/application/services';
+import { createCopyGenerator } from '@/infrastructure/copy';
+import { TesseractTextRecognizer } from '@/infrastructure/ocr';
+import { FontLoader } from '@/infrastructure/rendering';
+import { loadTemplates } from '@/infrastructure/templates';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse FormData
+    const formData = await request.formData();
+
+    const appName = (formData.get('appName') as string | null) || '';
+    const valueBulletsJson = formData.get('valueBullets') as string | null;
+    const brandColor = (formData.get('brandColor') as string | null) || undefined;
+    const locale = (formData.get('locale') as string | null) || DEFAULT_LOCALE;
+    const additionalLocales = ((formData.get('additionalLocales') as string | null) || '')
+      .split(',')
+      .map((code) => code.trim())
+      .filter(Boolean);
+    const slideCountRaw = (formData.get('slideCount') as string | null) || '';
+    const allowScreenshotReuse = (formData.get('allowScreenshotReuse') as string | null) === 'true';
+    const recognizeText = (formData.get('recognizeText') as string | null) !== 'false';
+    const screenshotFiles = formData.getAll('screenshots') as File[];
+
+    // Fields that cannot be parsed (reported with the validation errors)
+    const parseErrors: StoryboardInputFieldError[] = [];
+
+    let valueBullets: string[] = [];
+    if (valueBulletsJson) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(valueBulletsJson);
+      } catch {
+        parsed = null;
+      }
+      if (Array.isArray(parsed) && parsed.every((item) => typeof item === 'string')) {
+        valueBullets = parsed;
+      } else {
+        parseErrors.push({ field: 'valueBullets', message: 'Value bullets must be a JSON array of strings' });
+      }
+    }
+
+    const slideCount = slideCountRaw.trim() ? Number(slideCountRaw) : undefined;
+
+    const screenshots: UploadedScreenshot[] = [];
+    const screenshotBuffers = new Map<string, Buffer>();
+
+    for (const file of screenshotFiles) {
+      // Same ID /api/export derives from the filename
+      const id = file.name.replace(/\.[^/.]+$/, '');
+
+      if (!file.type.startsWith('image/')) {
+        parseErrors.push({ field: 'screenshots', message: `Invalid file type: ${file.name}. Must be an image` });
+        break;
+      }
+      if (screenshotBuffers.has(id)) {
+        parseErrors.push({ field: 'screenshots', message: `Duplicate screenshot name: ${id}. Screenshots are matched by filename` });
+        break;
+      }
+
+      screenshots.push({ id, filename: file.name, mimeType: file.type, size: file.size });
+      screenshotBuffers.set(id, Buffer.from(await file.arrayBuffer()));
+    }
+
+    // Validate (every invalid field at once; unparseable fields take precedence)
+    const fieldErrors = [
+      ...parseErrors,
+      ...getStoryboardInputErrors({
+        appName,
+        valueBullets,
+        screenshots,
+        slideCount,
+        allowScreenshotReuse,
+        brandColor,
+        locale,
+        additionalLocales,
+      }).filter((error) => !parseErrors.some((parseError) => parseError.field === error.field)),
+    ];
+
+    const locales = [locale, ...additionalLocales] as Locale[];
+
+    // Text in every locale must be renderable when exported
+    if (fieldErrors.length === 0) {
+      for (const code of await new FontLoader().findUnsupportedLocales(locales)) {
+        fieldErrors.push({
+          field: code === locale ? 'locale' : 'additionalLocales',
+          message: `Fonts for locale ${code} are not installed`,
+        });
+      }
+    }
+
+    if (fieldErrors.length > 0) {
+      return invalidInput(new StoryboardInputError(fieldErrors));
+    }
+
+    const warnings: string[] = [];
+
+    // Custom templates (TEMPLATES_PATH) slides may be assigned
+    await loadTemplates();
+
+    // Read visible UI text (local OCR)
+    let inputScreenshots = screenshots;
+    if (recognizeText) {
+      const recognizer = TesseractTextRecognizer.fromEnv();
+      try {
+        const extraction = await new ScreenshotTextExtractor(recognizer).extract(
+          screenshots,
+          screenshotBuffers,
+          locales
+        );
+        inputScreenshots = extraction.screenshots;
+        warnings.push(...extraction.warnings);
+      } finally {
+        await recognizer.terminate();
+      }
+    }
+
+    // Generate storyboard
+    const generator = new StoryboardGenerator(createCopyGenerator());
+    const result = await generator.generate({
+      appName,
+      valueBullets,
+      screenshots: inputScreenshots,
+      slideCount,
+      allowScreenshotReuse,
+      brandColor,
+      locale: locale as Locale,
+      additionalLocales: additionalLocales as Locale[],
+    });
+
+    return NextResponse.json({
+      storyboard: result.storyboard,
+      warnings: [...warnings, ...result.warnings],
+    });
+
+  } catch (error: any) {
+    if (error instanceof StoryboardInputError) {
+      return invalidInput(error);
+    }
+
+    console.error('Storyboard API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to generate storyboard' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 400 response listing the invalid fields.
+ */
+function invalidInput(error: StoryboardInputError) {
+  return NextResponse.json(
+    { error: error.message, fieldErrors: error.fieldErrors },
+    { status: 400 }
+  );
+}
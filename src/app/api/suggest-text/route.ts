@@ -0,0 +1,173 @@
+/**
+ * POST /api/suggest-text
+ *
+ * Suggest a headline and value bullets from uploaded screenshots.
+ * Screenshots are read with local OCR; copy comes from the configured
+ * copy generator (LLM, or the offline rule-based generator when no
+ * API key is set or COPY_GENERATOR=rule-based).
+ *
+ * Request: FormData
+ * - screenshot: File (optional, a single screenshot)
+ * - screenshots: File[] (optional, 1-10 images; combined with `screenshot`)
+ * - appName: string (optional, default "Your App"; at most 50 characters)
+ * - locale: string (optional, default 'en-US')
+ * - tone: 'professional' | 'casual' | 'playful' (optional, default 'professional')
+ * - valueBullets: string (optional, JSON array; bullet per screenshot position,
+ *   screenshots without one get a bullet from their visible text)
+ *
+ * Response: application/json
+ * - headline: string
+ * - subheadline: string
+ * - bullets: string[] (one per screenshot with readable text)
+ * - alternatives: { tone, headline, subheadline, bullets }[] (other tones)
+ * - generators: string[] (copy generators used)
+ * - warnings: string[]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  APP_NAME_MAX_LENGTH,
+  DEFAULT_LOCALE,
+  SCREENSHOTS_MAX,
+  UploadedScreenshot,
+  isValidLocale,
+} from '@/domain';
+import { CopyTone } from '@/application/interfaces';
+import {
+  CopySuggestionService,
+  ScreenshotTextExtractionResult,
+  ScreenshotTextExtractor,
+} from '@/application/services';
+import { createCopyGenerator } from '@/infrastructure/copy';
+import { TesseractTextRecognizer } from '@/infrastructure/ocr';
+
+const TONE_OPTIONS: readonly CopyTone[] = ['professional', 'casual', 'playful'];
+
+/** App name used when the request has none */
+const DEFAULT_APP_NAME = 'Your App';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse FormData
+    const formData = await request.formData();
+
+    const appName = ((formData.get('appName') as string | null) || '').trim() || DEFAULT_APP_NAME;
+    const locale = (formData.get('locale') as string | null) || DEFAULT_LOCALE;
+    const tone = (formData.get('tone') as string | null) || 'professional';
+    const valueBulletsJson = formData.get('valueBullets') as string | null;
+
+    if (appName.length > APP_NAME_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `App name must be ${APP_NAME_MAX_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidLocale(locale)) {
+      return NextResponse.json(
+        { error: `Unsupported locale: ${locale}` },
+        { status: 400 }
+      );
+    }
+
+    if (!TONE_OPTIONS.includes(tone as CopyTone)) {
+      return NextResponse.json(
+        { error: `Invalid tone: ${tone}. Expected one of: ${TONE_OPTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let valueBullets: string[] = [];
+    if (valueBulletsJson) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(valueBulletsJson);
+      } catch {
+        parsed = null;
+      }
+      if (!Array.isArray(parsed) || !parsed.every((item) => typeof item === 'string')) {
+        return NextResponse.json(
+          { error: 'valueBullets must be a JSON array of strings' },
+          { status: 400 }
+        );
+      }
+      valueBullets = parsed;
+    }
+
+    // Extract screenshots
+    const screenshotFiles = [
+      ...(formData.getAll('screenshot') as File[]),
+      ...(formData.getAll('screenshots') as File[]),
+    ];
+
+    if (screenshotFiles.length === 0) {
+      return NextResponse.json(
+        { error: 'No screenshots uploaded' },
+        { status: 400 }
+      );
+    }
+
+    if (screenshotFiles.length > SCREENSHOTS_MAX) {
+      return NextResponse.json(
+        { error: `Too many screenshots uploaded (max ${SCREENSHOTS_MAX})` },
+        { status: 400 }
+      );
+    }
+
+    const screenshots: UploadedScreenshot[] = [];
+    const screenshotBuffers = new Map<string, Buffer>();
+
+    for (const [index, file] of screenshotFiles.entries()) {
+      if (!file.type.startsWith('image/')) {
+        return NextResponse.json(
+          { error: `Invalid file type: ${file.name}. Must be an image.` },
+          { status: 400 }
+        );
+      }
+
+      const id = `screenshot-${index + 1}`;
+      screenshots.push({ id, filename: file.name, mimeType: file.type, size: file.size });
+      screenshotBuffers.set(id, Buffer.from(await file.arrayBuffer()));
+    }
+
+    // Read visible UI text (local OCR)
+    const recognizer = TesseractTextRecognizer.fromEnv();
+    let extraction: ScreenshotTextExtractionResult;
+    try {
+      extraction = await new ScreenshotTextExtractor(recognizer).extract(
+        screenshots,
+        screenshotBuffers,
+        [locale]
+      );
+    } finally {
+      await recognizer.terminate();
+    }
+
+    // Suggest copy
+    const suggestionService = new CopySuggestionService(createCopyGenerator());
+    const result = await suggestionService.suggest({
+      appName,
+      locale,
+      screenshots: extraction.screenshots,
+      valueBullets,
+      tone: tone as CopyTone,
+    });
+
+    return NextResponse.json({
+      headline: result.suggestion.headline,
+      subheadline: result.suggestion.subheadline,
+      bullets: result.suggestion.bullets,
+      alternatives: result.alternatives,
+      generators: result.generators,
+      warnings: [...extraction.warnings, ...result.warnings],
+    });
+
+  } catch (error: any) {
+    console.error('Suggest text API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to suggest text' },
+      { status: 500 }
+    );
+  }
+}
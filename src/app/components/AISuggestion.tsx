@@ -4,10 +4,11 @@ import React, { useState } from 'react';
 
 interface AISuggestionProps {
   uploadedImages: File[];
+  appName?: string;
   onApplySuggestion: (headline: string, bullets: string) => void;
 }
 
-export default function AISuggestion({ uploadedImages, onApplySuggestion }: AISuggestionProps) {
+export default function AISuggestion({ uploadedImages, appName, onApplySuggestion }: AISuggestionProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [suggestions, setSuggestions] = useState<{ headline: string; bullets: string } | null>(null);
   const [error, setError] = useState<string>('');
@@ -19,23 +20,28 @@ export default function AISuggestion({ uploadedImages, onApplySuggestion }: AISu
     setError('');
 
     try {
-      // Use first screenshot for analysis
+      // Analyze all screenshots (one bullet per screenshot)
       const formData = new FormData();
-      formData.append('screenshot', uploadedImages[0]);
+      uploadedImages.forEach((file) => {
+        formData.append('screenshots', file);
+      });
+      if (appName) {
+        formData.append('appName', appName);
+      }
 
       const response = await fetch('/api/suggest-text', {
         method: 'POST',
         body: formData,
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error('Failed to generate suggestions');
+        throw new Error(data.error || 'Failed to generate suggestions');
       }
 
-      const data = await response.json();
       setSuggestions({
         headline: data.headline,
-        bullets: data.bullets
+        bullets: (data.bullets as string[]).join('\n')
       });
 
     } catch (err) {
@@ -67,7 +73,7 @@ export default function AISuggestion({ uploadedImages, onApplySuggestion }: AISu
           <div>
             <h3 className="font-semibold text-gray-900">AI Text Suggestion</h3>
             <p className="text-sm text-gray-600 mt-1">
-              Let AI analyze your screenshot and suggest compliant marketing copy
+              Let AI analyze your screenshots and suggest compliant marketing copy
             </p>
           </div>
         </div>
@@ -90,7 +96,7 @@ export default function AISuggestion({ uploadedImages, onApplySuggestion }: AISu
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
               </svg>
-              Analyzing screenshot...
+              Analyzing screenshots...
             </span>
           ) : (
             <span className="flex items-center justify-center gap-2">
@@ -0,0 +1,180 @@
+'use client';
+
+import { PointerEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { ScreenshotCrop, validateScreenshotCrop } from '@/domain';
+
+interface CropEditorProps {
+  screenshot: File;
+  crop?: ScreenshotCrop;
+  onSave: (crop: ScreenshotCrop | null) => void;
+  onCancel: () => void;
+}
+
+type CropField = keyof ScreenshotCrop;
+
+const CROP_FIELDS: { field: CropField; label: string }[] = [
+  { field: 'x', label: 'X' },
+  { field: 'y', label: 'Y' },
+  { field: 'width', label: 'Width' },
+  { field: 'height', label: 'Height' },
+];
+
+/**
+ * Drag over the screenshot (or type pixel values) to choose the part shown on the slide.
+ * Crops are in source image pixels, as stored in `SlideScreenshot.crop`.
+ */
+export function CropEditor({ screenshot, crop, onSave, onCancel }: CropEditorProps) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [rect, setRect] = useState<ScreenshotCrop | null>(crop ?? null);
+
+  const imageUrl = useMemo(() => URL.createObjectURL(screenshot), [screenshot]);
+  useEffect(() => () => URL.revokeObjectURL(imageUrl), [imageUrl]);
+
+  const error = useMemo(() => {
+    if (!rect || !imageSize) return '';
+    try {
+      validateScreenshotCrop(rect, imageSize);
+      return '';
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Invalid crop';
+    }
+  }, [rect, imageSize]);
+
+  // Pointer position in source image pixels, clamped to the image
+  const toImagePoint = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = imageRef.current?.getBoundingClientRect();
+    if (!bounds || !imageSize) return null;
+    const scale = imageSize.width / bounds.width;
+    return {
+      x: Math.round(Math.min(Math.max(event.clientX - bounds.left, 0), bounds.width) * scale),
+      y: Math.round(Math.min(Math.max(event.clientY - bounds.top, 0), bounds.height) * scale),
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    const point = toImagePoint(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = point;
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    const point = toImagePoint(event);
+    if (!start || !point) return;
+    setRect({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.max(1, Math.abs(point.x - start.x)),
+      height: Math.max(1, Math.abs(point.y - start.y)),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleFieldChange = (field: CropField, value: string) => {
+    const base = rect ?? { x: 0, y: 0, width: imageSize?.width ?? 1, height: imageSize?.height ?? 1 };
+    setRect({ ...base, [field]: Math.round(Number(value) || 0) });
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="flex max-h-full w-full max-w-3xl flex-col gap-4 overflow-auto rounded-2xl bg-[var(--surface)] p-6 shadow-[var(--shadow-soft)]">
+        <div>
+          <h3 className="font-display text-xl text-[var(--ink)]">Crop screenshot</h3>
+          <p className="mt-1 text-sm text-[var(--muted)]">
+            Drag over the screenshot to choose the part shown on this slide.
+          </p>
+        </div>
+
+        <div className="flex justify-center">
+          <div
+            className="relative cursor-crosshair touch-none select-none overflow-hidden"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <img
+              ref={imageRef}
+              src={imageUrl}
+              alt={screenshot.name}
+              draggable={false}
+              className="block max-h-[60vh] w-auto"
+              onLoad={(event) =>
+                setImageSize({
+                  width: event.currentTarget.naturalWidth,
+                  height: event.currentTarget.naturalHeight,
+                })
+              }
+            />
+            {rect && imageSize && (
+              <div
+                className={`pointer-events-none absolute border-2 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] ${
+                  error ? 'border-red-500' : 'border-white'
+                }`}
+                style={{
+                  left: percent(rect.x, imageSize.width),
+                  top: percent(rect.y, imageSize.height),
+                  width: percent(rect.width, imageSize.width),
+                  height: percent(rect.height, imageSize.height),
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {CROP_FIELDS.map(({ field, label }) => (
+            <label key={field} className="text-xs font-medium text-[var(--muted)]">
+              {label} (px)
+              <input
+                type="number"
+                min={field === 'width' || field === 'height' ? 1 : 0}
+                value={rect ? rect[field] : ''}
+                placeholder={imageSize && (field === 'width' || field === 'height') ? String(imageSize[field]) : '0'}
+                onChange={(event) => handleFieldChange(field, event.target.value)}
+                className="mt-1 w-full rounded-lg border border-[var(--border)] bg-white px-3 py-2 text-sm text-[var(--ink)]"
+              />
+            </label>
+          ))}
+        </div>
+
+        {imageSize && (
+          <p className="text-xs text-[var(--muted)]">
+            Screenshot: {imageSize.width}x{imageSize.height}px
+          </p>
+        )}
+        {error && <p className="text-sm text-red-700">{error}</p>}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="rounded-lg border border-[var(--border)] bg-white px-4 py-2 text-sm font-medium text-[var(--ink)] hover:bg-[var(--surface-muted)]"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(null)}
+            className="rounded-lg border border-[var(--border)] bg-white px-4 py-2 text-sm font-medium text-[var(--ink)] hover:bg-[var(--surface-muted)]"
+          >
+            Show whole screenshot
+          </button>
+          <button
+            onClick={() => rect && onSave(rect)}
+            disabled={!rect || !imageSize || Boolean(error)}
+            className="rounded-lg bg-[var(--accent)] px-4 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Apply crop
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,103 @@
 'use client';
 
+import { useEffect, useMemo, useState } from 'react';
+import {
+  DEVICE_TARGETS,
+  DeviceTarget,
+  ScreenshotCrop,
+  Slide,
+  Store,
+  Storyboard,
+  generateExportPath,
+  getDeviceTargetsByIds,
+  getMaxImagesForTarget,
+  getStoryboardLocales,
+  setScreenshotCrop,
+} from '@/domain';
+import { CropEditor } from './CropEditor';
+
 interface StoryboardPreviewProps {
-  storyboard: any;
+  storyboard: Storyboard;
   screenshots: File[];
+  /** Device targets to export (DeviceTarget IDs) */
+  targetIds: string[];
+  onStoryboardChange?: (storyboard: Storyboard) => void;
+  onTargetIdsChange?: (targetIds: string[]) => void;
+}
+
+const STORE_LABELS: Record<Store, string> = {
+  'app-store': 'App Store',
+  'google-play': 'Google Play',
+};
+
+/** Files one target adds to the export: one per slide it accepts, per locale */
+interface TargetExport {
+  target: DeviceTarget;
+  paths: string[];
 }
 
-export function StoryboardPreview({ storyboard, screenshots }: StoryboardPreviewProps) {
-  const getScreenshotUrl = (screenshotId: string) => {
-    const index = parseInt(screenshotId.replace('screenshot-', '')) - 1;
-    const file = screenshots[index];
-    return file ? URL.createObjectURL(file) : '';
+export function StoryboardPreview({
+  storyboard,
+  screenshots,
+  targetIds,
+  onStoryboardChange,
+  onTargetIdsChange,
+}: StoryboardPreviewProps) {
+  const [croppingSlideId, setCroppingSlideId] = useState<number | null>(null);
+
+  // ZIP paths per selected target, as /api/export names them
+  const locales = useMemo(() => getStoryboardLocales(storyboard), [storyboard]);
+  const targetExports = useMemo(
+    () =>
+      getDeviceTargetsByIds(targetIds).map((target): TargetExport => ({
+        target,
+        paths: locales.flatMap((locale) =>
+          storyboard.slides
+            .slice(0, getMaxImagesForTarget(target))
+            .map((slide) => generateExportPath(target.id, slide.id, locale))
+        ),
+      })),
+    [storyboard, targetIds, locales]
+  );
+  const imageCount = targetExports.reduce((total, { paths }) => total + paths.length, 0);
+
+  const toggleTarget = (id: string) => {
+    onTargetIdsChange?.(
+      targetIds.includes(id) ? targetIds.filter((targetId) => targetId !== id) : [...targetIds, id]
+    );
   };
 
+  // One object URL per upload, released when the uploads change or on unmount
+  const screenshotUrls = useMemo(
+    () => new Map(screenshots.map((file) => [file, URL.createObjectURL(file)])),
+    [screenshots]
+  );
+  useEffect(
+    () => () => screenshotUrls.forEach((url) => URL.revokeObjectURL(url)),
+    [screenshotUrls]
+  );
+
+  // Screenshots are referenced by ID (filename without extension) or filename, as in /api/export
+  const getScreenshotFile = (slide: Slide): File | undefined =>
+    screenshots.find(
+      (file) =>
+        file.name.replace(/\.[^/.]+$/, '') === slide.screenshot.screenshotId ||
+        file.name === slide.screenshot.originalFilename
+    );
+
+  const getScreenshotUrl = (slide: Slide) => {
+    const file = getScreenshotFile(slide);
+    return (file && screenshotUrls.get(file)) || '';
+  };
+
+  const handleCropSave = (slideId: number, crop: ScreenshotCrop | null) => {
+    onStoryboardChange?.(setScreenshotCrop(storyboard, slideId, crop));
+    setCroppingSlideId(null);
+  };
+
+  const croppingSlide = storyboard.slides.find((slide) => slide.id === croppingSlideId);
+  const croppingFile = croppingSlide ? getScreenshotFile(croppingSlide) : undefined;
+
   return (
     <div className="rounded-2xl border border-[var(--border)] bg-[var(--surface)] p-6 shadow-[var(--shadow-soft)]">
       <p className="text-xs font-semibold uppercase tracking-[0.2em] text-[var(--accent)]">
@@ -31,18 +117,26 @@ export function StoryboardPreview({ storyboard, screenshots }: StoryboardPreview
       </p>
 
       <div className="mt-6 grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {storyboard.slides.map((slide: any) => (
+        {storyboard.slides.map((slide) => (
           <div
             key={slide.id}
             className="overflow-hidden rounded-2xl border border-[var(--border)] bg-[var(--surface-muted)] shadow-sm"
           >
             {/* Screenshot Preview */}
-            <div className="relative aspect-[9/19.5] bg-white">
-              <img
-                src={getScreenshotUrl(slide.screenshot.screenshotId)}
-                alt={`Slide ${slide.id}`}
-                className="h-full w-full object-contain"
-              />
+            <div className="relative flex aspect-[9/19.5] items-center justify-center bg-white">
+              {slide.screenshot.crop ? (
+                <CroppedImage
+                  src={getScreenshotUrl(slide)}
+                  alt={`Slide ${slide.id}`}
+                  crop={slide.screenshot.crop}
+                />
+              ) : (
+                <img
+                  src={getScreenshotUrl(slide)}
+                  alt={`Slide ${slide.id}`}
+                  className="h-full w-full object-contain"
+                />
+              )}
             </div>
 
             {/* Slide Info */}
@@ -56,25 +150,114 @@ export function StoryboardPreview({ storyboard, screenshots }: StoryboardPreview
               <p className="mt-1 text-sm text-[var(--muted)]">
                 {slide.text.subheadline}
               </p>
-              <div className="mt-3 text-xs text-[var(--muted)]">
-                Template: {slide.templateId}
+              <div className="mt-3 flex items-center justify-between gap-2 text-xs text-[var(--muted)]">
+                <span>
+                  Template: {slide.templateId}
+                  {slide.screenshot.crop &&
+                    ` · Cropped ${slide.screenshot.crop.width}x${slide.screenshot.crop.height}`}
+                </span>
+                {onStoryboardChange && getScreenshotFile(slide) && (
+                  <button
+                    onClick={() => setCroppingSlideId(slide.id)}
+                    className="rounded-full border border-[var(--border)] bg-white px-3 py-1 font-medium text-[var(--ink)] hover:bg-[var(--surface)]"
+                  >
+                    Crop
+                  </button>
+                )}
               </div>
             </div>
           </div>
         ))}
       </div>
 
+      {/* Export Targets */}
+      {onTargetIdsChange && (
+        <div className="mt-6 space-y-3">
+          {(Object.keys(STORE_LABELS) as Store[]).map((store) => (
+            <div key={store}>
+              <h4 className="text-xs font-semibold uppercase tracking-[0.2em] text-[var(--muted)]">
+                {STORE_LABELS[store]}
+              </h4>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {DEVICE_TARGETS.filter((target) => target.store === store).map((target) => (
+                  <label
+                    key={target.id}
+                    className="flex items-center gap-1.5 rounded-full border border-[var(--border)] bg-white px-3 py-1 text-xs text-[var(--ink)]"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={targetIds.includes(target.id)}
+                      onChange={() => toggleTarget(target.id)}
+                    />
+                    {target.displayName} ({target.width}x{target.height})
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Export Info */}
-      <div className="mt-6 rounded-2xl border border-emerald-200 bg-emerald-50 px-5 py-4">
-        <h4 className="text-sm font-semibold text-emerald-900">Ready to export</h4>
-        <p className="mt-1 text-sm text-emerald-800">
-          Clicking "Export ZIP" will generate 10 images:
-        </p>
-        <ul className="mt-2 list-disc list-inside text-sm text-emerald-800">
-          <li>5 iPhone screenshots (1290x2796)</li>
-          <li>5 iPad screenshots (2064x2752)</li>
-        </ul>
-      </div>
+      {imageCount > 0 ? (
+        <div className="mt-6 rounded-2xl border border-emerald-200 bg-emerald-50 px-5 py-4">
+          <h4 className="text-sm font-semibold text-emerald-900">Ready to export</h4>
+          <p className="mt-1 text-sm text-emerald-800">
+            Clicking "Export ZIP" will generate {imageCount} images in {locales.length}{' '}
+            locale folder{locales.length !== 1 ? 's' : ''} ({locales.join(', ')}):
+          </p>
+          <ul className="mt-2 list-disc list-inside text-sm text-emerald-800">
+            {targetExports.map(({ target, paths }) => (
+              <li key={target.id}>
+                {paths.length} {target.displayName} image{paths.length !== 1 ? 's' : ''} ({target.width}x
+                {target.height}), e.g. <code>{paths[0]}</code>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className="mt-6 rounded-2xl border border-amber-200 bg-amber-50 px-5 py-4 text-sm text-amber-900">
+          Select at least one export size.
+        </div>
+      )}
+
+      {croppingSlide && croppingFile && (
+        <CropEditor
+          screenshot={croppingFile}
+          crop={croppingSlide.screenshot.crop}
+          onSave={(crop) => handleCropSave(croppingSlide.id, crop)}
+          onCancel={() => setCroppingSlideId(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Shows only the cropped part of an image, scaled to fit its container.
+ */
+function CroppedImage({ src, alt, crop }: { src: string; alt: string; crop: ScreenshotCrop }) {
+  const [naturalWidth, setNaturalWidth] = useState(0);
+
+  return (
+    <div
+      className="relative max-h-full max-w-full overflow-hidden"
+      style={{
+        aspectRatio: `${crop.width} / ${crop.height}`,
+        [crop.width / crop.height > 9 / 19.5 ? 'width' : 'height']: '100%',
+      }}
+    >
+      <img
+        src={src}
+        alt={alt}
+        onLoad={(event) => setNaturalWidth(event.currentTarget.naturalWidth)}
+        className="absolute max-w-none"
+        style={{
+          width: `${((naturalWidth || crop.width) / crop.width) * 100}%`,
+          left: `${(-crop.x / crop.width) * 100}%`,
+          top: `${(-crop.y / crop.height) * 100}%`,
+        }}
+      />
     </div>
   );
 }
@@ -1,5 +1,6 @@
 import InputForm from "./InputForm";
 import {StoryboardPreview} from "./StoryboardPreview";
+import { CropEditor } from "./CropEditor";
 import UploadSection from "./UploadSection";
 import AISuggestion from "./AISuggestion";
 import GuestLimitBanner from "./GuestLimitBanner";
@@ -12,6 +13,7 @@ import  {ToastProvider } from "./ToastProvider";
 export {
    InputForm,
   StoryboardPreview,
+  CropEditor,
     UploadSection,
    AISuggestion ,
   GuestLimitBanner,
@@ -2,15 +2,39 @@
 
 import { useMemo, useState } from 'react';
 import { Bell, User } from 'lucide-react';
+import { Storyboard, selectExportTargets } from '@/domain';
 
 import ModernSidebar from './components/ModernSidebar';
 import UploadSection from './components/UploadSection';
 import CompactSettingsPanel from './components/CompactSettingsPanel';
 import EnhancedGenerateButton from './components/EnhancedGenerateButton';
+import { StoryboardPreview } from './components/StoryboardPreview';
 import { incrementGenerationCount, isLimitReached } from './components/GuestLimitBanner';
 import { ToastProvider, useToast } from './components/ToastProvider';
 
 type LoadingState = 'idle' | 'generating' | 'success' | 'error';
+type StoryboardState = 'idle' | 'creating' | 'exporting';
+
+/** Saves a response body as a file download */
+function downloadBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
+
+/** Error message from a failed API response (including per-field validation errors) */
+async function getResponseError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  const fieldErrors: { message: string }[] = Array.isArray(data.fieldErrors) ? data.fieldErrors : [];
+  return fieldErrors.length > 0
+    ? fieldErrors.map((fieldError) => fieldError.message).join('. ')
+    : data.error || fallback;
+}
 
 function HomeContent() {
   const { showToast } = useToast();
@@ -31,6 +55,15 @@ function HomeContent() {
   const [progress, setProgress] = useState({ current: 0, total: 0 });
   const [errorMessage, setErrorMessage] = useState('');
 
+  // Storyboard state (slides are edited in the preview, then exported as they are)
+  const [appName, setAppName] = useState('');
+  const [allowScreenshotReuse, setAllowScreenshotReuse] = useState(false);
+  const [storyboard, setStoryboard] = useState<Storyboard | null>(null);
+  const [storyboardState, setStoryboardState] = useState<StoryboardState>('idle');
+  const [exportTargetIds, setExportTargetIds] = useState<string[]>(() =>
+    selectExportTargets({}).map((target) => target.id)
+  );
+
   const canGenerate = uploadedImages.length > 0 && loadingState === 'idle' && !isLimitReached();
   const bulletList = useMemo(
     () =>
@@ -42,6 +75,71 @@ function HomeContent() {
     [bullets]
   );
 
+  // Storyboard slides reference the uploads by filename, so new uploads start over
+  const handleUpload = (files: File[]) => {
+    setUploadedImages(files);
+    setStoryboard(null);
+  };
+
+  const handleCreateStoryboard = async () => {
+    setStoryboardState('creating');
+
+    try {
+      const formData = new FormData();
+      uploadedImages.forEach((file) => formData.append('screenshots', file));
+      formData.append('appName', appName.trim());
+      formData.append(
+        'valueBullets',
+        JSON.stringify(bullets.split('\n').map((item) => item.trim()).filter(Boolean))
+      );
+      formData.append('brandColor', accentColor);
+      formData.append('allowScreenshotReuse', String(allowScreenshotReuse));
+
+      const response = await fetch('/api/storyboard', { method: 'POST', body: formData });
+      if (!response.ok) {
+        throw new Error(await getResponseError(response, 'Failed to create storyboard'));
+      }
+
+      const data: { storyboard: Storyboard; warnings: string[] } = await response.json();
+      setStoryboard(data.storyboard);
+      if (data.warnings.length > 0) {
+        showToast(data.warnings.join(' '), 'warning');
+      }
+    } catch (error) {
+      console.error('Storyboard error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to create storyboard', 'error');
+    } finally {
+      setStoryboardState('idle');
+    }
+  };
+
+  const handleExport = async () => {
+    if (!storyboard) return;
+    setStoryboardState('exporting');
+
+    try {
+      // The storyboard as edited in the preview (crops included)
+      const formData = new FormData();
+      formData.append('storyboard', JSON.stringify(storyboard));
+      uploadedImages.forEach((file) => formData.append('screenshots', file));
+      formData.append('brandColor', accentColor);
+      formData.append('targets', exportTargetIds.join(','));
+
+      const response = await fetch('/api/export', { method: 'POST', body: formData });
+      if (!response.ok) {
+        throw new Error(await getResponseError(response, 'Failed to export storyboard'));
+      }
+
+      downloadBlob(await response.blob(), `storyboard-${Date.now()}.zip`);
+      showToast('Storyboard exported!', 'success');
+    } catch (error) {
+      console.error('Export error:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to export storyboard', 'error');
+    } finally {
+      setStoryboardState('idle');
+    }
+  };
+
   const handleGenerate = async () => {
     if (!canGenerate) {
       if (isLimitReached()) {
@@ -93,15 +191,7 @@ function HomeContent() {
       }
 
       // Download the ZIP file
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `app-screenshots-${Date.now()}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
+      downloadBlob(await response.blob(), `app-screenshots-${Date.now()}.zip`);
 
       setLoadingState('success');
       incrementGenerationCount();
@@ -159,8 +249,58 @@ function HomeContent() {
                         <p className="text-sm text-gray-600">Add your app screenshots to get started</p>
                       </div>
                     </div>
-                    <UploadSection uploadedImages={uploadedImages} onUpload={setUploadedImages} />
+                    <UploadSection uploadedImages={uploadedImages} onUpload={handleUpload} />
                   </div>
+
+                  <div className="mt-6 bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+                    <h2 className="text-lg font-bold text-gray-900">Storyboard</h2>
+                    <p className="text-sm text-gray-600">
+                      Lay out slides from your screenshots and bullets, crop them, then export every size
+                    </p>
+                    <div className="mt-4 flex flex-col sm:flex-row gap-3">
+                      <input
+                        type="text"
+                        value={appName}
+                        onChange={(e) => setAppName(e.target.value)}
+                        placeholder="App name"
+                        className="flex-1 px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                      />
+                      <button
+                        onClick={handleCreateStoryboard}
+                        disabled={uploadedImages.length === 0 || !appName.trim() || storyboardState !== 'idle'}
+                        className="px-5 py-2.5 rounded-lg bg-gray-900 text-white font-medium hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {storyboardState === 'creating' ? 'Creating...' : storyboard ? 'Recreate storyboard' : 'Create storyboard'}
+                      </button>
+                    </div>
+                    <label className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={allowScreenshotReuse}
+                        onChange={(e) => setAllowScreenshotReuse(e.target.checked)}
+                      />
+                      Reuse screenshots when there are fewer screenshots than slides
+                    </label>
+                  </div>
+
+                  {storyboard && (
+                    <div className="mt-6 space-y-4">
+                      <StoryboardPreview
+                        storyboard={storyboard}
+                        screenshots={uploadedImages}
+                        targetIds={exportTargetIds}
+                        onStoryboardChange={setStoryboard}
+                        onTargetIdsChange={setExportTargetIds}
+                      />
+                      <button
+                        onClick={handleExport}
+                        disabled={storyboardState !== 'idle' || exportTargetIds.length === 0}
+                        className="w-full px-5 py-3 rounded-xl bg-emerald-600 text-white font-semibold hover:bg-emerald-700 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {storyboardState === 'exporting' ? 'Exporting...' : 'Export ZIP'}
+                      </button>
+                    </div>
+                  )}
                 </div>
 
                 <div className="lg:col-span-2 xl:col-span-1 space-y-6">
@@ -11,6 +11,16 @@
 
 import { Locale, SlideType } from '@/domain';
 
+/**
+ * Brand tone for generated copy.
+ */
+export type CopyTone = 'professional' | 'casual' | 'playful';
+
+/**
+ * Tone used when the input does not specify one.
+ */
+export const DEFAULT_COPY_TONE: CopyTone = 'professional';
+
 /**
  * Input for copy generation.
  */
@@ -21,6 +31,12 @@ export interface CopyGenerationInput {
   /** Value bullet point (for feature slides) */
   valueBullet?: string;
   
+  /**
+   * UI strings visible on the slide's screenshot (from text recognition).
+   * Lets generators tie copy to features that are actually on screen.
+   */
+  visibleText?: string[];
+  
   /** Slide type to generate copy for */
   slideType: SlideType;
   
@@ -31,10 +47,18 @@ export interface CopyGenerationInput {
   brandContext?: {
     industry?: string;
     targetAudience?: string;
-    tone?: 'professional' | 'casual' | 'playful';
+    tone?: CopyTone;
   };
 }
 
+/**
+ * Options for one generation call.
+ */
+export interface CopyGenerationOptions {
+  /** Cancels the call (e.g., when a fallback chain's timeout expires) */
+  signal?: AbortSignal;
+}
+
 /**
  * Generated copy output.
  */
@@ -53,6 +77,12 @@ export interface GeneratedCopy {
     model?: string;
     truncated?: boolean;
     fallbackUsed?: boolean;
+    
+    /** Name of the generator that produced the copy (set by fallback chains) */
+    generator?: string;
+    
+    /** Why earlier generators in a fallback chain were not used */
+    fallbackReason?: string;
   };
 }
 
@@ -60,13 +90,20 @@ export interface GeneratedCopy {
  * Copy generator interface.
  * 
  * Implementations:
- * - OpenAICopyGenerator: Uses OpenAI API
+ * - LLMCopyGenerator (infrastructure/llm): Any ILLMProvider, e.g. the
+ *   OpenAI-compatible HTTP provider
+ * - RuleBasedCopyGenerator (infrastructure/copy): Offline phrase patterns,
+ *   deterministic
+ * - FallbackCopyGenerator (application/services): Tries a chain of
+ *   generators with retry and timeout
  */
 export interface ICopyGenerator {
   /**
    * Generate headline and subheadline for a slide.
    * 
    * @param input - Copy generation input
+   * @param options - Cancellation signal (implementations doing I/O should
+   *   abort it and reject when the signal fires)
    * @returns Generated copy with character limits enforced
    * 
    * Guarantees:
@@ -74,7 +111,7 @@ export interface ICopyGenerator {
    * - subheadline.length <= 60
    * - Same input produces same output (for deterministic implementations)
    */
-  generateCopy(input: CopyGenerationInput): Promise<GeneratedCopy>;
+  generateCopy(input: CopyGenerationInput, options?: CopyGenerationOptions): Promise<GeneratedCopy>;
   
   /**
    * Check if generator is available (e.g., API key configured).
@@ -0,0 +1,48 @@
+/**
+ * ITextRecognizer Interface
+ *
+ * Abstraction for recognizing text in screenshot images (OCR).
+ * Recognized UI strings give copy generation and screenshot matching
+ * context about what is actually visible on screen.
+ *
+ * Design Principles:
+ * - Dependency Inversion: Services depend on this interface, not an OCR engine
+ * - Interface Segregation: Only text lines, no layout or confidence details
+ */
+
+import { Locale } from '@/domain';
+
+/**
+ * Options for one recognition call.
+ */
+export interface TextRecognitionOptions {
+  /** Locales whose scripts may appear in the image (English is always included) */
+  locales?: Locale[];
+}
+
+/**
+ * Text recognizer interface.
+ *
+ * Implementations:
+ * - TesseractTextRecognizer (infrastructure/ocr): Local Tesseract (WebAssembly)
+ */
+export interface ITextRecognizer {
+  /**
+   * Recognize text lines in an image, in reading order.
+   * Low-confidence lines are dropped.
+   *
+   * @param image - Encoded image (PNG, JPEG, WebP)
+   * @returns Recognized lines (may be empty)
+   */
+  recognize(image: Buffer, options?: TextRecognitionOptions): Promise<string[]>;
+
+  /**
+   * Check if the recognizer can be used.
+   */
+  isAvailable(): Promise<boolean>;
+
+  /**
+   * Get name of this recognizer (for logging/debugging).
+   */
+  getName(): string;
+}
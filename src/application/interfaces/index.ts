@@ -4,4 +4,12 @@
  * Public API for application layer abstractions.
  */
 
-export type { ICopyGenerator, CopyGenerationInput, GeneratedCopy } from './ICopyGenerator';
\ No newline at end of file
+export type {
+  ICopyGenerator,
+  CopyGenerationInput,
+  CopyGenerationOptions,
+  GeneratedCopy,
+  CopyTone,
+} from './ICopyGenerator';
+export { DEFAULT_COPY_TONE } from './ICopyGenerator';
+export type { ITextRecognizer, TextRecognitionOptions } from './ITextRecognizer';
@@ -0,0 +1,271 @@
+/**
+ * CopySuggestionService
+ *
+ * Suggests a headline and value bullets for uploaded screenshots,
+ * before the user has written any copy.
+ *
+ * Each screenshot contributes one bullet topic: the user's own bullet
+ * for that position when given, otherwise a feature-like line of its
+ * recognized text (e.g., a screen title). The requested tone is the
+ * suggestion; the other tones are returned as alternatives.
+ *
+ * Design Principles:
+ * - Dependency Inversion: Depends on ICopyGenerator interface
+ * - Screenshot-Driven: Works from recognized text alone (no bullets needed)
+ * - Bounded Parallelism: Copy requests share one concurrency cap
+ */
+
+import {
+  Locale,
+  UploadedScreenshot,
+  HEADLINE_MAX_LENGTH,
+  VALUE_BULLETS_MAX,
+  APP_NAME_MAX_LENGTH,
+} from '@/domain';
+import {
+  ICopyGenerator,
+  CopyGenerationInput,
+  CopyTone,
+  GeneratedCopy,
+  DEFAULT_COPY_TONE,
+} from '../interfaces/ICopyGenerator';
+import { DEFAULT_COPY_CONCURRENCY } from './StoryboardGenerator';
+import { mapWithConcurrency } from './concurrency';
+
+/**
+ * Suggestion input.
+ */
+export interface CopySuggestionInput {
+  appName: string;
+
+  locale: Locale;
+
+  /** Screenshots to analyze, with `recognizedText` (see ScreenshotTextExtractor) */
+  screenshots: UploadedScreenshot[];
+
+  /** User bullets, by screenshot position (missing ones are taken from the screenshot) */
+  valueBullets?: string[];
+
+  /** Tone of the main suggestion (default: professional) */
+  tone?: CopyTone;
+}
+
+/**
+ * Headline and bullets in one tone.
+ */
+export interface CopySuggestion {
+  tone: CopyTone;
+  headline: string;
+  subheadline: string;
+
+  /** One bullet per analyzed screenshot (at most VALUE_BULLETS_MAX) */
+  bullets: string[];
+}
+
+/**
+ * Suggestion result.
+ */
+export interface CopySuggestionResult {
+  /** Suggestion in the requested tone */
+  suggestion: CopySuggestion;
+
+  /** Suggestions in the other tones */
+  alternatives: CopySuggestion[];
+
+  /** Generators that produced the copy (fallback chains report the one used) */
+  generators: string[];
+
+  warnings: string[];
+}
+
+/**
+ * Suggestion service options.
+ */
+export interface CopySuggestionServiceOptions {
+  /** Maximum copy requests in flight at once (default: 4) */
+  copyConcurrency?: number;
+}
+
+/** Tones offered, main tone first */
+const COPY_TONES: readonly CopyTone[] = ['professional', 'casual', 'playful'];
+
+/** Shortest line (in letters) taken as a bullet topic */
+const TOPIC_MIN_LETTERS = 4;
+
+/** Longest line (in words) taken as a bullet topic */
+const TOPIC_MAX_WORDS = 6;
+
+/**
+ * A bullet topic and the screenshot it came from.
+ */
+interface BulletTopic {
+  screenshot: UploadedScreenshot;
+  text: string;
+}
+
+/**
+ * Copy suggestion service.
+ */
+export class CopySuggestionService {
+  private copyGenerator: ICopyGenerator;
+  private copyConcurrency: number;
+
+  constructor(copyGenerator: ICopyGenerator, options: CopySuggestionServiceOptions = {}) {
+    const copyConcurrency = options.copyConcurrency ?? DEFAULT_COPY_CONCURRENCY;
+    if (!Number.isInteger(copyConcurrency) || copyConcurrency < 1) {
+      throw new Error(`Invalid copy concurrency: ${copyConcurrency}. Must be a positive integer`);
+    }
+
+    this.copyGenerator = copyGenerator;
+    this.copyConcurrency = copyConcurrency;
+  }
+
+  /**
+   * Suggest a headline and bullets, in every tone.
+   *
+   * @param input - Screenshots (with recognized text) and optional bullets
+   * @returns Suggestion in the requested tone, alternatives and warnings
+   * @throws Error if the app name is invalid or no screenshots are given
+   */
+  async suggest(input: CopySuggestionInput): Promise<CopySuggestionResult> {
+    if (!input.appName.trim()) {
+      throw new Error('App name is required');
+    }
+    if (input.appName.length > APP_NAME_MAX_LENGTH) {
+      throw new Error(`App name must be ${APP_NAME_MAX_LENGTH} characters or less`);
+    }
+    if (input.screenshots.length === 0) {
+      throw new Error('At least one screenshot is required for suggestions');
+    }
+
+    const warnings: string[] = [];
+    const topics = this.findTopics(input, warnings);
+    const tone = input.tone ?? DEFAULT_COPY_TONE;
+    const tones = [tone, ...COPY_TONES.filter((other) => other !== tone)];
+
+    // Hero copy (headline) and one feature copy per topic (bullets), per tone
+    const visibleText = Array.from(new Set(input.screenshots.flatMap((screenshot) => screenshot.recognizedText ?? [])));
+    const requests: CopyGenerationInput[] = tones.flatMap((requestTone) => [
+      {
+        appName: input.appName,
+        valueBullet: topics[0]?.text,
+        slideType: 'hero' as const,
+        locale: input.locale,
+        brandContext: { tone: requestTone },
+        ...(visibleText.length > 0 ? { visibleText } : {}),
+      },
+      ...topics.map((topic): CopyGenerationInput => ({
+        appName: input.appName,
+        valueBullet: topic.text,
+        slideType: 'feature',
+        locale: input.locale,
+        brandContext: { tone: requestTone },
+        ...(topic.screenshot.recognizedText?.length ? { visibleText: topic.screenshot.recognizedText } : {}),
+      })),
+    ]);
+
+    const copies = await mapWithConcurrency(requests, this.copyConcurrency, (request) =>
+      this.copyGenerator.generateCopy(request)
+    );
+
+    const perTone = topics.length + 1;
+    const suggestions = tones.map((suggestionTone, index): CopySuggestion => {
+      const [hero, ...features] = copies.slice(index * perTone, (index + 1) * perTone);
+      return {
+        tone: suggestionTone,
+        headline: hero.headline,
+        subheadline: hero.subheadline,
+        bullets: Array.from(new Set(features.map((copy) => copy.headline).filter(Boolean))),
+      };
+    });
+
+    const fallbackNotes = new Set(copies.map(describeFallback).filter((note): note is string => note !== null));
+    warnings.push(...fallbackNotes);
+
+    const generators = Array.from(new Set(copies.map((copy) => copy.metadata?.generator ?? this.copyGenerator.getName())));
+
+    return {
+      suggestion: suggestions[0],
+      alternatives: suggestions.slice(1),
+      generators,
+      warnings,
+    };
+  }
+
+  // ========================================================================
+  // Private Methods
+  // ========================================================================
+
+  /**
+   * One topic per screenshot: the user's bullet, or a line of its text.
+   * Screenshots without either are skipped with a warning.
+   */
+  private findTopics(input: CopySuggestionInput, warnings: string[]): BulletTopic[] {
+    const topics: BulletTopic[] = [];
+    const used = new Set<string>();
+
+    for (const [index, screenshot] of input.screenshots.entries()) {
+      if (topics.length === VALUE_BULLETS_MAX) {
+        warnings.push(`Only the first ${VALUE_BULLETS_MAX} screenshots with text were used for bullets`);
+        break;
+      }
+
+      const given = input.valueBullets?.[index]?.trim();
+      const text = given || pickTopicLine(screenshot.recognizedText ?? [], used);
+      if (!text) {
+        warnings.push(`Screenshot #${index + 1} (${screenshot.filename}): No readable feature text; no bullet suggested`);
+        continue;
+      }
+
+      used.add(text.toLowerCase());
+      topics.push({ screenshot, text });
+    }
+
+    return topics;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Pick the line of a screenshot that best names its feature.
+ * Screen titles are short phrases near the top, so the first multi-word
+ * line that reads like text wins; a single word is the fallback.
+ * Lines overlapping a topic already taken (e.g., a title repeated in a
+ * button) are skipped.
+ */
+function pickTopicLine(lines: readonly string[], used: ReadonlySet<string>): string | null {
+  const candidates = lines.filter((line) => {
+    const letters = line.match(/\p{L}/gu)?.length ?? 0;
+    const words = line.split(/\s+/).length;
+    return line.length <= HEADLINE_MAX_LENGTH &&
+      letters >= TOPIC_MIN_LETTERS &&
+      letters / line.replace(/\s+/g, '').length >= 0.6 &&
+      words <= TOPIC_MAX_WORDS &&
+      !overlapsUsed(line, used);
+  });
+
+  return candidates.find((line) => /\s/.test(line)) ?? candidates[0] ?? null;
+}
+
+/**
+ * Check if a line contains, or is part of, a topic already taken.
+ */
+function overlapsUsed(line: string, used: ReadonlySet<string>): boolean {
+  const text = line.toLowerCase();
+  return Array.from(used).some((topic) => topic.includes(text) || text.includes(topic));
+}
+
+/**
+ * Warning for copy that came from a fallback generator, or null.
+ */
+function describeFallback(copy: GeneratedCopy): string | null {
+  if (!copy.metadata?.fallbackUsed) {
+    return null;
+  }
+  const generator = copy.metadata.generator ?? 'fallback generator';
+  const reason = copy.metadata.fallbackReason ? ` (${copy.metadata.fallbackReason})` : '';
+  return `Suggestions [${copy.locale}]: Copy generated by ${generator}${reason}`;
+}
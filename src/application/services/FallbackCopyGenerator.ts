@@ -0,0 +1,226 @@
+/**
+ * FallbackCopyGenerator
+ *
+ * Composite ICopyGenerator that tries generators in order.
+ * Unavailable generators are skipped; transient errors (timeouts,
+ * rate limits, 5xx, network failures) are retried with exponential
+ * backoff before moving on to the next generator. A call that times out
+ * is cancelled through its AbortSignal.
+ *
+ * Typical chain: LLM first, rule-based generator last, so a storyboard
+ * always gets copy even when the LLM is down.
+ *
+ * Design Principles:
+ * - Composite: Is an ICopyGenerator, so StoryboardGenerator is unchanged
+ * - Fail Fast: Throws only when every generator failed, listing each error
+ * - Traceable: Copy metadata names the generator that produced it
+ */
+
+import {
+  ICopyGenerator,
+  CopyGenerationInput,
+  CopyGenerationOptions,
+  GeneratedCopy,
+} from '../interfaces/ICopyGenerator';
+
+/**
+ * Retry and timeout policy.
+ */
+export interface FallbackCopyGeneratorOptions {
+  /** Retries per generator after the first attempt (default: 2) */
+  maxRetries?: number;
+
+  /** Delay before the first retry in milliseconds (default: 250) */
+  initialBackoffMs?: number;
+
+  /** Delay multiplier per retry (default: 2) */
+  backoffMultiplier?: number;
+
+  /** Upper bound for a retry delay in milliseconds (default: 4000) */
+  maxBackoffMs?: number;
+
+  /** Per-attempt timeout in milliseconds (default: 15000) */
+  timeoutMs?: number;
+
+  /** Decide whether an error is worth retrying (default: isTransientCopyError) */
+  isTransientError?: (error: unknown) => boolean;
+}
+
+/**
+ * Errors that usually succeed on retry: timeouts, rate limits,
+ * server errors and dropped connections.
+ */
+export function isTransientCopyError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /timed out|error (408|425|429|5\d\d)\b|fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up/i.test(message);
+}
+
+/**
+ * Copy generator with fallback chain and retry policy.
+ */
+export class FallbackCopyGenerator implements ICopyGenerator {
+  private generators: ICopyGenerator[];
+  private options: Required<FallbackCopyGeneratorOptions>;
+
+  constructor(generators: ICopyGenerator[], options: FallbackCopyGeneratorOptions = {}) {
+    if (generators.length === 0) {
+      throw new Error('FallbackCopyGenerator requires at least one generator');
+    }
+    this.generators = generators;
+    this.options = {
+      maxRetries: options.maxRetries ?? 2,
+      initialBackoffMs: options.initialBackoffMs ?? 250,
+      backoffMultiplier: options.backoffMultiplier ?? 2,
+      maxBackoffMs: options.maxBackoffMs ?? 4000,
+      timeoutMs: options.timeoutMs ?? 15000,
+      isTransientError: options.isTransientError ?? isTransientCopyError,
+    };
+  }
+
+  /**
+   * Generate copy with the first generator that succeeds.
+   * Sets `metadata.generator`, and `metadata.fallbackUsed` with a
+   * reason when an earlier generator was skipped or failed.
+   * Cancelling the signal stops the chain.
+   */
+  async generateCopy(input: CopyGenerationInput, options: CopyGenerationOptions = {}): Promise<GeneratedCopy> {
+    const failures: string[] = [];
+
+    for (const [index, generator] of this.generators.entries()) {
+      throwIfCancelled(options.signal);
+      if (!(await this.checkAvailable(generator))) {
+        failures.push(`${generator.getName()} unavailable`);
+        continue;
+      }
+
+      try {
+        const copy = await this.generateWithRetry(generator, input, options.signal);
+        const fallbackUsed = index > 0 || !!copy.metadata?.fallbackUsed;
+        return {
+          ...copy,
+          metadata: {
+            ...copy.metadata,
+            generator: copy.metadata?.generator ?? generator.getName(),
+            fallbackUsed,
+            ...(index > 0 ? { fallbackReason: failures.join('; ') } : {}),
+          },
+        };
+      } catch (error: any) {
+        throwIfCancelled(options.signal);
+        failures.push(`${generator.getName()} failed: ${error?.message ?? String(error)}`);
+      }
+    }
+
+    throw new Error(`All copy generators failed (${failures.join('; ')})`);
+  }
+
+  /**
+   * Available when any generator in the chain is.
+   */
+  async isAvailable(): Promise<boolean> {
+    for (const generator of this.generators) {
+      if (await this.checkAvailable(generator)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get name of this generator (chain in order).
+   */
+  getName(): string {
+    return `fallback(${this.generators.map((generator) => generator.getName()).join(' > ')})`;
+  }
+
+  // ========================================================================
+  // Private Methods
+  // ========================================================================
+
+  /**
+   * Call one generator, retrying transient errors with backoff.
+   */
+  private async generateWithRetry(
+    generator: ICopyGenerator,
+    input: CopyGenerationInput,
+    signal?: AbortSignal
+  ): Promise<GeneratedCopy> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.withTimeout(generator, input, signal);
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !this.options.isTransientError(error)) {
+          throw error;
+        }
+        await sleep(this.getBackoffMs(attempt));
+        throwIfCancelled(signal);
+      }
+    }
+  }
+
+  /**
+   * Call a generator, rejecting when it takes longer than the timeout.
+   * The call gets its own signal, aborted on timeout or when the caller's
+   * signal is.
+   */
+  private async withTimeout(
+    generator: ICopyGenerator,
+    input: CopyGenerationInput,
+    signal?: AbortSignal
+  ): Promise<GeneratedCopy> {
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      // Reject first, so the race settles with the timeout rather than the abort error
+      timer = setTimeout(() => {
+        reject(new Error(`${generator.getName()} timed out after ${this.options.timeoutMs}ms`));
+        controller.abort();
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([generator.generateCopy(input, { signal: controller.signal }), timeout]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * Exponential backoff delay before retry number `attempt + 1`.
+   */
+  private getBackoffMs(attempt: number): number {
+    const delay = this.options.initialBackoffMs * Math.pow(this.options.backoffMultiplier, attempt);
+    return Math.min(delay, this.options.maxBackoffMs);
+  }
+
+  /**
+   * Availability check that treats errors as unavailable.
+   */
+  private async checkAvailable(generator: ICopyGenerator): Promise<boolean> {
+    try {
+      return await generator.isAvailable();
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Stop when the caller cancelled.
+ */
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Copy generation cancelled');
+  }
+}
+
+/**
+ * Resolve after a delay.
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,106 @@
+/**
+ * ScreenshotTextExtractor Service
+ *
+ * Runs text recognition over uploaded screenshots and stores the UI
+ * strings on each `UploadedScreenshot.recognizedText`.
+ *
+ * Recognized text is context, not a requirement: a screenshot that
+ * cannot be read is reported in the warnings and left without text.
+ *
+ * Design Principles:
+ * - Dependency Inversion: Depends on ITextRecognizer interface
+ * - Immutability: Returns new screenshot objects
+ * - Sequential: OCR is CPU-bound, so screenshots are read one at a time
+ */
+
+import { Locale, UploadedScreenshot } from '@/domain';
+import { ITextRecognizer } from '../interfaces/ITextRecognizer';
+
+/**
+ * Extraction options.
+ */
+export interface ScreenshotTextExtractorOptions {
+  /** Maximum lines kept per screenshot (default: 30) */
+  maxLines?: number;
+}
+
+/**
+ * Extraction result.
+ */
+export interface ScreenshotTextExtractionResult {
+  screenshots: UploadedScreenshot[];
+  warnings: string[];
+}
+
+/**
+ * Screenshot text extractor service.
+ */
+export class ScreenshotTextExtractor {
+  private recognizer: ITextRecognizer;
+  private maxLines: number;
+
+  constructor(recognizer: ITextRecognizer, options: ScreenshotTextExtractorOptions = {}) {
+    this.recognizer = recognizer;
+    this.maxLines = options.maxLines ?? 30;
+  }
+
+  /**
+   * Recognize text in every screenshot.
+   *
+   * @param screenshots - Uploaded screenshot metadata
+   * @param images - Image data by screenshot ID
+   * @param locales - Locales whose scripts may appear on screen
+   * @returns Screenshots with `recognizedText`, and warnings for unreadable ones
+   */
+  async extract(
+    screenshots: UploadedScreenshot[],
+    images: Map<string, Buffer>,
+    locales: Locale[] = []
+  ): Promise<ScreenshotTextExtractionResult> {
+    const warnings: string[] = [];
+
+    if (!(await this.recognizer.isAvailable())) {
+      warnings.push(`Text recognition unavailable (${this.recognizer.getName()}); screenshots were not read`);
+      return { screenshots, warnings };
+    }
+
+    const result: UploadedScreenshot[] = [];
+
+    for (const [index, screenshot] of screenshots.entries()) {
+      const label = `Screenshot #${index + 1} (${screenshot.filename})`;
+      const image = images.get(screenshot.id);
+
+      if (!image) {
+        warnings.push(`${label}: No image data for text recognition`);
+        result.push(screenshot);
+        continue;
+      }
+
+      try {
+        const lines = await this.recognizer.recognize(image, { locales });
+        result.push({ ...screenshot, recognizedText: this.cleanLines(lines) });
+      } catch (error: any) {
+        warnings.push(`${label}: Text recognition failed: ${error?.message ?? String(error)}`);
+        result.push(screenshot);
+      }
+    }
+
+    return { screenshots: result, warnings };
+  }
+
+  // ========================================================================
+  // Private Methods
+  // ========================================================================
+
+  /**
+   * Collapse whitespace, drop lines without letters and duplicates,
+   * and keep at most `maxLines`.
+   */
+  private cleanLines(lines: string[]): string[] {
+    const cleaned = lines
+      .map((line) => line.replace(/\s+/g, ' ').trim())
+      .filter((line) => /\p{L}/u.test(line));
+
+    return Array.from(new Set(cleaned)).slice(0, this.maxLines);
+  }
+}
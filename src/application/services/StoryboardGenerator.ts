@@ -1,7 +1,7 @@
 /**
  * StoryboardGenerator Service
  * 
- * Orchestrates the creation of a complete 5-slide storyboard.
+ * Orchestrates the creation of a complete storyboard (1-10 slides).
  * 
  * Design Principles:
  * - Single Responsibility: Only generates storyboards
@@ -14,13 +14,38 @@ import {
     Slide,
     StoryboardInput,
     SlideText,
+    Locale,
     SlideScreenshot,
+    SlideType,
+    UploadedScreenshot,
     validateStoryboardInput,
-    SLIDES_PER_STORYBOARD,
+    getDefaultSlideCount,
+    getSlideTypes,
+    matchScreenshotsToSlides,
+    ScreenshotMatch,
     GENERATOR_VERSION,
     selectTemplate,
+    ScreenshotCrop,
+    getStoryboardLocales,
+    getSlideIndex,
+    reorderSlides,
+    insertFeatureSlide,
+    removeFeatureSlide,
+    setSlideTemplate,
+    setScreenshotCrop,
+    setAdditionalScreenshots,
+    setPanorama,
+    removePanorama,
+    replaceSlide,
   } from '@/domain';
-  import { ICopyGenerator } from '../interfaces/ICopyGenerator';
+  import {
+    ICopyGenerator,
+    CopyGenerationInput,
+    CopyTone,
+    GeneratedCopy,
+    DEFAULT_COPY_TONE,
+  } from '../interfaces/ICopyGenerator';
+  import { mapWithConcurrency } from './concurrency';
   
   /**
    * Storyboard generation result.
@@ -30,28 +55,92 @@ import {
     warnings: string[];
   }
   
+  /**
+   * Storyboard generator options.
+   */
+  export interface StoryboardGeneratorOptions {
+    /** Maximum copy requests in flight at once (default: 4) */
+    copyConcurrency?: number;
+  }
+  
+  /**
+   * Default cap on concurrent copy requests.
+   */
+  export const DEFAULT_COPY_CONCURRENCY = 4;
+  
+  /**
+   * A feature slide to insert.
+   */
+  export interface FeatureSlideInsertion {
+    /** Slide ID of the new slide (2 to the closing slide's ID) */
+    position: number;
+    
+    /** Value bullet to generate copy from */
+    valueBullet: string;
+    
+    /** Screenshot to show */
+    screenshot: SlideScreenshot;
+    
+    /** Template (default: alternates stack/split by position) */
+    templateId?: string;
+  }
+  
+  /**
+   * Options for regenerating one slide's copy.
+   */
+  export interface SlideCopyRegenerationOptions {
+    /** Value bullet to use instead of the slide's own (feature slides) */
+    valueBullet?: string;
+    
+    /** Brand tone (default: professional) */
+    tone?: CopyTone;
+  }
+  
+  /**
+   * A slide before its copy is generated.
+   */
+  interface SlidePlan {
+    id: number;
+    type: SlideType;
+    templateId: string;
+    screenshot: StoryboardInput['screenshots'][0];
+    copyInput: Omit<CopyGenerationInput, 'locale'>;
+  }
+  
   /**
    * Storyboard generator service.
    */
   export class StoryboardGenerator {
     private copyGenerator: ICopyGenerator;
+    private copyConcurrency: number;
     
-    constructor(copyGenerator: ICopyGenerator) {
+    constructor(copyGenerator: ICopyGenerator, options: StoryboardGeneratorOptions = {}) {
+      const copyConcurrency = options.copyConcurrency ?? DEFAULT_COPY_CONCURRENCY;
+      if (!Number.isInteger(copyConcurrency) || copyConcurrency < 1) {
+        throw new Error(`Invalid copy concurrency: ${copyConcurrency}. Must be a positive integer`);
+      }
+      
       this.copyGenerator = copyGenerator;
+      this.copyConcurrency = copyConcurrency;
     }
     
     /**
      * Generate a complete storyboard from user input.
      * 
      * @param input - User input (app name, value bullets, screenshots)
-     * @returns Generated storyboard with 5 slides
+     * @returns Generated storyboard with `input.slideCount` slides
      * 
      * Business Rules:
-     * - Exactly 5 slides per storyboard
-     * - Slide 1: Hero (core promise)
-     * - Slides 2-4: Features (from value bullets)
-     * - Slide 5: Closing (CTA)
-     * - Screenshots assigned sequentially by default
+     * - 1-10 slides; by default hero + one feature per value bullet + closing
+     * - First slide: Hero (core promise)
+     * - Middle slides: Features (value bullets in order)
+     * - Last slide: Closing (CTA), for storyboards of 2+ slides
+     * - Screenshots matched to value bullets by recognized text and
+     *   filename; upload order when nothing matches
+     * - One screenshot per slide, unless `input.allowScreenshotReuse`
+     * - Copy generated for the primary locale and each additional locale
+     * - Copy requests run concurrently (up to the concurrency cap);
+     *   slides and warnings are always assembled in slide order
      */
     async generate(input: StoryboardInput): Promise<StoryboardGenerationResult> {
       // Validate input
@@ -59,65 +148,45 @@ import {
         appName: input.appName,
         valueBullets: input.valueBullets,
         screenshots: input.screenshots,
+        slideCount: input.slideCount,
+        allowScreenshotReuse: input.allowScreenshotReuse,
+        brandColor: input.brandColor,
+        locale: input.locale,
+        additionalLocales: input.additionalLocales,
       });
       
       const warnings: string[] = [];
+      const locales = this.getLocales(input);
       
-      // Generate slides
-      const slides: Slide[] = [];
-      
-      // Slide 1: Hero
-      const heroSlide = await this.generateHeroSlide(
-        input,
-        1,
-        input.screenshots[0]
-      );
-      slides.push(heroSlide);
+      // Plan slides (screenshots, templates, copy inputs)
+      const slideCount = input.slideCount ?? getDefaultSlideCount(input.valueBullets.length);
+      const plans = this.planSlides(input, slideCount, warnings);
       
-      // Slides 2-4: Features (use first 3 value bullets)
-      for (let i = 0; i < 3; i++) {
-        const slideNumber = i + 2;
-        const valueBullet = input.valueBullets[i];
-        const screenshot = input.screenshots[i + 1] || input.screenshots[0]; // Fallback to first screenshot
-        
-        if (!input.screenshots[i + 1]) {
-          warnings.push(`Slide ${slideNumber}: Using screenshot #1 (not enough screenshots provided)`);
-        }
-        
-        const featureSlide = await this.generateFeatureSlide(
-          input,
-          slideNumber,
-          valueBullet,
-          screenshot
+      const featureCount = plans.filter((plan) => plan.type === 'feature').length;
+      if (featureCount < input.valueBullets.length) {
+        warnings.push(
+          `Only ${featureCount} of ${input.valueBullets.length} value bullets used (${slideCount} slides)`
         );
-        slides.push(featureSlide);
-      }
-      
-      // Slide 5: Closing
-      const closingScreenshot = input.screenshots[4] || input.screenshots[0];
-      if (!input.screenshots[4]) {
-        warnings.push('Slide 5: Using screenshot #1 (not enough screenshots provided)');
       }
       
-      const closingSlide = await this.generateClosingSlide(
-        input,
-        5,
-        closingScreenshot
+      // Generate copy for every slide and locale concurrently
+      const jobs = plans.flatMap((plan) => locales.map((locale) => ({ plan, locale })));
+      const copies = await mapWithConcurrency(jobs, this.copyConcurrency, ({ plan, locale }) =>
+        this.copyGenerator.generateCopy({ ...plan.copyInput, locale })
       );
-      slides.push(closingSlide);
       
-      // Validate we have exactly 5 slides
-      if (slides.length !== SLIDES_PER_STORYBOARD) {
-        throw new Error(
-          `Invalid storyboard: expected ${SLIDES_PER_STORYBOARD} slides, got ${slides.length}`
-        );
-      }
+      // Assemble slides in order
+      const slides: Slide[] = plans.map((plan, planIndex) => {
+        const slideCopies = copies.slice(planIndex * locales.length, (planIndex + 1) * locales.length);
+        return this.buildSlide(plan, slideCopies, warnings);
+      });
       
       // Create storyboard
       const storyboard: Storyboard = {
         appName: input.appName,
         locale: input.locale,
-        slides: slides as [Slide, Slide, Slide, Slide, Slide],
+        ...(locales.length > 1 ? { locales } : {}),
+        slides,
         createdAt: new Date().toISOString(),
         version: GENERATOR_VERSION,
       };
@@ -133,139 +202,156 @@ import {
     // ========================================================================
     
     /**
-     * Generate hero slide (slide 1).
+     * Plan all slides: hero, one feature per value bullet, closing.
+     * Screenshots are matched to slides by their recognized text and
+     * filenames (upload order when nothing matches); choices are
+     * explained in the warnings.
      */
-    private async generateHeroSlide(
-      input: StoryboardInput,
-      slideNumber: number,
-      screenshot: StoryboardInput['screenshots'][0]
-    ): Promise<Slide> {
-      // Generate copy
-      const copy = await this.copyGenerator.generateCopy({
-        appName: input.appName,
-        slideType: 'hero',
-        locale: input.locale,
-        brandContext: {
-          tone: 'professional',
-        },
-      });
-      
-      // Create slide text
-      const text: SlideText = {
-        headline: copy.headline,
-        subheadline: copy.subheadline,
-        locale: input.locale,
-      };
-      
-      // Create screenshot reference
-      const screenshotRef: SlideScreenshot = {
-        screenshotId: screenshot.id,
-        originalFilename: screenshot.filename,
-      };
+    private planSlides(input: StoryboardInput, slideCount: number, warnings: string[]): SlidePlan[] {
+      let featureIndex = 0;
+      const slides = getSlideTypes(slideCount).map((type, index) => ({
+        id: index + 1,
+        type,
+        valueBullet: type === 'feature' ? input.valueBullets[featureIndex++] : undefined,
+      }));
       
-      // Select template
-      const template = selectTemplate('hero');
+      const matches = matchScreenshotsToSlides(slides, input.screenshots);
+      warnings.push(...this.explainScreenshotMatches(input, slides, matches));
       
-      return {
-        id: slideNumber,
-        type: 'hero',
-        text,
-        screenshot: screenshotRef,
-        templateId: template.id,
-      };
+      return slides.map((slide, index): SlidePlan => {
+        const screenshot = input.screenshots[matches[index].screenshotIndex];
+        
+        if (slide.type === 'feature') {
+          // Select template (alternate between stack and split for variety)
+          const templateId = slide.id % 2 === 0 ? 'stack' : 'split';
+          
+          return {
+            id: slide.id,
+            type: slide.type,
+            templateId: selectTemplate('feature', templateId).id,
+            screenshot,
+            copyInput: {
+              appName: input.appName,
+              valueBullet: slide.valueBullet,
+              slideType: 'feature',
+              ...visibleText(screenshot),
+            },
+          };
+        }
+        
+        return {
+          id: slide.id,
+          type: slide.type,
+          templateId: selectTemplate(slide.type).id,
+          screenshot,
+          copyInput: {
+            appName: input.appName,
+            slideType: slide.type,
+            brandContext: {
+              tone: 'professional',
+            },
+            ...visibleText(screenshot),
+          },
+        };
+      });
     }
     
     /**
-     * Generate feature slide (slides 2-4).
+     * Describe screenshot choices: text matches, reused screenshots,
+     * or upload order when nothing matched.
      */
-    private async generateFeatureSlide(
+    private explainScreenshotMatches(
       input: StoryboardInput,
-      slideNumber: number,
-      valueBullet: string,
-      screenshot: StoryboardInput['screenshots'][0]
-    ): Promise<Slide> {
-      // Generate copy
-      const copy = await this.copyGenerator.generateCopy({
-        appName: input.appName,
-        valueBullet,
-        slideType: 'feature',
-        locale: input.locale,
-      });
+      slides: { id: number; type: SlideType }[],
+      matches: ScreenshotMatch[]
+    ): string[] {
+      const notes: string[] = [];
+      const describe = (index: number) => `screenshot #${index + 1} (${input.screenshots[index].filename})`;
+      const quote = (terms: string[]) => terms.map((term) => `"${term}"`).join(', ');
       
-      // Create slide text
-      const text: SlideText = {
-        headline: copy.headline,
-        subheadline: copy.subheadline,
-        locale: input.locale,
-      };
-      
-      // Create screenshot reference
-      const screenshotRef: SlideScreenshot = {
-        screenshotId: screenshot.id,
-        originalFilename: screenshot.filename,
-      };
+      matches.forEach((match) => {
+        if (match.reused) {
+          notes.push(
+            match.score > 0
+              ? `Slide ${match.slideId}: Reusing ${describe(match.screenshotIndex)}, best match for ${quote(match.matchedTerms)} (not enough screenshots provided)`
+              : `Slide ${match.slideId}: Using screenshot #1 (not enough screenshots provided)`
+          );
+        } else if (match.score > 0) {
+          notes.push(`Slide ${match.slideId}: Using ${describe(match.screenshotIndex)}, matches ${quote(match.matchedTerms)}`);
+        }
+      });
       
-      // Select template (alternate between stack and split for variety)
-      const templateId = slideNumber % 2 === 0 ? 'stack' : 'split';
-      const template = selectTemplate('feature', templateId);
+      const hasFeatures = slides.some((slide) => slide.type === 'feature');
+      if (hasFeatures && matches.every((match) => match.score === 0)) {
+        notes.unshift('Screenshots assigned in upload order (no recognized text or filename matches the value bullets)');
+      }
       
-      return {
-        id: slideNumber,
-        type: 'feature',
-        text,
-        screenshot: screenshotRef,
-        templateId: template.id,
-      };
+      return notes;
     }
     
     /**
-     * Generate closing slide (slide 5).
+     * Build a slide from its plan and its copy (primary locale first).
+     * The generator behind each locale's copy is recorded in the slide
+     * metadata; copy from a fallback generator is also warned about.
      */
-    private async generateClosingSlide(
-      input: StoryboardInput,
-      slideNumber: number,
-      screenshot: StoryboardInput['screenshots'][0]
-    ): Promise<Slide> {
-      // Generate copy
-      const copy = await this.copyGenerator.generateCopy({
-        appName: input.appName,
-        slideType: 'closing',
-        locale: input.locale,
-        brandContext: {
-          tone: 'professional',
-        },
-      });
-      
-      // Create slide text
-      const text: SlideText = {
-        headline: copy.headline,
-        subheadline: copy.subheadline,
-        locale: input.locale,
-      };
+    private buildSlide(plan: SlidePlan, copies: GeneratedCopy[], warnings: string[]): Slide {
+      const copyGenerators: Partial<Record<Locale, string>> = {};
+      for (const copy of copies) {
+        const generator = copy.metadata?.generator ?? this.copyGenerator.getName();
+        copyGenerators[copy.locale] = generator;
+        if (copy.metadata?.fallbackUsed) {
+          const reason = copy.metadata.fallbackReason ?? 'no reason given';
+          warnings.push(`Slide ${plan.id} [${copy.locale}]: Copy generated by ${generator} (${reason})`);
+        }
+      }
       
-      // Create screenshot reference
+      // Create screenshot reference (with its recognized text, if any)
       const screenshotRef: SlideScreenshot = {
-        screenshotId: screenshot.id,
-        originalFilename: screenshot.filename,
+        screenshotId: plan.screenshot.id,
+        originalFilename: plan.screenshot.filename,
+        ...(plan.screenshot.recognizedText?.length
+          ? { recognizedText: plan.screenshot.recognizedText }
+          : {}),
       };
       
-      // Select template
-      const template = selectTemplate('closing');
-      
       return {
-        id: slideNumber,
-        type: 'closing',
-        text,
+        id: plan.id,
+        type: plan.type,
+        ...toSlideTexts(copies),
+        ...(plan.copyInput.valueBullet ? { valueBullet: plan.copyInput.valueBullet } : {}),
         screenshot: screenshotRef,
-        templateId: template.id,
+        templateId: plan.templateId,
+        metadata: { copyGenerators },
       };
     }
     
+    /**
+     * Generate copy for one slide in every locale (primary first).
+     */
+    private generateSlideCopies(
+      copyInput: Omit<CopyGenerationInput, 'locale'>,
+      locales: Locale[]
+    ): Promise<GeneratedCopy[]> {
+      return mapWithConcurrency(locales, this.copyConcurrency, (locale) =>
+        this.copyGenerator.generateCopy({ ...copyInput, locale })
+      );
+    }
+    
+    /**
+     * Primary locale followed by distinct additional locales.
+     */
+    private getLocales(input: StoryboardInput): Locale[] {
+      const additional = (input.additionalLocales ?? []).filter(
+        (locale) => locale !== input.locale
+      );
+      return [input.locale, ...Array.from(new Set(additional))];
+    }
+    
     /**
      * Update screenshot assignment for a specific slide.
      * 
      * @param storyboard - Existing storyboard
-     * @param slideId - Slide ID to update (1-5)
+     * @param slideId - Slide ID to update (1 to the storyboard's slide count)
      * @param newScreenshotId - New screenshot ID to assign
      * @returns Updated storyboard
      */
@@ -275,12 +361,8 @@ import {
       newScreenshotId: string,
       newFilename: string
     ): Storyboard {
-      if (slideId < 1 || slideId > SLIDES_PER_STORYBOARD) {
-        throw new Error(`Invalid slide ID: ${slideId}. Must be 1-${SLIDES_PER_STORYBOARD}`);
-      }
-      
       // Find the slide
-      const slideIndex = slideId - 1;
+      const slideIndex = getSlideIndex(storyboard, slideId);
       const updatedSlides = [...storyboard.slides];
       
       // Update screenshot assignment
@@ -294,7 +376,7 @@ import {
       
       return {
         ...storyboard,
-        slides: updatedSlides as [Slide, Slide, Slide, Slide, Slide],
+        slides: updatedSlides,
       };
     }
     
@@ -302,7 +384,7 @@ import {
      * Update text content for a specific slide.
      * 
      * @param storyboard - Existing storyboard
-     * @param slideId - Slide ID to update (1-5)
+     * @param slideId - Slide ID to update (1 to the storyboard's slide count)
      * @param newText - New headline and/or subheadline
      * @returns Updated storyboard
      */
@@ -311,11 +393,7 @@ import {
       slideId: number,
       newText: { headline?: string; subheadline?: string }
     ): Storyboard {
-      if (slideId < 1 || slideId > SLIDES_PER_STORYBOARD) {
-        throw new Error(`Invalid slide ID: ${slideId}. Must be 1-${SLIDES_PER_STORYBOARD}`);
-      }
-      
-      const slideIndex = slideId - 1;
+      const slideIndex = getSlideIndex(storyboard, slideId);
       const updatedSlides = [...storyboard.slides];
       const currentSlide = updatedSlides[slideIndex];
       
@@ -331,7 +409,214 @@ import {
       
       return {
         ...storyboard,
-        slides: updatedSlides as [Slide, Slide, Slide, Slide, Slide],
+        slides: updatedSlides,
       };
     }
+    
+    /**
+     * Reorder slides.
+     * 
+     * @param storyboard - Existing storyboard
+     * @param slideIds - Every slide ID once, in the new order
+     * @returns Updated storyboard, slides renumbered in the new order
+     * @throws Error if the order is not a permutation or breaks the
+     *   hero, features, closing sequence
+     */
+    reorderSlides(storyboard: Storyboard, slideIds: number[]): Storyboard {
+      return reorderSlides(storyboard, slideIds);
+    }
+    
+    /**
+     * Insert a feature slide, with copy generated for every storyboard locale.
+     * 
+     * @param storyboard - Existing storyboard
+     * @param insertion - Position, value bullet, screenshot and optional template
+     * @returns Updated storyboard, later slides renumbered
+     * @throws Error if the position is not between the hero and closing
+     *   slides, the storyboard is full, or the template does not apply
+     */
+    async insertFeatureSlide(storyboard: Storyboard, insertion: FeatureSlideInsertion): Promise<Storyboard> {
+      const valueBullet = insertion.valueBullet.trim();
+      if (!valueBullet) {
+        throw new Error('Value bullet is required for a feature slide');
+      }
+      
+      const defaultTemplateId = insertion.position % 2 === 0 ? 'stack' : 'split';
+      const templateId = insertion.templateId ?? selectTemplate('feature', defaultTemplateId).id;
+      
+      // Check the position before spending copy requests
+      insertFeatureSlide(storyboard, insertion.position, {
+        text: storyboard.slides[0].text,
+        screenshot: insertion.screenshot,
+        templateId,
+      });
+      
+      const copies = await this.generateSlideCopies(
+        {
+          appName: storyboard.appName,
+          valueBullet,
+          slideType: 'feature',
+          ...(insertion.screenshot.recognizedText?.length
+            ? { visibleText: insertion.screenshot.recognizedText }
+            : {}),
+        },
+        getStoryboardLocales(storyboard)
+      );
+      
+      return insertFeatureSlide(storyboard, insertion.position, {
+        ...toSlideTexts(copies),
+        valueBullet,
+        screenshot: insertion.screenshot,
+        templateId,
+      });
+    }
+    
+    /**
+     * Remove a feature slide.
+     * 
+     * @param storyboard - Existing storyboard
+     * @param slideId - Feature slide to remove
+     * @returns Updated storyboard, later slides renumbered
+     * @throws Error if the slide is not a feature slide
+     */
+    removeFeatureSlide(storyboard: Storyboard, slideId: number): Storyboard {
+      return removeFeatureSlide(storyboard, slideId);
+    }
+    
+    /**
+     * Change the template of a slide.
+     * 
+     * @param storyboard - Existing storyboard
+     * @param slideId - Slide ID to update
+     * @param templateId - Template applicable to the slide's type
+     * @returns Updated storyboard
+     * @throws Error if the template does not exist or does not apply
+     */
+    updateSlideTemplate(storyboard: Storyboard, slideId: number, templateId: string): Storyboard {
+      return setSlideTemplate(storyboard, slideId, templateId);
+    }
+    
+    /**
+     * Set or clear the crop of a slide's screenshot.
+     * 
+     * @param storyboard - Existing storyboard
+     * @param slideId - Slide ID to update
+     * @param crop - Rectangle in source image pixels, or null to show the whole screenshot
+     * @returns Updated storyboard
+     */
+    updateScreenshotCrop(storyboard: Storyboard, slideId: number, crop: ScreenshotCrop | null): Storyboard {
+      return setScreenshotCrop(storyboard, slideId, crop);
+    }
+    
+    /**
+     * Set the screenshots for a slide's further devices (multi-device templates).
+     * 
+     * @param storyboard - Existing storyboard
+     * @param slideId - Slide ID to update
+     * @param screenshots - Screenshots in template position order, after the slide's own (empty to clear)
+     * @returns Updated storyboard
+     * @throws Error if the slide would have more than SLIDE_SCREENSHOTS_MAX screenshots
+     */
+    updateAdditionalScreenshots(storyboard: Storyboard, slideId: number, screenshots: SlideScreenshot[]): Storyboard {
+      return setAdditionalScreenshots(storyboard, slideId, screenshots);
+    }
+    
+    /**
+     * Render consecutive slides as one panorama (one wide canvas, sliced per slide).
+     * 
+     * @param storyboard - Existing storyboard
+     * @param startSlideId - First slide of the panorama
+     * @param slideCount - Number of slides (2 or more)
+     * @returns Updated storyboard
+     * @throws Error if the range is invalid or overlaps another panorama
+     */
+    setPanorama(storyboard: Storyboard, startSlideId: number, slideCount: number): Storyboard {
+      return setPanorama(storyboard, startSlideId, slideCount);
+    }
+    
+    /**
+     * Remove the panorama containing a slide.
+     * 
+     * @param storyboard - Existing storyboard
+     * @param slideId - Any slide of the panorama
+     * @returns Updated storyboard
+     * @throws Error if the slide is not part of a panorama
+     */
+    removePanorama(storyboard: Storyboard, slideId: number): Storyboard {
+      return removePanorama(storyboard, slideId);
+    }
+    
+    /**
+     * Regenerate the copy of one slide, in every storyboard locale.
+     * Replaces user edits to that slide's text.
+     * 
+     * @param storyboard - Existing storyboard
+     * @param slideId - Slide ID to regenerate
+     * @param options - Value bullet override and tone
+     * @returns Updated storyboard
+     * @throws Error if a feature slide has no value bullet to generate from
+     */
+    async regenerateSlideCopy(
+      storyboard: Storyboard,
+      slideId: number,
+      options: SlideCopyRegenerationOptions = {}
+    ): Promise<Storyboard> {
+      const slideIndex = getSlideIndex(storyboard, slideId);
+      const slide = storyboard.slides[slideIndex];
+      
+      const valueBullet = options.valueBullet?.trim() || slide.valueBullet;
+      if (slide.type === 'feature' && !valueBullet) {
+        throw new Error(`Slide ${slideId} has no value bullet. Provide one to regenerate its copy`);
+      }
+      
+      const copies = await this.generateSlideCopies(
+        {
+          appName: storyboard.appName,
+          valueBullet: slide.type === 'feature' ? valueBullet : undefined,
+          slideType: slide.type,
+          brandContext: {
+            tone: options.tone ?? DEFAULT_COPY_TONE,
+          },
+          ...(slide.screenshot.recognizedText?.length
+            ? { visibleText: slide.screenshot.recognizedText }
+            : {}),
+        },
+        getStoryboardLocales(storyboard)
+      );
+      
+      const { localizedText: _previous, ...rest } = slide;
+      return replaceSlide(storyboard, slideIndex, {
+        ...rest,
+        ...toSlideTexts(copies),
+        ...(slide.type === 'feature' ? { valueBullet } : {}),
+      });
+    }
+  }
+  
+  /**
+   * Slide text fields from copies (primary locale first).
+   */
+  function toSlideTexts(copies: GeneratedCopy[]): Pick<Slide, 'text' | 'localizedText'> {
+    const [text, ...localized] = copies.map((copy): SlideText => ({
+      headline: copy.headline,
+      subheadline: copy.subheadline,
+      locale: copy.locale,
+    }));
+    
+    if (localized.length === 0) {
+      return { text };
+    }
+    
+    const localizedText: Partial<Record<Locale, SlideText>> = {};
+    for (const localizedEntry of localized) {
+      localizedText[localizedEntry.locale] = localizedEntry;
+    }
+    return { text, localizedText };
+  }
+  
+  /**
+   * Copy input field for a screenshot's recognized text (omitted when empty).
+   */
+  function visibleText(screenshot: UploadedScreenshot): Pick<CopyGenerationInput, 'visibleText'> {
+    return screenshot.recognizedText?.length ? { visibleText: screenshot.recognizedText } : {};
   }
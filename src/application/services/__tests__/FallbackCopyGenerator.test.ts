@@ -0,0 +1,182 @@
+/**
+ * Retry, backoff, timeout and cancellation of the copy generator chain,
+ * on fake timers.
+ */
+
+import { CopyGenerationInput, CopyGenerationOptions, GeneratedCopy, ICopyGenerator } from '../../interfaces';
+import { FallbackCopyGenerator, isTransientCopyError } from '../FallbackCopyGenerator';
+
+const INPUT: CopyGenerationInput = {
+  appName: 'Trailmate',
+  valueBullet: 'Offline trail maps',
+  slideType: 'feature',
+  locale: 'en-US',
+};
+
+/** Outcome of one call: copy, an error, or never settling until aborted */
+type Step = 'ok' | Error | 'hang';
+
+/**
+ * Generator that plays back one step per call and records when each call
+ * started and the signal it was given.
+ */
+class ScriptedGenerator implements ICopyGenerator {
+  readonly calls: { at: number; signal?: AbortSignal }[] = [];
+
+  constructor(private name: string, private steps: Step[], private available = true) {}
+
+  generateCopy(input: CopyGenerationInput, options: CopyGenerationOptions = {}): Promise<GeneratedCopy> {
+    this.calls.push({ at: Date.now(), signal: options.signal });
+    const step = this.steps[Math.min(this.calls.length - 1, this.steps.length - 1)];
+
+    if (step === 'hang') {
+      return new Promise((_, reject) =>
+        options.signal?.addEventListener('abort', () => reject(new Error(`${this.name} aborted`)))
+      );
+    }
+    if (step instanceof Error) {
+      return Promise.reject(step);
+    }
+    return Promise.resolve({ headline: `${this.name} headline`, subheadline: 'Subheadline', locale: input.locale });
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.available;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+}
+
+describe('FallbackCopyGenerator', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /** Run a generation to completion, advancing fake time as needed */
+  const settle = async <T>(promise: Promise<T>) => {
+    const result = promise.then(
+      (value) => ({ value, error: undefined }),
+      (error: Error) => ({ value: undefined, error })
+    );
+    await jest.runAllTimersAsync();
+    return result;
+  };
+
+  it('retries transient errors with exponential backoff, then succeeds', async () => {
+    const llm = new ScriptedGenerator('llm', [
+      new Error('LLM provider error 503: busy'),
+      new Error('LLM provider error 429: slow down'),
+      'ok',
+    ]);
+    const chain = new FallbackCopyGenerator([llm], { maxRetries: 2, initialBackoffMs: 100, backoffMultiplier: 3 });
+
+    const { value } = await settle(chain.generateCopy(INPUT));
+
+    expect(value?.headline).toBe('llm headline');
+    expect(value?.metadata).toMatchObject({ generator: 'llm', fallbackUsed: false });
+    expect(llm.calls.map((call) => call.at)).toEqual([0, 100, 400]);
+  });
+
+  it('caps the backoff delay', async () => {
+    const llm = new ScriptedGenerator('llm', [new Error('fetch failed'), new Error('fetch failed'), 'ok']);
+    const chain = new FallbackCopyGenerator([llm], { initialBackoffMs: 1000, backoffMultiplier: 10, maxBackoffMs: 1500 });
+
+    await settle(chain.generateCopy(INPUT));
+
+    expect(llm.calls.map((call) => call.at)).toEqual([0, 1000, 2500]);
+  });
+
+  it('moves to the next generator after the last retry, with the reason', async () => {
+    const llm = new ScriptedGenerator('llm', [new Error('LLM provider error 500: oops')]);
+    const rules = new ScriptedGenerator('rules', ['ok']);
+    const chain = new FallbackCopyGenerator([llm, rules], { maxRetries: 2 });
+
+    const { value } = await settle(chain.generateCopy(INPUT));
+
+    expect(llm.calls).toHaveLength(3);
+    expect(value?.metadata).toMatchObject({
+      generator: 'rules',
+      fallbackUsed: true,
+      fallbackReason: 'llm failed: LLM provider error 500: oops',
+    });
+  });
+
+  it('does not retry errors that are not transient', async () => {
+    const llm = new ScriptedGenerator('llm', [new Error('Copy reply is not valid JSON: {')]);
+    const rules = new ScriptedGenerator('rules', ['ok']);
+    const chain = new FallbackCopyGenerator([llm, rules], { maxRetries: 3 });
+
+    const { value } = await settle(chain.generateCopy(INPUT));
+
+    expect(llm.calls).toHaveLength(1);
+    expect(rules.calls.map((call) => call.at)).toEqual([0]);
+    expect(value?.metadata?.generator).toBe('rules');
+  });
+
+  it('times out a call, aborts its signal and retries it', async () => {
+    const llm = new ScriptedGenerator('llm', ['hang', 'ok']);
+    const chain = new FallbackCopyGenerator([llm], { timeoutMs: 5000, initialBackoffMs: 100 });
+
+    const { value } = await settle(chain.generateCopy(INPUT));
+
+    expect(value?.headline).toBe('llm headline');
+    expect(llm.calls.map((call) => call.at)).toEqual([0, 5100]);
+    expect(llm.calls[0].signal?.aborted).toBe(true);
+    expect(llm.calls[1].signal?.aborted).toBe(false);
+  });
+
+  it('skips unavailable generators and fails when every generator failed', async () => {
+    const offline = new ScriptedGenerator('offline', ['ok'], false);
+    const llm = new ScriptedGenerator('llm', ['hang']);
+    const chain = new FallbackCopyGenerator([offline, llm], { maxRetries: 1, timeoutMs: 1000 });
+
+    const { error } = await settle(chain.generateCopy(INPUT));
+
+    expect(offline.calls).toHaveLength(0);
+    expect(llm.calls).toHaveLength(2);
+    expect(error?.message).toBe(
+      'All copy generators failed (offline unavailable; llm failed: llm timed out after 1000ms)'
+    );
+  });
+
+  it('stops the chain and aborts the running call when the caller cancels', async () => {
+    const llm = new ScriptedGenerator('llm', ['hang']);
+    const rules = new ScriptedGenerator('rules', ['ok']);
+    const chain = new FallbackCopyGenerator([llm, rules]);
+    const controller = new AbortController();
+
+    const result = settle(chain.generateCopy(INPUT, { signal: controller.signal }));
+    controller.abort();
+    const { error } = await result;
+
+    expect(error?.message).toBe('Copy generation cancelled');
+    expect(llm.calls[0].signal?.aborted).toBe(true);
+    expect(rules.calls).toHaveLength(0);
+  });
+});
+
+describe('isTransientCopyError', () => {
+  it.each([
+    'llm timed out after 15000ms',
+    'LLM provider error 429: rate limited',
+    'LLM provider error 502: bad gateway',
+    'fetch failed',
+    'connect ECONNREFUSED 127.0.0.1:11434',
+  ])('retries "%s"', (message) => {
+    expect(isTransientCopyError(new Error(message))).toBe(true);
+  });
+
+  it.each([
+    'LLM provider error 400: bad request',
+    'LLM provider error 401: invalid key',
+    'Copy reply is missing headline or subheadline',
+  ])('does not retry "%s"', (message) => {
+    expect(isTransientCopyError(new Error(message))).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Storyboard generation with a stub copy generator: screenshot choices
+ * and the warnings explaining them.
+ */
+
+import { StoryboardInput, UploadedScreenshot } from '@/domain';
+import { CopyGenerationInput, GeneratedCopy, ICopyGenerator } from '../../interfaces';
+import { StoryboardGenerator } from '../StoryboardGenerator';
+
+/** Copy naming the slide type and bullet */
+class StubCopyGenerator implements ICopyGenerator {
+  async generateCopy(input: CopyGenerationInput): Promise<GeneratedCopy> {
+    return { headline: input.valueBullet ?? input.slideType, subheadline: input.appName, locale: input.locale };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  getName(): string {
+    return 'stub';
+  }
+}
+
+function screenshot(filename: string): UploadedScreenshot {
+  return { id: filename.replace(/\.[^/.]+$/, ''), filename, mimeType: 'image/png', size: 1000 };
+}
+
+function input(overrides: Partial<StoryboardInput> = {}): StoryboardInput {
+  return {
+    appName: 'Trailmate',
+    valueBullets: ['Offline maps', 'Trip planner', 'Weather alerts'],
+    screenshots: ['a.png', 'b.png', 'c.png', 'd.png', 'e.png'].map(screenshot),
+    locale: 'en-US',
+    ...overrides,
+  };
+}
+
+describe('StoryboardGenerator', () => {
+  const generator = new StoryboardGenerator(new StubCopyGenerator());
+
+  it('assigns screenshots in upload order when nothing matches, and says so', async () => {
+    const { storyboard, warnings } = await generator.generate(input());
+
+    expect(storyboard.slides.map((slide) => slide.screenshot.screenshotId)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(warnings).toEqual([
+      'Screenshots assigned in upload order (no recognized text or filename matches the value bullets)',
+    ]);
+  });
+
+  it('requires a screenshot per slide unless reuse is allowed', async () => {
+    await expect(
+      generator.generate(input({ screenshots: [screenshot('maps.png'), screenshot('weather.png')] }))
+    ).rejects.toMatchObject({
+      fieldErrors: [
+        {
+          field: 'screenshots',
+          message: '5 slides need 5 screenshots, got 2. Upload more screenshots or allow screenshot reuse',
+        },
+      ],
+    });
+  });
+
+  it('explains matched and reused screenshots', async () => {
+    const { storyboard, warnings } = await generator.generate(
+      input({
+        valueBullets: ['Offline maps', 'Offline trip maps', 'Weather alerts'],
+        screenshots: [screenshot('maps.png'), screenshot('weather.png')],
+        allowScreenshotReuse: true,
+      })
+    );
+
+    expect(storyboard.slides.map((slide) => slide.screenshot.screenshotId)).toEqual([
+      'maps', 'maps', 'maps', 'weather', 'maps',
+    ]);
+    expect(warnings).toEqual([
+      'Slide 1: Using screenshot #1 (not enough screenshots provided)',
+      'Slide 2: Using screenshot #1 (maps.png), matches "map"',
+      'Slide 3: Reusing screenshot #1 (maps.png), best match for "map" (not enough screenshots provided)',
+      'Slide 4: Using screenshot #2 (weather.png), matches "weather"',
+      'Slide 5: Using screenshot #1 (not enough screenshots provided)',
+    ]);
+  });
+});
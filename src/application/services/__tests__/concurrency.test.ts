@@ -0,0 +1,97 @@
+/**
+ * Bounded parallelism: result order, the in-flight limit and failures.
+ */
+
+import { mapWithConcurrency } from '../concurrency';
+
+/** Promise settled from outside, to finish calls in a chosen order */
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+function defer<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/** Let pending promise callbacks run */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('mapWithConcurrency', () => {
+  it('keeps input order when calls finish out of order', async () => {
+    const calls = new Map<number, Deferred<string>>();
+    const result = mapWithConcurrency([1, 2, 3, 4], 4, (item) => {
+      calls.set(item, defer());
+      return calls.get(item)!.promise;
+    });
+
+    await flush();
+    for (const item of [3, 1, 4, 2]) {
+      calls.get(item)!.resolve(`item ${item}`);
+      await flush();
+    }
+
+    await expect(result).resolves.toEqual(['item 1', 'item 2', 'item 3', 'item 4']);
+  });
+
+  it('runs at most `limit` calls at once, starting the next as one finishes', async () => {
+    const calls: Deferred<number>[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const result = mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, (item) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      const call = defer<number>();
+      calls.push(call);
+      return call.promise.finally(() => inFlight--).then(() => item * 10);
+    });
+
+    await flush();
+    expect(calls).toHaveLength(3);
+
+    calls[1].resolve(0);
+    await flush();
+    expect(calls).toHaveLength(4);
+
+    // Finish the rest one at a time (calls grows as new ones start)
+    for (const call of calls) {
+      call.resolve(0);
+      await flush();
+    }
+
+    await expect(result).resolves.toEqual([10, 20, 30, 40, 50, 60, 70]);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('rejects with the first error and starts no further calls', async () => {
+    const started: number[] = [];
+    const calls = new Map<number, Deferred<number>>();
+    const result = mapWithConcurrency([1, 2, 3, 4, 5], 2, (item) => {
+      started.push(item);
+      calls.set(item, defer());
+      return calls.get(item)!.promise;
+    });
+    result.catch(() => {});
+
+    await flush();
+    calls.get(2)!.reject(new Error('first failure'));
+    await flush();
+    calls.get(1)!.reject(new Error('second failure'));
+    await flush();
+
+    await expect(result).rejects.toThrow('first failure');
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('handles fewer items than the limit, and no items', async () => {
+    await expect(mapWithConcurrency(['a'], 4, async (item) => item.toUpperCase())).resolves.toEqual(['A']);
+    await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+  });
+});
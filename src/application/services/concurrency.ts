@@ -0,0 +1,39 @@
+/**
+ * Concurrency Helpers
+ *
+ * Bounded parallelism for copy requests (LLM providers rate-limit,
+ * so services cap how many calls are in flight).
+ *
+ * Design Principles:
+ * - Ordered: Results keep input order regardless of completion order
+ * - Fail Fast: The first error stops new calls
+ */
+
+/**
+ * Map items with at most `limit` calls in flight.
+ * Results keep item order; the first error rejects and stops new calls.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
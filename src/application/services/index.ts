@@ -4,5 +4,16 @@
  * Public API for application services.
  */
 
-export { StoryboardGenerator } from './StoryboardGenerator';
-export type { StoryboardGenerationResult } from './StoryboardGenerator';
+export { StoryboardGenerator, DEFAULT_COPY_CONCURRENCY } from './StoryboardGenerator';
+export type { StoryboardGenerationResult, StoryboardGeneratorOptions } from './StoryboardGenerator';
+export { FallbackCopyGenerator, isTransientCopyError } from './FallbackCopyGenerator';
+export type { FallbackCopyGeneratorOptions } from './FallbackCopyGenerator';
+export { ScreenshotTextExtractor } from './ScreenshotTextExtractor';
+export type { ScreenshotTextExtractorOptions, ScreenshotTextExtractionResult } from './ScreenshotTextExtractor';
+export { CopySuggestionService } from './CopySuggestionService';
+export type {
+  CopySuggestionInput,
+  CopySuggestion,
+  CopySuggestionResult,
+  CopySuggestionServiceOptions,
+} from './CopySuggestionService';
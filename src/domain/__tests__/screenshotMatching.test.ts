@@ -0,0 +1,115 @@
+/**
+ * Assigning screenshots to slides: optimal assignment, tie-breaking
+ * toward upload order, and reuse when there are more slides than
+ * screenshots.
+ */
+
+import { ScreenshotMatchSlide, matchScreenshotsToSlides } from '../screenshotMatching';
+import { UploadedScreenshot } from '../types';
+
+/** Screenshot with a filename and optional recognized text */
+function screenshot(filename: string, recognizedText?: string[]): UploadedScreenshot {
+  return {
+    id: filename.replace(/\.[^/.]+$/, ''),
+    filename,
+    mimeType: 'image/png',
+    size: 1000,
+    ...(recognizedText ? { recognizedText } : {}),
+  };
+}
+
+/** Hero, one feature slide per bullet, closing */
+function slides(...bullets: string[]): ScreenshotMatchSlide[] {
+  return [
+    { id: 1, type: 'hero' },
+    ...bullets.map((valueBullet, index): ScreenshotMatchSlide => ({ id: index + 2, type: 'feature', valueBullet })),
+    { id: bullets.length + 2, type: 'closing' },
+  ];
+}
+
+const indexes = (matches: ReturnType<typeof matchScreenshotsToSlides>) =>
+  matches.map((match) => match.screenshotIndex);
+
+describe('matchScreenshotsToSlides', () => {
+  it('keeps upload order when nothing matches', () => {
+    const matches = matchScreenshotsToSlides(
+      slides('Offline maps', 'Trip planner', 'Weather alerts'),
+      ['a.png', 'b.png', 'c.png', 'd.png', 'e.png'].map((filename) => screenshot(filename))
+    );
+
+    expect(indexes(matches)).toEqual([0, 1, 2, 3, 4]);
+    expect(matches.every((match) => match.score === 0 && !match.reused)).toBe(true);
+  });
+
+  it('matches bullets to filenames and recognized text', () => {
+    const matches = matchScreenshotsToSlides(slides('Offline maps', 'Weather alerts'), [
+      screenshot('IMG_0001.png'),
+      screenshot('IMG_0002.png', ['Alerts', 'Severe weather warning']),
+      screenshot('offlineMaps.png'),
+      screenshot('IMG_0004.png'),
+    ]);
+
+    expect(matches[1]).toMatchObject({ screenshotIndex: 2, matchedTerms: ['offline', 'map'] });
+    expect(matches[2]).toMatchObject({ screenshotIndex: 1, matchedTerms: ['weather', 'alert'] });
+  });
+
+  it('finds the best total assignment, not the greedy one', () => {
+    // "Trip calendar" matches trips.png best, but "Shared trips" matches
+    // nothing else; giving it trips.png and the calendar text to slide 2 scores higher
+    const matches = matchScreenshotsToSlides(slides('Trip calendar', 'Shared trips'), [
+      screenshot('home.png'),
+      screenshot('trips.png'),
+      screenshot('IMG_0003.png', ['Calendar']),
+      screenshot('end.png'),
+    ]);
+
+    expect(matches[1]).toMatchObject({ slideId: 2, screenshotIndex: 2, matchedTerms: ['calendar'] });
+    expect(matches[2]).toMatchObject({ slideId: 3, screenshotIndex: 1, matchedTerms: ['trip'] });
+  });
+
+  it('breaks ties toward upload order', () => {
+    // Both bullets match calendar.png equally; the slide at its upload position gets it
+    const equalBullets = slides('Calendar sync', 'Calendar sharing');
+
+    const atSlide2 = matchScreenshotsToSlides(equalBullets, ['a.png', 'calendar.png', 'c.png', 'd.png'].map((f) => screenshot(f)));
+    expect(indexes(atSlide2)).toEqual([0, 1, 2, 3]);
+    expect(atSlide2[1].matchedTerms).toEqual(['calendar']);
+    expect(atSlide2[2].score).toBe(0);
+
+    const atSlide3 = matchScreenshotsToSlides(equalBullets, ['a.png', 'b.png', 'calendar.png', 'd.png'].map((f) => screenshot(f)));
+    expect(indexes(atSlide3)).toEqual([0, 1, 2, 3]);
+    expect(atSlide3[2].matchedTerms).toEqual(['calendar']);
+    expect(atSlide3[1].score).toBe(0);
+  });
+
+  it('gives every screenshot out once before reusing, then reuses the best match', () => {
+    const matches = matchScreenshotsToSlides(slides('Calendar', 'Calendar sync', 'Weather'), [
+      screenshot('calendar.png'),
+      screenshot('weather.png'),
+    ]);
+
+    // Slides 2 and 4 have the strongest matches; slides 1, 3 and 5 reuse
+    expect(matches.map(({ screenshotIndex, reused }) => ({ screenshotIndex, reused }))).toEqual([
+      { screenshotIndex: 0, reused: true },
+      { screenshotIndex: 0, reused: false },
+      { screenshotIndex: 0, reused: true },
+      { screenshotIndex: 1, reused: false },
+      { screenshotIndex: 0, reused: true },
+    ]);
+    expect(matches[2]).toMatchObject({ score: 1, matchedTerms: ['calendar'] });
+    expect(matches[0].score).toBe(0);
+  });
+
+  it('uses screenshot #1 for reused slides without a match', () => {
+    const matches = matchScreenshotsToSlides(slides('Offline maps'), [screenshot('a.png'), screenshot('b.png')]);
+
+    expect(indexes(matches)).toEqual([0, 1, 0]);
+    expect(matches.map((match) => match.reused)).toEqual([false, false, true]);
+  });
+
+  it('requires a screenshot', () => {
+    expect(() => matchScreenshotsToSlides(slides('Offline maps'), [])).toThrow(
+      'At least one screenshot is required for matching'
+    );
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Storyboard edits: renumbering, hero/closing placement and panoramas
+ * following (or dropping out with) their slides.
+ */
+
+import {
+  FeatureSlideContent,
+  insertFeatureSlide,
+  removeFeatureSlide,
+  reorderSlides,
+  setPanorama,
+} from '../storyboardEditing';
+import { getSlideTypes } from '../constants';
+import { selectTemplate } from '../templates';
+import { Slide, SlidePanorama, Storyboard } from '../types';
+
+/** Storyboard of hero, features named "Feature 2".."Feature n-1", closing */
+function storyboard(slideCount: number, panoramas?: SlidePanorama[]): Storyboard {
+  const slides = getSlideTypes(slideCount).map((type, index): Slide => ({
+    id: index + 1,
+    type,
+    text: { headline: `${type} ${index + 1}`, subheadline: '', locale: 'en-US' },
+    ...(type === 'feature' ? { valueBullet: `Feature ${index + 1}` } : {}),
+    screenshot: { screenshotId: `screenshot-${index + 1}`, originalFilename: `screenshot-${index + 1}.png` },
+    templateId: selectTemplate(type).id,
+  }));
+  return {
+    appName: 'Trailmate',
+    locale: 'en-US',
+    slides,
+    ...(panoramas ? { panoramas } : {}),
+    createdAt: '2024-01-01T00:00:00.000Z',
+    version: '1.0',
+  };
+}
+
+const NEW_FEATURE: FeatureSlideContent = {
+  text: { headline: 'New feature', subheadline: '', locale: 'en-US' },
+  valueBullet: 'New feature',
+  screenshot: { screenshotId: 'screenshot-new', originalFilename: 'screenshot-new.png' },
+  templateId: selectTemplate('feature').id,
+};
+
+/** Slide IDs with the headline each now carries */
+const layout = (board: Storyboard) => board.slides.map((slide) => `${slide.id}:${slide.text.headline}`);
+
+describe('storyboard editing', () => {
+  describe('renumbering', () => {
+    it('renumbers slides after an insert', () => {
+      const updated = insertFeatureSlide(storyboard(5), 3, NEW_FEATURE);
+
+      expect(layout(updated)).toEqual([
+        '1:hero 1', '2:feature 2', '3:New feature', '4:feature 3', '5:feature 4', '6:closing 5',
+      ]);
+    });
+
+    it('renumbers slides after a removal', () => {
+      const updated = removeFeatureSlide(storyboard(5), 3);
+
+      expect(layout(updated)).toEqual(['1:hero 1', '2:feature 2', '3:feature 4', '4:closing 5']);
+    });
+
+    it('renumbers slides in their new order', () => {
+      const updated = reorderSlides(storyboard(5), [1, 4, 2, 3, 5]);
+
+      expect(layout(updated)).toEqual(['1:hero 1', '2:feature 4', '3:feature 2', '4:feature 3', '5:closing 5']);
+    });
+
+    it('leaves the original storyboard unchanged', () => {
+      const original = storyboard(5);
+      const before = JSON.stringify(original);
+
+      insertFeatureSlide(original, 2, NEW_FEATURE);
+      removeFeatureSlide(original, 2);
+      reorderSlides(original, [1, 3, 2, 4, 5]);
+
+      expect(JSON.stringify(original)).toBe(before);
+    });
+  });
+
+  describe('hero and closing placement', () => {
+    it('inserts feature slides only between the hero and closing slides', () => {
+      expect(layout(insertFeatureSlide(storyboard(3), 2, NEW_FEATURE))[1]).toBe('2:New feature');
+      expect(layout(insertFeatureSlide(storyboard(3), 3, NEW_FEATURE))[2]).toBe('3:New feature');
+
+      expect(() => insertFeatureSlide(storyboard(3), 1, NEW_FEATURE)).toThrow(
+        'Invalid position for a feature slide: 1'
+      );
+      expect(() => insertFeatureSlide(storyboard(3), 4, NEW_FEATURE)).toThrow(
+        'Invalid position for a feature slide: 4'
+      );
+    });
+
+    it('removes only feature slides', () => {
+      expect(() => removeFeatureSlide(storyboard(4), 1)).toThrow(
+        'Slide 1 is a hero slide. Only feature slides can be removed'
+      );
+      expect(() => removeFeatureSlide(storyboard(4), 4)).toThrow(
+        'Slide 4 is a closing slide. Only feature slides can be removed'
+      );
+    });
+
+    it('rejects orders that move the hero or closing slide', () => {
+      expect(() => reorderSlides(storyboard(4), [2, 1, 3, 4])).toThrow(
+        'Slide 1 is a feature slide, expected hero (storyboards run hero, 2 features, closing)'
+      );
+      expect(() => reorderSlides(storyboard(4), [1, 2, 4, 3])).toThrow(
+        'Slide 3 is a closing slide, expected feature'
+      );
+    });
+
+    it('rejects orders that are not a permutation of the slide IDs', () => {
+      expect(() => reorderSlides(storyboard(4), [1, 2, 2, 4])).toThrow(
+        'Invalid slide order: [1, 2, 2, 4]. Must list slide IDs 1-4 once each'
+      );
+    });
+  });
+
+  describe('panoramas', () => {
+    const panorama = { startSlideId: 2, slideCount: 2 };
+
+    it('drops a panorama when a slide is inserted inside it', () => {
+      const updated = insertFeatureSlide(storyboard(5, [panorama]), 3, NEW_FEATURE);
+
+      expect(updated.panoramas).toBeUndefined();
+    });
+
+    it('moves a panorama when a slide is inserted before it', () => {
+      const updated = insertFeatureSlide(storyboard(5, [panorama]), 2, NEW_FEATURE);
+
+      expect(updated.panoramas).toEqual([{ startSlideId: 3, slideCount: 2 }]);
+      expect(layout(updated).slice(2, 4)).toEqual(['3:feature 2', '4:feature 3']);
+    });
+
+    it('shrinks a panorama when one of its slides is removed, and drops it below two slides', () => {
+      const wide = storyboard(6, [{ startSlideId: 2, slideCount: 3 }]);
+
+      expect(removeFeatureSlide(wide, 3).panoramas).toEqual([{ startSlideId: 2, slideCount: 2 }]);
+      expect(removeFeatureSlide(storyboard(5, [panorama]), 2).panoramas).toBeUndefined();
+    });
+
+    it('keeps a panorama whose slides move together, and drops one that is split', () => {
+      const base = setPanorama(storyboard(5), 2, 2);
+
+      expect(reorderSlides(base, [1, 4, 2, 3, 5]).panoramas).toEqual([{ startSlideId: 3, slideCount: 2 }]);
+      expect(reorderSlides(base, [1, 2, 4, 3, 5]).panoramas).toBeUndefined();
+    });
+  });
+});
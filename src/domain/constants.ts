@@ -5,29 +5,60 @@
  * 
  * Design Principles:
  * - Determinism: Fixed constants ensure same output for same input
- * - No Hallucination: Only Apple-specified pixel sizes are included
+ * - No Hallucination: Only store-specified pixel sizes are included
  * - Open/Closed: New targets can be added without modifying core logic
  */
 
-import { DeviceTarget, Locale } from './types';
+import {
+  DeviceTarget,
+  DevicePlatform,
+  Locale,
+  Orientation,
+  SlideType,
+  Store,
+  StoryboardInputField,
+  StoryboardInputFieldError,
+  TextDirection,
+} from './types';
+import { StoryboardInputError } from './errors';
+import { isValidHexColor } from './theme';
 
 // ============================================================================
 // Device Targets (Single Source of Truth)
 // ============================================================================
 
 /**
- * Supported device targets for App Store screenshots.
+ * Portrait App Store Connect screenshot sizes.
  * 
- * MVP: 2 targets (iPhone 6.7" and iPad Pro 12.9")
- * These are the exact pixel dimensions required by App Store Connect.
+ * One entry per display class App Store Connect accepts. Where a class
+ * accepts several resolutions, the most common current device is used.
+ * These are the exact pixel dimensions listed by App Store Connect.
  * 
  * IMPORTANT: These dimensions are hardcoded per requirements.
- * Do NOT claim compliance with other Apple sizes without verification.
+ * Do NOT add sizes without verifying them against App Store Connect.
  */
-export const DEVICE_TARGETS: readonly DeviceTarget[] = [
+const PORTRAIT_DEVICE_TARGETS: readonly DeviceTarget[] = [
+  {
+    id: 'iphone-6.9',
+    platform: 'iPhone',
+    store: 'app-store',
+    kind: 'screenshot',
+    displayName: 'iPhone 6.9" Display',
+    width: 1320,
+    height: 2868,
+    orientation: 'portrait',
+    safeMargin: {
+      top: 120,
+      right: 60,
+      bottom: 120,
+      left: 60,
+    },
+  },
   {
     id: 'iphone-6.7',
     platform: 'iPhone',
+    store: 'app-store',
+    kind: 'screenshot',
     displayName: 'iPhone 6.7" Display',
     width: 1290,
     height: 2796,
@@ -40,9 +71,75 @@ export const DEVICE_TARGETS: readonly DeviceTarget[] = [
     },
   },
   {
-    id: 'ipad-12.9',
+    id: 'iphone-6.5',
+    platform: 'iPhone',
+    store: 'app-store',
+    kind: 'screenshot',
+    displayName: 'iPhone 6.5" Display',
+    width: 1242,
+    height: 2688,
+    orientation: 'portrait',
+    safeMargin: {
+      top: 120,
+      right: 60,
+      bottom: 120,
+      left: 60,
+    },
+  },
+  {
+    id: 'iphone-6.3',
+    platform: 'iPhone',
+    store: 'app-store',
+    kind: 'screenshot',
+    displayName: 'iPhone 6.3" Display',
+    width: 1206,
+    height: 2622,
+    orientation: 'portrait',
+    safeMargin: {
+      top: 120,
+      right: 60,
+      bottom: 120,
+      left: 60,
+    },
+  },
+  {
+    id: 'iphone-6.1',
+    platform: 'iPhone',
+    store: 'app-store',
+    kind: 'screenshot',
+    displayName: 'iPhone 6.1" Display',
+    width: 1170,
+    height: 2532,
+    orientation: 'portrait',
+    safeMargin: {
+      top: 120,
+      right: 60,
+      bottom: 120,
+      left: 60,
+    },
+  },
+  {
+    id: 'iphone-5.5',
+    platform: 'iPhone',
+    store: 'app-store',
+    kind: 'screenshot',
+    displayName: 'iPhone 5.5" Display',
+    width: 1242,
+    height: 2208,
+    orientation: 'portrait',
+    safeMargin: {
+      top: 80, // No notch or home indicator area
+      right: 60,
+      bottom: 80,
+      left: 60,
+    },
+  },
+  {
+    id: 'ipad-13',
     platform: 'iPad',
-    displayName: 'iPad Pro 12.9" Display',
+    store: 'app-store',
+    kind: 'screenshot',
+    displayName: 'iPad 13" Display',
     width: 2064,
     height: 2752,
     orientation: 'portrait',
@@ -53,8 +150,184 @@ export const DEVICE_TARGETS: readonly DeviceTarget[] = [
       left: 80,
     },
   },
+  {
+    id: 'ipad-12.9',
+    platform: 'iPad',
+    store: 'app-store',
+    kind: 'screenshot',
+    displayName: 'iPad Pro 12.9" Display (2nd gen)',
+    width: 2048,
+    height: 2732,
+    orientation: 'portrait',
+    safeMargin: {
+      top: 160,
+      right: 80,
+      bottom: 160,
+      left: 80,
+    },
+  },
+  {
+    id: 'ipad-11',
+    platform: 'iPad',
+    store: 'app-store',
+    kind: 'screenshot',
+    displayName: 'iPad 11" Display',
+    width: 1668,
+    height: 2388,
+    orientation: 'portrait',
+    safeMargin: {
+      top: 140,
+      right: 70,
+      bottom: 140,
+      left: 70,
+    },
+  },
+] as const;
+
+/**
+ * Portrait Google Play store listing screenshot sizes.
+ * 
+ * Play accepts a range of sizes (see GOOGLE_PLAY_CONSTRAINTS); these are
+ * the 9:16 / 10:16 sizes Play recommends for phone, 7" and 10" tablets.
+ */
+const PORTRAIT_PLAY_TARGETS: readonly DeviceTarget[] = [
+  {
+    id: 'play-phone',
+    platform: 'AndroidPhone',
+    store: 'google-play',
+    kind: 'screenshot',
+    displayName: 'Google Play Phone',
+    width: 1080,
+    height: 1920,
+    orientation: 'portrait',
+    safeMargin: {
+      top: 100,
+      right: 50,
+      bottom: 100,
+      left: 50,
+    },
+  },
+  {
+    id: 'play-tablet-7',
+    platform: 'AndroidTablet',
+    store: 'google-play',
+    kind: 'screenshot',
+    displayName: 'Google Play 7" Tablet',
+    width: 1200,
+    height: 1920,
+    orientation: 'portrait',
+    safeMargin: {
+      top: 110,
+      right: 60,
+      bottom: 110,
+      left: 60,
+    },
+  },
+  {
+    id: 'play-tablet-10',
+    platform: 'AndroidTablet',
+    store: 'google-play',
+    kind: 'screenshot',
+    displayName: 'Google Play 10" Tablet',
+    width: 1600,
+    height: 2560,
+    orientation: 'portrait',
+    safeMargin: {
+      top: 140,
+      right: 80,
+      bottom: 140,
+      left: 80,
+    },
+  },
+] as const;
+
+/**
+ * Google Play feature graphic (one per listing, landscape only).
+ */
+const PLAY_FEATURE_GRAPHIC_TARGET: DeviceTarget = {
+  id: 'play-feature-graphic',
+  platform: 'AndroidPhone',
+  store: 'google-play',
+  kind: 'feature-graphic',
+  displayName: 'Google Play Feature Graphic',
+  width: 1024,
+  height: 500,
+  orientation: 'landscape',
+  safeMargin: {
+    top: 32,
+    right: 48,
+    bottom: 32,
+    left: 48,
+  },
+};
+
+/**
+ * Suffix appended to a portrait target ID for its landscape variant.
+ */
+export const LANDSCAPE_TARGET_SUFFIX = '-landscape' as const;
+
+/**
+ * Supported device targets for App Store and Google Play listings.
+ * 
+ * Every portrait screenshot size has a landscape variant that swaps
+ * width/height and rotates the safe margins.
+ */
+export const DEVICE_TARGETS: readonly DeviceTarget[] = [
+  ...PORTRAIT_DEVICE_TARGETS,
+  ...PORTRAIT_PLAY_TARGETS,
+  ...PORTRAIT_DEVICE_TARGETS.map(toLandscapeTarget),
+  ...PORTRAIT_PLAY_TARGETS.map(toLandscapeTarget),
+  PLAY_FEATURE_GRAPHIC_TARGET,
 ] as const;
 
+/**
+ * Targets exported per store when a request does not pick any.
+ * 
+ * App Store: 1290x2796 and 2064x2752 fill the required 6.9" iPhone and
+ * 13" iPad slots; App Store Connect scales them down for smaller displays.
+ * Google Play: one size per listing screenshot category, plus the
+ * feature graphic.
+ */
+export const DEFAULT_EXPORT_TARGET_IDS: Readonly<Record<Store, readonly string[]>> = {
+  'app-store': ['iphone-6.7', 'ipad-13'],
+  'google-play': ['play-phone', 'play-tablet-7', 'play-tablet-10', 'play-feature-graphic'],
+} as const;
+
+/**
+ * Google Play store listing image constraints.
+ * Screenshots: JPEG or 24-bit PNG (no alpha), 320-3840px per side,
+ * long side at most twice the short side, 2-8 per category.
+ */
+export const GOOGLE_PLAY_CONSTRAINTS = {
+  screenshot: {
+    minDimension: 320,
+    maxDimension: 3840,
+    maxAspectRatio: 2,
+    maxImages: 8,
+  },
+  featureGraphic: {
+    width: 1024,
+    height: 500,
+    maxImages: 1,
+  },
+  /** Play rejects PNGs with an alpha channel */
+  opaque: true,
+} as const;
+
+/**
+ * Maximum screenshots per App Store Connect display size.
+ */
+export const APP_STORE_MAX_IMAGES = 10 as const;
+
+/**
+ * Store folders inside an export ZIP ('' = ZIP root).
+ * App Store files stay at the root; Play files are grouped for upload.
+ */
+export const STORE_EXPORT_DIRECTORIES: Readonly<Record<Store, string>> = {
+  'app-store': '',
+  'google-play': 'google-play/',
+} as const;
+
 /**
  * Helper to get device target by ID.
  * Throws if target not found (fail fast for invalid IDs).
@@ -67,27 +340,191 @@ export function getDeviceTargetById(id: string): DeviceTarget {
   return target;
 }
 
+/**
+ * Helper to get device targets by ID, in catalogue order without duplicates.
+ * Throws on the first unknown ID.
+ */
+export function getDeviceTargetsByIds(ids: readonly string[]): DeviceTarget[] {
+  const requested = new Set(ids.map((id) => getDeviceTargetById(id).id));
+  return DEVICE_TARGETS.filter((t) => requested.has(t.id));
+}
+
 /**
  * Helper to get device target by platform.
- * Returns first matching target (MVP has one per platform).
+ * Returns the first (largest) matching target for the orientation.
  */
-export function getDeviceTargetByPlatform(platform: 'iPhone' | 'iPad'): DeviceTarget {
-  const target = DEVICE_TARGETS.find((t) => t.platform === platform);
+export function getDeviceTargetByPlatform(
+  platform: DevicePlatform,
+  orientation: Orientation = 'portrait'
+): DeviceTarget {
+  const target = DEVICE_TARGETS.find(
+    (t) => t.platform === platform && t.orientation === orientation
+  );
   if (!target) {
-    throw new Error(`No device target for platform: ${platform}`);
+    throw new Error(`No ${orientation} device target for platform: ${platform}`);
   }
   return target;
 }
 
+/**
+ * Get all device targets of an orientation.
+ */
+export function getDeviceTargetsByOrientation(orientation: Orientation): DeviceTarget[] {
+  return DEVICE_TARGETS.filter((t) => t.orientation === orientation);
+}
+
+/**
+ * Select the targets for an export.
+ * 
+ * Explicit target IDs are used as given (any orientation, any store).
+ * Otherwise the default targets of the requested stores are used in the
+ * requested orientation(s). Fixed-orientation targets (the feature graphic)
+ * are always included.
+ */
+export function selectExportTargets(options: {
+  targetIds?: readonly string[];
+  orientation?: Orientation | 'both';
+  stores?: readonly Store[];
+}): DeviceTarget[] {
+  if (options.targetIds && options.targetIds.length > 0) {
+    return getDeviceTargetsByIds(options.targetIds);
+  }
+  
+  const orientation = options.orientation ?? 'portrait';
+  const stores = options.stores && options.stores.length > 0 ? options.stores : ['app-store' as const];
+  const ids = stores.flatMap((store) => DEFAULT_EXPORT_TARGET_IDS[store]).flatMap((id) => {
+    if (getDeviceTargetById(id).kind !== 'screenshot') {
+      return [id];
+    }
+    const portrait = orientation !== 'landscape' ? [id] : [];
+    const landscape = orientation !== 'portrait' ? [`${id}${LANDSCAPE_TARGET_SUFFIX}`] : [];
+    return [...portrait, ...landscape];
+  });
+  
+  return getDeviceTargetsByIds(ids);
+}
+
+/**
+ * Maximum number of images a target accepts per listing.
+ */
+export function getMaxImagesForTarget(target: DeviceTarget): number {
+  if (target.kind === 'feature-graphic') {
+    return GOOGLE_PLAY_CONSTRAINTS.featureGraphic.maxImages;
+  }
+  return target.store === 'google-play'
+    ? GOOGLE_PLAY_CONSTRAINTS.screenshot.maxImages
+    : APP_STORE_MAX_IMAGES;
+}
+
+/**
+ * Check if a target's store requires images without an alpha channel.
+ */
+export function requiresOpaqueImage(target: DeviceTarget): boolean {
+  return target.store === 'google-play' && GOOGLE_PLAY_CONSTRAINTS.opaque;
+}
+
+/**
+ * Validate a device target against its store's size/aspect constraints.
+ * Throws descriptive errors for invalid targets.
+ */
+export function validateDeviceTarget(target: DeviceTarget): void {
+  if (target.store !== 'google-play') {
+    return; // App Store sizes are exact and listed above
+  }
+  
+  if (target.kind === 'feature-graphic') {
+    const { width, height } = GOOGLE_PLAY_CONSTRAINTS.featureGraphic;
+    if (target.width !== width || target.height !== height) {
+      throw new Error(
+        `Target "${target.id}": feature graphic must be ${width}x${height}, got ${target.width}x${target.height}`
+      );
+    }
+    return;
+  }
+  
+  const { minDimension, maxDimension, maxAspectRatio } = GOOGLE_PLAY_CONSTRAINTS.screenshot;
+  const shortSide = Math.min(target.width, target.height);
+  const longSide = Math.max(target.width, target.height);
+  
+  if (shortSide < minDimension || longSide > maxDimension) {
+    throw new Error(
+      `Target "${target.id}": sides must be ${minDimension}-${maxDimension}px, got ${target.width}x${target.height}`
+    );
+  }
+  if (longSide / shortSide > maxAspectRatio) {
+    throw new Error(
+      `Target "${target.id}": long side must be at most ${maxAspectRatio}x the short side, got ${target.width}x${target.height}`
+    );
+  }
+}
+
+/**
+ * Validate the whole target catalogue (unique IDs, store constraints).
+ * Call at startup to catch configuration errors early.
+ */
+export function validateDeviceTargetConfiguration(): void {
+  const ids = new Set<string>();
+  
+  for (const target of DEVICE_TARGETS) {
+    if (ids.has(target.id)) {
+      throw new Error(`Duplicate device target ID: ${target.id}`);
+    }
+    ids.add(target.id);
+    validateDeviceTarget(target);
+  }
+}
+
+/**
+ * Landscape variant of a portrait target.
+ */
+function toLandscapeTarget(target: DeviceTarget): DeviceTarget {
+  return {
+    id: `${target.id}${LANDSCAPE_TARGET_SUFFIX}`,
+    platform: target.platform,
+    store: target.store,
+    kind: target.kind,
+    displayName: `${target.displayName} (Landscape)`,
+    width: target.height,
+    height: target.width,
+    orientation: 'landscape',
+    safeMargin: {
+      top: target.safeMargin.left,
+      right: target.safeMargin.top,
+      bottom: target.safeMargin.right,
+      left: target.safeMargin.bottom,
+    },
+  };
+}
+
 // ============================================================================
 // Locale Constants
 // ============================================================================
 
 /**
- * Supported locales.
- * MVP: en-US only, but structure allows easy expansion.
+ * Supported locales (App Store Connect locale codes).
+ * English plus the 12 languages we localize into. Japanese, Korean and
+ * Chinese are left out until CJK fonts are bundled (public/fonts/README.md).
  */
-export const SUPPORTED_LOCALES: readonly Locale[] = ['en-US'] as const;
+export const SUPPORTED_LOCALES: readonly Locale[] = [
+  'en-US',
+  'de-DE',
+  'fr-FR',
+  'es-ES',
+  'es-MX',
+  'it',
+  'pt-BR',
+  'nl-NL',
+  'ru',
+  'ar-SA',
+  'he',
+  'th',
+  'hi',
+] as const;
+
+/**
+ * Locales written right-to-left.
+ */
+export const RTL_LOCALES: readonly Locale[] = ['ar-SA', 'he'] as const;
 
 /**
  * Default locale for the application.
@@ -101,15 +538,23 @@ export function isValidLocale(locale: string): locale is Locale {
   return SUPPORTED_LOCALES.includes(locale as Locale);
 }
 
+/**
+ * Get the writing direction of a locale.
+ */
+export function getTextDirection(locale: Locale): TextDirection {
+  return RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+}
+
 // ============================================================================
 // Storyboard Constants
 // ============================================================================
 
 /**
- * Fixed number of slides in a storyboard.
- * This is a core business rule - App Store previews are exactly 5 slides.
+ * Valid range for the number of slides in a storyboard.
+ * App Store Connect accepts up to 10 screenshots per device size.
  */
-export const SLIDES_PER_STORYBOARD = 5 as const;
+export const SLIDES_MIN = 1;
+export const SLIDES_MAX = APP_STORE_MAX_IMAGES;
 
 /**
  * Valid range for value bullets input.
@@ -119,10 +564,58 @@ export const VALUE_BULLETS_MAX = 6;
 
 /**
  * Valid range for screenshot uploads.
+ * Every slide needs its own screenshot unless the input allows reuse,
+ * so the effective minimum is the slide count (see getStoryboardInputErrors).
  */
-export const SCREENSHOTS_MIN = 5;
+export const SCREENSHOTS_MIN = 1;
 export const SCREENSHOTS_MAX = 10;
 
+/**
+ * Most screenshots on one slide (multi-device templates).
+ */
+export const SLIDE_SCREENSHOTS_MAX = 3;
+
+/**
+ * Default slide count: hero, one feature per value bullet, closing
+ * (capped at SLIDES_MAX).
+ */
+export function getDefaultSlideCount(valueBulletCount: number): number {
+  return Math.min(valueBulletCount + 2, SLIDES_MAX);
+}
+
+/**
+ * Slide types for a storyboard of the given length.
+ * - 1 slide: hero
+ * - 2 slides: hero, closing
+ * - n slides: hero, n - 2 features, closing
+ */
+export function getSlideTypes(slideCount: number): SlideType[] {
+  validateSlideCount(slideCount);
+  
+  if (slideCount === 1) {
+    return ['hero'];
+  }
+  const features: SlideType[] = Array.from({ length: slideCount - 2 }, () => 'feature');
+  return ['hero', ...features, 'closing'];
+}
+
+/**
+ * Number of feature slides (one value bullet each) in a storyboard.
+ */
+export function getFeatureSlideCount(slideCount: number): number {
+  return getSlideTypes(slideCount).filter((type) => type === 'feature').length;
+}
+
+/**
+ * Validate a slide count.
+ * Throws if it is not an integer in [SLIDES_MIN, SLIDES_MAX].
+ */
+export function validateSlideCount(slideCount: number): void {
+  if (!Number.isInteger(slideCount) || slideCount < SLIDES_MIN || slideCount > SLIDES_MAX) {
+    throw new Error(`Invalid slide count: ${slideCount}. Must be ${SLIDES_MIN}-${SLIDES_MAX}`);
+  }
+}
+
 // ============================================================================
 // Copy Generation Constants
 // ============================================================================
@@ -134,6 +627,32 @@ export const SCREENSHOTS_MAX = 10;
 export const HEADLINE_MAX_LENGTH = 32;
 export const SUBHEADLINE_MAX_LENGTH = 60;
 
+/**
+ * Enforce a copy character limit by hard truncation.
+ * Whitespace is collapsed first; over-long text is cut at the last word
+ * boundary in the final third of the limit (or mid-word if there is none),
+ * never splitting a surrogate pair, and trailing punctuation is dropped.
+ */
+export function truncateCopy(text: string, maxLength: number): { text: string; truncated: boolean } {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= maxLength) {
+    return { text: normalized, truncated: false };
+  }
+
+  let cut = '';
+  for (const char of Array.from(normalized)) {
+    if (cut.length + char.length > maxLength) break;
+    cut += char;
+  }
+
+  const boundary = cut.lastIndexOf(' ');
+  if (boundary >= Math.ceil((maxLength * 2) / 3)) {
+    cut = cut.slice(0, boundary);
+  }
+
+  return { text: cut.replace(/[\s,;:\-–—]+$/u, ''), truncated: true };
+}
+
 /**
  * App name length limit (reasonable UX constraint).
  */
@@ -145,28 +664,58 @@ export const APP_NAME_MAX_LENGTH = 50;
 
 /**
  * Filename patterns for deterministic output.
- * Format: {platform}_{slideNumber}.png
+ * Format: {targetId}_{slideNumber}.png
+ * 
+ * The target ID (not just the platform) is encoded so that several
+ * sizes of the same platform never collide in one export.
  * 
  * Examples:
- * - iphone_01.png
- * - iphone_02.png
- * - ipad_01.png
+ * - iphone-6.7_01.png
+ * - iphone-6.5_02.png
+ * - ipad-13_01.png
+ * - iphone-6.7-landscape_01.png
+ * - play-phone_01.png
+ * 
+ * The feature graphic is a single image: play-feature-graphic.png
  */
 export const FILENAME_PATTERN = {
-  iphone: (slideNumber: number) => `iphone_${slideNumber.toString().padStart(2, '0')}.png`,
-  ipad: (slideNumber: number) => `ipad_${slideNumber.toString().padStart(2, '0')}.png`,
+  slide: (targetId: string, slideNumber: number) =>
+    `${targetId}_${slideNumber.toString().padStart(2, '0')}.png`,
+  single: (targetId: string) => `${targetId}.png`,
 } as const;
 
 /**
  * Generate deterministic filename for a slide and target.
+ * Throws if the target ID is unknown or the slide number is out of range.
  */
-export function generateFilename(platform: 'iPhone' | 'iPad', slideNumber: number): string {
-  if (slideNumber < 1 || slideNumber > SLIDES_PER_STORYBOARD) {
-    throw new Error(`Invalid slide number: ${slideNumber}. Must be 1-${SLIDES_PER_STORYBOARD}`);
+export function generateFilename(targetId: string, slideNumber: number): string {
+  if (!Number.isInteger(slideNumber) || slideNumber < 1 || slideNumber > SLIDES_MAX) {
+    throw new Error(`Invalid slide number: ${slideNumber}. Must be 1-${SLIDES_MAX}`);
+  }
+  
+  const target = getDeviceTargetById(targetId);
+  if (slideNumber > getMaxImagesForTarget(target)) {
+    throw new Error(
+      `Invalid slide number for ${target.id}: ${slideNumber}. Target accepts ${getMaxImagesForTarget(target)} image(s)`
+    );
   }
   
-  const pattern = platform === 'iPhone' ? FILENAME_PATTERN.iphone : FILENAME_PATTERN.ipad;
-  return pattern(slideNumber);
+  return target.kind === 'feature-graphic'
+    ? FILENAME_PATTERN.single(target.id)
+    : FILENAME_PATTERN.slide(target.id, slideNumber);
+}
+
+/**
+ * Generate the path of a slide image inside an export ZIP.
+ * Format: [{storeDirectory}]{locale}/{filename}
+ * 
+ * Examples:
+ * - en-US/iphone-6.7_01.png
+ * - google-play/de-DE/play-phone_01.png
+ */
+export function generateExportPath(targetId: string, slideNumber: number, locale: Locale): string {
+  const target = getDeviceTargetById(targetId);
+  return `${STORE_EXPORT_DIRECTORIES[target.store]}${locale}/${generateFilename(target.id, slideNumber)}`;
 }
 
 // ============================================================================
@@ -188,35 +737,122 @@ export const MANIFEST_FILENAME = 'manifest.json' as const;
 // ============================================================================
 
 /**
- * Validate storyboard input constraints.
- * Throws descriptive errors for invalid input.
+ * Storyboard input as received (e.g., parsed from a form), before validation.
  */
-export function validateStoryboardInput(input: {
+export interface StoryboardInputCandidate {
   appName: string;
   valueBullets: string[];
   screenshots: unknown[];
-}): void {
+  slideCount?: number;
+  allowScreenshotReuse?: boolean;
+  brandColor?: string;
+  locale?: string;
+  additionalLocales?: string[];
+}
+
+/**
+ * Check storyboard input constraints.
+ * Returns every error found (at most one per field), empty when valid.
+ */
+export function getStoryboardInputErrors(input: StoryboardInputCandidate): StoryboardInputFieldError[] {
+  const errors: StoryboardInputFieldError[] = [];
+  const fail = (field: StoryboardInputField, message: string) => {
+    if (!errors.some((error) => error.field === field)) {
+      errors.push({ field, message });
+    }
+  };
+
   // App name
   if (!input.appName || input.appName.trim().length === 0) {
-    throw new Error('App name is required');
-  }
-  if (input.appName.length > APP_NAME_MAX_LENGTH) {
-    throw new Error(`App name must be ${APP_NAME_MAX_LENGTH} characters or less`);
+    fail('appName', 'App name is required');
+  } else if (input.appName.length > APP_NAME_MAX_LENGTH) {
+    fail('appName', `App name must be ${APP_NAME_MAX_LENGTH} characters or less`);
   }
 
   // Value bullets
   if (input.valueBullets.length < VALUE_BULLETS_MIN) {
-    throw new Error(`At least ${VALUE_BULLETS_MIN} value bullets are required`);
+    fail('valueBullets', `At least ${VALUE_BULLETS_MIN} value bullets are required`);
+  } else if (input.valueBullets.length > VALUE_BULLETS_MAX) {
+    fail('valueBullets', `Maximum ${VALUE_BULLETS_MAX} value bullets allowed`);
   }
-  if (input.valueBullets.length > VALUE_BULLETS_MAX) {
-    throw new Error(`Maximum ${VALUE_BULLETS_MAX} value bullets allowed`);
+  const emptyBullet = input.valueBullets.findIndex((bullet) => bullet.trim().length === 0);
+  if (emptyBullet !== -1) {
+    fail('valueBullets', `Value bullet ${emptyBullet + 1} is empty`);
   }
 
   // Screenshots
   if (input.screenshots.length < SCREENSHOTS_MIN) {
-    throw new Error(`At least ${SCREENSHOTS_MIN} screenshots are required`);
+    fail('screenshots', `At least ${SCREENSHOTS_MIN} screenshots are required`);
+  } else if (input.screenshots.length > SCREENSHOTS_MAX) {
+    fail('screenshots', `Maximum ${SCREENSHOTS_MAX} screenshots allowed`);
+  }
+
+  // Slide count (every feature slide needs its own value bullet)
+  let slideCount: number | null = getDefaultSlideCount(input.valueBullets.length);
+  if (input.slideCount !== undefined) {
+    slideCount = input.slideCount;
+    if (!Number.isInteger(slideCount) || slideCount < SLIDES_MIN || slideCount > SLIDES_MAX) {
+      fail('slideCount', `Invalid slide count: ${slideCount}. Must be ${SLIDES_MIN}-${SLIDES_MAX}`);
+      slideCount = null;
+    } else {
+      const featureSlides = getFeatureSlideCount(slideCount);
+      if (featureSlides > input.valueBullets.length) {
+        fail('slideCount', `${slideCount} slides need ${featureSlides} value bullets, got ${input.valueBullets.length}`);
+      }
+    }
   }
-  if (input.screenshots.length > SCREENSHOTS_MAX) {
-    throw new Error(`Maximum ${SCREENSHOTS_MAX} screenshots allowed`);
+
+  // One screenshot per slide, unless reuse is allowed
+  if (slideCount !== null && !input.allowScreenshotReuse && input.screenshots.length < slideCount) {
+    fail(
+      'screenshots',
+      `${slideCount} slides need ${slideCount} screenshots, got ${input.screenshots.length}. ` +
+      'Upload more screenshots or allow screenshot reuse'
+    );
+  }
+
+  // Brand color
+  if (input.brandColor !== undefined && !isValidHexColor(input.brandColor)) {
+    fail('brandColor', `Invalid brand color: ${input.brandColor}. Expected a hex color like #3B82F6`);
   }
+
+  // Locales
+  if (input.locale !== undefined && !isValidLocale(input.locale)) {
+    fail('locale', `Unsupported locale: ${input.locale}`);
+  }
+  const unsupported = (input.additionalLocales ?? []).filter((locale) => !isValidLocale(locale));
+  if (unsupported.length > 0) {
+    fail('additionalLocales', `Unsupported locale(s): ${unsupported.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate storyboard input constraints.
+ * Throws a StoryboardInputError listing every invalid field.
+ */
+export function validateStoryboardInput(input: StoryboardInputCandidate): void {
+  const errors = getStoryboardInputErrors(input);
+  if (errors.length > 0) {
+    throw new StoryboardInputError(errors);
+  }
+}
+
+/**
+ * Validate a storyboard's slides: SLIDES_MIN-SLIDES_MAX slides,
+ * numbered 1..n in order.
+ * Throws descriptive errors for invalid storyboards.
+ */
+export function validateStoryboardSlides(storyboard: { slides: readonly { id: number }[] }): void {
+  if (!Array.isArray(storyboard.slides)) {
+    throw new Error('Storyboard has no slides');
+  }
+  validateSlideCount(storyboard.slides.length);
+  
+  storyboard.slides.forEach((slide, index) => {
+    if (slide.id !== index + 1) {
+      throw new Error(`Slide ${index + 1} has ID ${slide.id}. Slides must be numbered 1-${storyboard.slides.length} in order`);
+    }
+  });
 }
@@ -0,0 +1,49 @@
+/**
+ * Domain Errors
+ *
+ * Errors that carry structured details for callers (e.g., API routes
+ * reporting which form field is invalid). Everything else in the domain
+ * throws plain `Error`s with descriptive messages.
+ *
+ * Design Principles:
+ * - Message First: `message` alone is a complete description
+ * - Structured Details: Extra fields are data, not parsed from the message
+ */
+
+import { StoryboardInputFieldError, TemplateValidationIssue } from './types';
+
+/**
+ * Invalid storyboard input, with one error per offending field.
+ */
+export class StoryboardInputError extends Error {
+  readonly fieldErrors: readonly StoryboardInputFieldError[];
+
+  constructor(fieldErrors: readonly StoryboardInputFieldError[]) {
+    super(fieldErrors.map((error) => error.message).join('; '));
+    this.name = 'StoryboardInputError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Invalid template, with one issue per offending property.
+ */
+export class TemplateValidationError extends Error {
+  /** What was validated, e.g. a file path or `Template "stack"` */
+  readonly source: string;
+  readonly issues: readonly TemplateValidationIssue[];
+
+  constructor(source: string, issues: readonly TemplateValidationIssue[]) {
+    super(`${source}: ${issues.map(formatTemplateIssue).join('; ')}`);
+    this.name = 'TemplateValidationError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Issue as "path: message" (just the message for the template itself).
+ */
+function formatTemplateIssue(issue: TemplateValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
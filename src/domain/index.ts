@@ -10,19 +10,32 @@
 // Types and Interfaces
 export type {
   Locale,
+  TextDirection,
+  TextScript,
   DevicePlatform,
+  Store,
+  TargetKind,
   Orientation,
   DeviceTarget,
   SlideType,
   SlideText,
+  SlideMetadata,
+  ScreenshotCrop,
   SlideScreenshot,
   Slide,
   Storyboard,
+  SlidePanorama,
   LayoutPrimitive,
   TextPosition,
   ScreenshotPosition,
+  ScreenshotFit,
+  GradientConfig,
+  TemplateBackground,
   Template,
+  TemplateValidationIssue,
   StoryboardInput,
+  StoryboardInputField,
+  StoryboardInputFieldError,
   UploadedScreenshot,
   ExportManifest,
   RenderedImage,
@@ -31,59 +44,155 @@ export type {
 // Constants
 export {
   DEVICE_TARGETS,
+  DEFAULT_EXPORT_TARGET_IDS,
+  LANDSCAPE_TARGET_SUFFIX,
   getDeviceTargetById,
+  getDeviceTargetsByIds,
   getDeviceTargetByPlatform,
+  getDeviceTargetsByOrientation,
+  selectExportTargets,
+  GOOGLE_PLAY_CONSTRAINTS,
+  APP_STORE_MAX_IMAGES,
+  STORE_EXPORT_DIRECTORIES,
+  getMaxImagesForTarget,
+  requiresOpaqueImage,
+  validateDeviceTarget,
+  validateDeviceTargetConfiguration,
   SUPPORTED_LOCALES,
   DEFAULT_LOCALE,
   isValidLocale,
-  SLIDES_PER_STORYBOARD,
+  RTL_LOCALES,
+  getTextDirection,
+  SLIDES_MIN,
+  SLIDES_MAX,
   VALUE_BULLETS_MIN,
   VALUE_BULLETS_MAX,
   SCREENSHOTS_MIN,
   SCREENSHOTS_MAX,
+  SLIDE_SCREENSHOTS_MAX,
+  getDefaultSlideCount,
+  getSlideTypes,
+  getFeatureSlideCount,
+  validateSlideCount,
   HEADLINE_MAX_LENGTH,
   SUBHEADLINE_MAX_LENGTH,
+  truncateCopy,
   APP_NAME_MAX_LENGTH,
   FILENAME_PATTERN,
   generateFilename,
+  generateExportPath,
   GENERATOR_VERSION,
   MANIFEST_FILENAME,
+  getStoryboardInputErrors,
   validateStoryboardInput,
+  validateStoryboardSlides,
 } from './constants';
+export type { StoryboardInputCandidate } from './constants';
+
+// Errors
+export { StoryboardInputError, TemplateValidationError } from './errors';
 
 // Theme
-export type { Theme, ColorPalette, TypographyStyle } from './theme';
+export type { Theme, ColorPalette, TypographyStyle, DeviceFrameSpec, ResponsiveTypographyKey, FallbackFontId } from './theme';
 export {
   THEME,
   FONT_FAMILY,
   FONT_FILES,
+  FALLBACK_FONT_FILES,
+  SCRIPT_FONT_FALLBACKS,
   FONT_WEIGHTS,
   TYPOGRAPHY,
   TYPOGRAPHY_RESPONSIVE,
+  TEXT_FIT,
   COLORS,
   TEXT_COLORS,
   BACKGROUND_COLORS,
   SPACING,
   SAFE_MARGINS,
+  LAYOUT_SPACING,
   CONTENT_PADDING,
   SHADOWS,
+  TEXT_SCRIM,
   BORDER_RADIUS,
+  DEVICE_FRAME_REFERENCE_WIDTH,
+  DEVICE_FRAMES,
   getResponsiveFontSize,
+  getScriptFontFallbacks,
+  getLocaleScripts,
   hexToRgb,
   isValidHexColor,
   getBrandColor,
+  getTextColorForBackground,
+  rgbToHex,
+  mixHexColors,
+  getBrandShade,
+  substituteBrandColor,
 } from './theme';
 
 // Templates
 export {
   TEMPLATES,
   DEFAULT_TEMPLATE_BY_TYPE,
+  getTemplates,
+  registerTemplates,
+  registerValidTemplates,
   getTemplateById,
   getTemplatesForSlideType,
+  supportsOrientation,
+  resolveTemplateForOrientation,
+  resolveTextAlign,
   getDefaultTemplateForSlideType,
   selectTemplate,
   validateTemplateConfiguration,
   getLayoutPrimitive,
   shouldApplyDeviceFrame,
+  getScreenshotFit,
+  resolveFramePlatform,
+  DEFAULT_SCREENSHOT_FIT,
   getBackgroundConfig,
 } from './templates';
+
+// Template Schema
+export type { TemplateSchemaNode, TemplateStringFormat } from './templateSchema';
+export {
+  TEMPLATE_SCHEMA,
+  validateTemplateDocument,
+  parseTemplateDocument,
+} from './templateSchema';
+
+// Localization
+export {
+  getStoryboardLocales,
+  getSlideText,
+  localizeStoryboard,
+  validateStoryboardLocales,
+} from './localization';
+
+// Panoramas
+export {
+  validateStoryboardPanoramas,
+  groupSlidesByPanorama,
+  getPanoramaEndSlideId,
+} from './panoramas';
+
+// Screenshot Matching
+export type { ScreenshotMatchSlide, ScreenshotMatch } from './screenshotMatching';
+export { matchScreenshotsToSlides } from './screenshotMatching';
+
+// Storyboard Editing
+export type { FeatureSlideContent } from './storyboardEditing';
+export {
+  validateStoryboardStructure,
+  validateScreenshotCrop,
+  getSlideScreenshots,
+  getSlideIndex,
+  reorderSlides,
+  insertFeatureSlide,
+  removeFeatureSlide,
+  setSlideTemplate,
+  setScreenshotCrop,
+  setAdditionalScreenshots,
+  setPanorama,
+  removePanorama,
+  replaceSlide,
+} from './storyboardEditing';
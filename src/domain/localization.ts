@@ -0,0 +1,80 @@
+/**
+ * Storyboard Localization
+ * 
+ * Rules for storyboards that carry slide text in several locales.
+ * Each slide's `text` holds the primary locale; `localizedText` holds the rest.
+ * 
+ * Design Principles:
+ * - Single Source of Truth: Locale lists come from the storyboard itself
+ * - Fail Fast: Missing translations are errors, never silently replaced
+ */
+
+import { Locale, Slide, SlideText, Storyboard } from './types';
+import { isValidLocale } from './constants';
+
+/**
+ * Get every locale a storyboard has text for, primary first.
+ */
+export function getStoryboardLocales(storyboard: Storyboard): Locale[] {
+  const locales = storyboard.locales ?? [storyboard.locale];
+  return locales.includes(storyboard.locale)
+    ? [storyboard.locale, ...locales.filter((locale) => locale !== storyboard.locale)]
+    : [storyboard.locale, ...locales];
+}
+
+/**
+ * Get a slide's text in a locale.
+ * Throws if the slide has no text for that locale.
+ */
+export function getSlideText(slide: Slide, locale: Locale): SlideText {
+  if (slide.text.locale === locale) {
+    return slide.text;
+  }
+  
+  const text = slide.localizedText?.[locale];
+  if (!text) {
+    throw new Error(`Slide ${slide.id} has no text for locale: ${locale}`);
+  }
+  return text;
+}
+
+/**
+ * Get a single-locale view of a storyboard, with every slide's `text`
+ * in the given locale. Used to render one locale at a time.
+ */
+export function localizeStoryboard(storyboard: Storyboard, locale: Locale): Storyboard {
+  const slides = storyboard.slides.map((slide) => ({
+    ...slide,
+    text: getSlideText(slide, locale),
+  }));
+  
+  return {
+    ...storyboard,
+    locale,
+    locales: [locale],
+    slides,
+  };
+}
+
+/**
+ * Validate that every slide has text for every storyboard locale.
+ * Throws descriptive errors for unsupported locales or missing translations.
+ */
+export function validateStoryboardLocales(storyboard: Storyboard): void {
+  const locales = getStoryboardLocales(storyboard);
+  
+  for (const locale of locales) {
+    if (!isValidLocale(locale)) {
+      throw new Error(`Unsupported locale: ${locale}`);
+    }
+    
+    for (const slide of storyboard.slides) {
+      const text = getSlideText(slide, locale);
+      if (text.locale !== locale) {
+        throw new Error(
+          `Slide ${slide.id} text for ${locale} is marked as ${text.locale}`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Slide Panoramas
+ *
+ * Rules for runs of consecutive slides rendered as one wide canvas
+ * (see SlidePanorama):
+ * - Each panorama spans 2 or more existing slides
+ * - Panoramas do not overlap
+ *
+ * Design Principles:
+ * - Fail Fast: Invalid panoramas are errors, never silently dropped
+ * - Pure: Grouping for rendering does not depend on the renderer
+ */
+
+import { Slide, SlidePanorama, Storyboard } from './types';
+
+/**
+ * Validate a storyboard's panoramas against its slides.
+ * Throws descriptive errors for invalid or overlapping panoramas.
+ */
+export function validateStoryboardPanoramas(storyboard: Storyboard): void {
+  const count = storyboard.slides.length;
+  const sorted = [...(storyboard.panoramas ?? [])].sort((a, b) => a.startSlideId - b.startSlideId);
+
+  sorted.forEach((panorama, index) => {
+    const { startSlideId, slideCount } = panorama;
+    if (!Number.isInteger(startSlideId) || startSlideId < 1 || startSlideId > count) {
+      throw new Error(`Invalid panorama start slide: ${startSlideId}. Must be 1-${count}`);
+    }
+    if (!Number.isInteger(slideCount) || slideCount < 2) {
+      throw new Error(`Invalid panorama slide count: ${slideCount}. A panorama spans 2 or more slides`);
+    }
+
+    const endSlideId = getPanoramaEndSlideId(panorama);
+    if (endSlideId > count) {
+      throw new Error(
+        `Panorama ${describePanorama(panorama)} runs past the last slide (${count})`
+      );
+    }
+
+    const previous = sorted[index - 1];
+    if (previous && getPanoramaEndSlideId(previous) >= startSlideId) {
+      throw new Error(
+        `Panoramas ${describePanorama(previous)} and ${describePanorama(panorama)} overlap`
+      );
+    }
+  });
+}
+
+/**
+ * Group slides for rendering: each panorama's slides together, every
+ * other slide on its own. Slides missing from the list (e.g., beyond a
+ * target's image cap) shorten their panorama; a panorama left with one
+ * slide renders as a plain slide.
+ *
+ * @param slides - Slides in storyboard order
+ * @returns Groups in slide order, each one canvas
+ */
+export function groupSlidesByPanorama(
+  slides: readonly Slide[],
+  panoramas: readonly SlidePanorama[] = []
+): Slide[][] {
+  const groups: Slide[][] = [];
+
+  for (const slide of slides) {
+    const panorama = panoramas.find(
+      (candidate) => slide.id >= candidate.startSlideId && slide.id <= getPanoramaEndSlideId(candidate)
+    );
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+
+    if (panorama && previous && slide.id > panorama.startSlideId && previous.id === slide.id - 1) {
+      group.push(slide);
+    } else {
+      groups.push([slide]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * ID of the last slide in a panorama.
+ */
+export function getPanoramaEndSlideId(panorama: SlidePanorama): number {
+  return panorama.startSlideId + panorama.slideCount - 1;
+}
+
+/**
+ * Panorama as a slide range, e.g. "2-3".
+ */
+function describePanorama(panorama: SlidePanorama): string {
+  return `${panorama.startSlideId}-${getPanoramaEndSlideId(panorama)}`;
+}
@@ -0,0 +1,317 @@
+/**
+ * Screenshot Matching
+ *
+ * Rules for assigning uploaded screenshots to slides.
+ * Each screenshot is scored against each feature slide's value bullet,
+ * using text recognized in the image and hints in its filename; the
+ * assignment with the highest total score wins, without repeating a
+ * screenshot until every screenshot is used.
+ *
+ * Without any text or filename matches the result is the upload order,
+ * so plain uploads keep the sequential assignment.
+ *
+ * Design Principles:
+ * - Deterministic: Ties are broken toward upload order
+ * - Explainable: Every match reports the terms it was based on
+ * - Pure: Works on screenshot metadata only (text is recognized elsewhere)
+ */
+
+import { SlideType, UploadedScreenshot } from './types';
+
+/**
+ * A slide to find a screenshot for.
+ */
+export interface ScreenshotMatchSlide {
+  id: number;
+  type: SlideType;
+
+  /** Value bullet (feature slides) */
+  valueBullet?: string;
+}
+
+/**
+ * Screenshot chosen for a slide.
+ */
+export interface ScreenshotMatch {
+  slideId: number;
+
+  /** Index into the uploaded screenshots */
+  screenshotIndex: number;
+
+  /** Match score (0 = no text or filename match) */
+  score: number;
+
+  /** Bullet terms found in the screenshot's text or filename */
+  matchedTerms: string[];
+
+  /** Screenshot is shared with another slide (more slides than screenshots) */
+  reused: boolean;
+}
+
+/** Weight of a term found in the filename (deliberate hint) */
+const FILENAME_WEIGHT = 2;
+
+/** Weight of a term found in the recognized text */
+const RECOGNIZED_TEXT_WEIGHT = 1;
+
+/** Weight factor for terms matching by shared prefix only */
+const PREFIX_MATCH_FACTOR = 0.5;
+
+/** Shared prefix length that counts as a prefix match */
+const PREFIX_MATCH_LENGTH = 5;
+
+/**
+ * Tie-break bonus per step closer to upload order.
+ * Far below any real match, so it only decides between equal scores.
+ */
+const ORDER_BONUS = 1e-6;
+
+/**
+ * Word segmenter for term extraction, created on first use (the domain is
+ * also imported by client code, where matching never runs).
+ */
+let wordSegmenter: Intl.Segmenter | null = null;
+
+/**
+ * Words that carry no feature meaning.
+ */
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'your', 'you', 'from', 'into', 'that', 'this',
+  'all', 'any', 'are', 'can', 'get', 'has', 'have', 'its', 'new', 'not',
+  'our', 'out', 'more', 'one', 'each', 'every', 'what', 'when',
+  'easy', 'easily', 'quick', 'quickly', 'simple', 'just', 'over', 'like',
+]);
+
+/**
+ * Filename words that carry no feature meaning.
+ */
+const FILENAME_STOP_WORDS = new Set([
+  'screenshot', 'screenshots', 'screen', 'shot', 'img', 'image', 'photo',
+  'simulator', 'iphone', 'ipad', 'android', 'pixel', 'png', 'jpg', 'jpeg',
+  'final', 'copy', 'edit', 'light', 'dark', 'portrait', 'landscape',
+]);
+
+/**
+ * Assign a screenshot to every slide.
+ *
+ * Slides get distinct screenshots while any are left; once all are
+ * used, remaining slides reuse their best match (or screenshot #1).
+ */
+export function matchScreenshotsToSlides(
+  slides: readonly ScreenshotMatchSlide[],
+  screenshots: readonly UploadedScreenshot[]
+): ScreenshotMatch[] {
+  if (screenshots.length === 0) {
+    throw new Error('At least one screenshot is required for matching');
+  }
+
+  const screenshotTerms = screenshots.map(getScreenshotTerms);
+  const scores = slides.map((slide) =>
+    screenshotTerms.map((terms) => scoreSlide(slide, terms))
+  );
+
+  const assignment = findBestAssignment(
+    scores.map((row, slideIndex) =>
+      row.map((score, screenshotIndex) => score.score + orderBonus(slideIndex, screenshotIndex, screenshots.length))
+    )
+  );
+
+  return slides.map((slide, slideIndex) => {
+    const assigned = assignment[slideIndex];
+    const screenshotIndex = assigned ?? bestReuse(scores[slideIndex]);
+    const { score, matchedTerms } = scores[slideIndex][screenshotIndex];
+    return {
+      slideId: slide.id,
+      screenshotIndex,
+      score,
+      matchedTerms,
+      reused: assigned === null,
+    };
+  });
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Weighted terms of one screenshot (highest weight per term).
+ */
+function getScreenshotTerms(screenshot: UploadedScreenshot): Map<string, number> {
+  const terms = new Map<string, number>();
+  const add = (term: string, weight: number) => {
+    terms.set(term, Math.max(terms.get(term) ?? 0, weight));
+  };
+
+  for (const text of screenshot.recognizedText ?? []) {
+    for (const term of tokenize(text)) {
+      add(term, RECOGNIZED_TEXT_WEIGHT);
+    }
+  }
+
+  const basename = screenshot.filename.replace(/\.[^/.]+$/, '').replace(/(\p{Ll})(\p{Lu})/gu, '$1 $2');
+  for (const term of tokenize(basename)) {
+    if (!FILENAME_STOP_WORDS.has(term)) {
+      add(term, FILENAME_WEIGHT);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Score a slide against a screenshot's terms.
+ * Only feature slides have text to match; the score is the weighted
+ * share of bullet terms found.
+ */
+function scoreSlide(
+  slide: ScreenshotMatchSlide,
+  terms: Map<string, number>
+): { score: number; matchedTerms: string[] } {
+  const bulletTerms = slide.type === 'feature' && slide.valueBullet
+    ? Array.from(new Set(tokenize(slide.valueBullet)))
+    : [];
+  if (bulletTerms.length === 0 || terms.size === 0) {
+    return { score: 0, matchedTerms: [] };
+  }
+
+  let total = 0;
+  const matchedTerms: string[] = [];
+
+  for (const bulletTerm of bulletTerms) {
+    let best = terms.get(bulletTerm) ?? 0;
+    if (best === 0 && bulletTerm.length >= PREFIX_MATCH_LENGTH) {
+      for (const [term, weight] of terms) {
+        if (term.length >= PREFIX_MATCH_LENGTH && sharesPrefix(term, bulletTerm)) {
+          best = Math.max(best, weight * PREFIX_MATCH_FACTOR);
+        }
+      }
+    }
+    if (best > 0) {
+      total += best;
+      matchedTerms.push(bulletTerm);
+    }
+  }
+
+  return { score: total / bulletTerms.length, matchedTerms };
+}
+
+/**
+ * Split text into normalized, meaningful terms.
+ * Uses word segmentation, so scripts without spaces (e.g., Japanese) work too.
+ */
+function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  wordSegmenter ??= new Intl.Segmenter(undefined, { granularity: 'word' });
+
+  for (const { segment, isWordLike } of wordSegmenter.segment(text)) {
+    if (!isWordLike) continue;
+
+    const term = normalizeTerm(segment);
+    const isLatin = /^[\p{Script=Latin}\p{N}]+$/u.test(term);
+    const isParticle = /^\p{Script=Hiragana}{1,2}$/u.test(term);
+    if (!term || /^\p{N}+$/u.test(term) || (isLatin && term.length < 3) || isParticle || STOP_WORDS.has(term)) {
+      continue;
+    }
+    terms.push(term);
+  }
+
+  return terms;
+}
+
+/**
+ * Lowercase, strip Latin diacritics and a plural "s".
+ */
+function normalizeTerm(word: string): string {
+  const term = word.normalize('NFKD').replace(/(\p{Script=Latin})\p{M}+/gu, '$1').normalize('NFC').toLowerCase();
+  return term.length > 3 && /[^s]s$/.test(term) ? term.slice(0, -1) : term;
+}
+
+/**
+ * Check if two terms share a prefix of PREFIX_MATCH_LENGTH characters.
+ */
+function sharesPrefix(a: string, b: string): boolean {
+  return a.slice(0, PREFIX_MATCH_LENGTH) === b.slice(0, PREFIX_MATCH_LENGTH);
+}
+
+// ============================================================================
+// Assignment
+// ============================================================================
+
+/**
+ * Bonus for assigning screenshot `screenshotIndex` to slide `slideIndex`:
+ * largest for upload order, always positive.
+ */
+function orderBonus(slideIndex: number, screenshotIndex: number, screenshotCount: number): number {
+  return ORDER_BONUS * (1 + screenshotCount - Math.abs(slideIndex - screenshotIndex));
+}
+
+/**
+ * Maximize the total gain with each screenshot used at most once.
+ * Returns the screenshot index per slide, or null for slides left without
+ * one (only when there are more slides than screenshots).
+ *
+ * Dynamic programming over (slide, used-screenshot set); slide and
+ * screenshot counts are at most 10, so this is at most 10 x 1024 states.
+ */
+function findBestAssignment(gains: number[][]): (number | null)[] {
+  const slideCount = gains.length;
+  const screenshotCount = gains[0]?.length ?? 0;
+  const memo = new Map<number, number>();
+
+  const best = (slideIndex: number, used: number): number => {
+    if (slideIndex === slideCount) return 0;
+
+    const key = slideIndex * (1 << screenshotCount) + used;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let result = best(slideIndex + 1, used);
+    for (let i = 0; i < screenshotCount; i++) {
+      if (!(used & (1 << i))) {
+        result = Math.max(result, gains[slideIndex][i] + best(slideIndex + 1, used | (1 << i)));
+      }
+    }
+
+    memo.set(key, result);
+    return result;
+  };
+
+  // Walk the optimal choices
+  const assignment: (number | null)[] = [];
+  let used = 0;
+  for (let slideIndex = 0; slideIndex < slideCount; slideIndex++) {
+    let choice: number | null = null;
+    let choiceGain = best(slideIndex + 1, used);
+
+    for (let i = 0; i < screenshotCount; i++) {
+      if (used & (1 << i)) continue;
+      const gain = gains[slideIndex][i] + best(slideIndex + 1, used | (1 << i));
+      if (gain > choiceGain) {
+        choice = i;
+        choiceGain = gain;
+      }
+    }
+
+    assignment.push(choice);
+    if (choice !== null) {
+      used |= 1 << choice;
+    }
+  }
+
+  return assignment;
+}
+
+/**
+ * Screenshot to reuse for a slide without its own: the best match,
+ * or screenshot #1 when nothing matches.
+ */
+function bestReuse(scores: { score: number }[]): number {
+  let bestIndex = 0;
+  for (let i = 1; i < scores.length; i++) {
+    if (scores[i].score > scores[bestIndex].score) {
+      bestIndex = i;
+    }
+  }
+  return bestIndex;
+}
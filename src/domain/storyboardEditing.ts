@@ -0,0 +1,333 @@
+/**
+ * Storyboard Editing
+ *
+ * Immutable edit operations on storyboards, and the structural rules
+ * every edit must preserve:
+ * - 1-10 slides, numbered 1..n in order
+ * - Slide types in storyboard order: hero, features, closing
+ *   (see getSlideTypes)
+ * - Every slide's template applies to its slide type
+ * - Slides have at most SLIDE_SCREENSHOTS_MAX screenshots
+ * - Panoramas span 2+ existing slides and do not overlap
+ *
+ * Operations that add or remove slides only touch feature slides;
+ * slides are renumbered after every change. Panoramas follow their
+ * slides; one whose slides are no longer consecutive (or down to a
+ * single slide) is removed.
+ *
+ * Design Principles:
+ * - Immutability: Every operation returns a new storyboard
+ * - Fail Fast: Edits that break a rule throw instead of being adjusted
+ * - Pure: Copy for new slides is generated elsewhere
+ */
+
+import { ScreenshotCrop, Slide, SlidePanorama, SlideScreenshot, SlideType, Storyboard } from './types';
+import { SLIDE_SCREENSHOTS_MAX, getSlideTypes, validateStoryboardSlides } from './constants';
+import { getTemplateById, selectTemplate } from './templates';
+import { getPanoramaEndSlideId, validateStoryboardPanoramas } from './panoramas';
+
+/**
+ * Content of a feature slide to insert (the ID follows from its position).
+ */
+export type FeatureSlideContent = Omit<Slide, 'id' | 'type'>;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a storyboard's structure: valid slide numbering, slide types
+ * in storyboard order, templates applicable to their slide types, screenshot
+ * counts and valid panoramas.
+ * Throws descriptive errors for invalid storyboards.
+ */
+export function validateStoryboardStructure(storyboard: Storyboard): void {
+  validateStoryboardSlides(storyboard);
+
+  const expectedTypes = getSlideTypes(storyboard.slides.length);
+  storyboard.slides.forEach((slide, index) => {
+    if (slide.type !== expectedTypes[index]) {
+      throw new Error(
+        `Slide ${slide.id} is a ${slide.type} slide, expected ${expectedTypes[index]} ` +
+        `(storyboards run ${describeSlideOrder(storyboard.slides.length)})`
+      );
+    }
+
+    const template = getTemplateById(slide.templateId);
+    if (!template.applicableTypes.includes(slide.type)) {
+      throw new Error(`Slide ${slide.id}: Template "${slide.templateId}" does not apply to ${slide.type} slides`);
+    }
+
+    const screenshotCount = getSlideScreenshots(slide).length;
+    if (screenshotCount > SLIDE_SCREENSHOTS_MAX) {
+      throw new Error(`Slide ${slide.id} has ${screenshotCount} screenshots. Maximum ${SLIDE_SCREENSHOTS_MAX} per slide`);
+    }
+  });
+
+  validateStoryboardPanoramas(storyboard);
+}
+
+/**
+ * Validate a crop rectangle: whole pixels, non-negative origin, non-empty
+ * size and, when the source image size is known, inside the image.
+ */
+export function validateScreenshotCrop(
+  crop: ScreenshotCrop,
+  imageSize?: { width: number; height: number }
+): void {
+  const { x, y, width, height } = crop;
+  if (![x, y, width, height].every(Number.isInteger)) {
+    throw new Error(`Invalid crop: ${JSON.stringify(crop)}. Values must be whole pixels`);
+  }
+  if (x < 0 || y < 0) {
+    throw new Error(`Invalid crop origin: (${x}, ${y}). Must not be negative`);
+  }
+  if (width < 1 || height < 1) {
+    throw new Error(`Invalid crop size: ${width}x${height}. Must be at least 1x1`);
+  }
+  if (imageSize && (x + width > imageSize.width || y + height > imageSize.height)) {
+    throw new Error(
+      `Crop ${width}x${height} at (${x}, ${y}) exceeds the ${imageSize.width}x${imageSize.height} screenshot`
+    );
+  }
+}
+
+/**
+ * A slide's screenshots: its `screenshot`, then its `additionalScreenshots`.
+ */
+export function getSlideScreenshots(slide: Slide): SlideScreenshot[] {
+  return [slide.screenshot, ...(slide.additionalScreenshots ?? [])];
+}
+
+/**
+ * Index of a slide by ID.
+ * Throws if the storyboard is malformed or the ID is out of range.
+ */
+export function getSlideIndex(storyboard: Storyboard, slideId: number): number {
+  validateStoryboardSlides(storyboard);
+  if (!Number.isInteger(slideId) || slideId < 1 || slideId > storyboard.slides.length) {
+    throw new Error(`Invalid slide ID: ${slideId}. Must be 1-${storyboard.slides.length}`);
+  }
+  return slideId - 1;
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Reorder slides.
+ *
+ * @param slideIds - Every current slide ID once, in the new order
+ * @returns Storyboard with slides renumbered in the new order
+ */
+export function reorderSlides(storyboard: Storyboard, slideIds: readonly number[]): Storyboard {
+  validateStoryboardSlides(storyboard);
+
+  const count = storyboard.slides.length;
+  const isPermutation = slideIds.length === count &&
+    new Set(slideIds).size === count &&
+    slideIds.every((id) => Number.isInteger(id) && id >= 1 && id <= count);
+  if (!isPermutation) {
+    throw new Error(`Invalid slide order: [${slideIds.join(', ')}]. Must list slide IDs 1-${count} once each`);
+  }
+
+  const slides = slideIds.map((id) => storyboard.slides[id - 1]);
+  return withSlides(storyboard, slides, remapPanoramas(storyboard, slides));
+}
+
+/**
+ * Insert a feature slide.
+ *
+ * @param position - Slide ID of the new slide (2 to the closing slide's ID)
+ * @returns Storyboard with the slide inserted and later slides renumbered
+ */
+export function insertFeatureSlide(
+  storyboard: Storyboard,
+  position: number,
+  content: FeatureSlideContent
+): Storyboard {
+  validateStoryboardSlides(storyboard);
+
+  const count = storyboard.slides.length;
+  if (!Number.isInteger(position) || position < 2 || position > count) {
+    throw new Error(
+      `Invalid position for a feature slide: ${position}. Feature slides go between the hero and closing slides`
+    );
+  }
+
+  const slides = [...storyboard.slides];
+  slides.splice(position - 1, 0, { ...content, id: position, type: 'feature' });
+  return withSlides(storyboard, slides, remapPanoramas(storyboard, slides));
+}
+
+/**
+ * Remove a feature slide.
+ *
+ * @returns Storyboard without the slide, later slides renumbered
+ */
+export function removeFeatureSlide(storyboard: Storyboard, slideId: number): Storyboard {
+  const index = getSlideIndex(storyboard, slideId);
+  if (storyboard.slides[index].type !== 'feature') {
+    throw new Error(`Slide ${slideId} is a ${storyboard.slides[index].type} slide. Only feature slides can be removed`);
+  }
+
+  const slides = storyboard.slides.filter((_, i) => i !== index);
+  return withSlides(storyboard, slides, remapPanoramas(storyboard, slides));
+}
+
+/**
+ * Change a slide's template.
+ * Throws if the template does not exist or does not apply to the slide type.
+ */
+export function setSlideTemplate(storyboard: Storyboard, slideId: number, templateId: string): Storyboard {
+  const index = getSlideIndex(storyboard, slideId);
+  const slide = storyboard.slides[index];
+
+  // selectTemplate falls back to the default for unknown or inapplicable IDs
+  if (selectTemplate(slide.type, templateId).id !== templateId) {
+    throw new Error(`Template "${templateId}" is not available for ${slide.type} slides`);
+  }
+
+  return replaceSlide(storyboard, index, { ...slide, templateId });
+}
+
+/**
+ * Set (or, with null, clear) the crop of a slide's screenshot.
+ */
+export function setScreenshotCrop(
+  storyboard: Storyboard,
+  slideId: number,
+  crop: ScreenshotCrop | null
+): Storyboard {
+  const index = getSlideIndex(storyboard, slideId);
+  const slide = storyboard.slides[index];
+
+  const { crop: _previous, ...screenshot } = slide.screenshot;
+  if (crop) {
+    validateScreenshotCrop(crop);
+  }
+
+  return replaceSlide(storyboard, index, {
+    ...slide,
+    screenshot: crop ? { ...screenshot, crop: { ...crop } } : screenshot,
+  });
+}
+
+/**
+ * Set (or, with an empty list, clear) the screenshots for a slide's
+ * further devices (see `Slide.additionalScreenshots`).
+ */
+export function setAdditionalScreenshots(
+  storyboard: Storyboard,
+  slideId: number,
+  screenshots: readonly SlideScreenshot[]
+): Storyboard {
+  const index = getSlideIndex(storyboard, slideId);
+  const { additionalScreenshots: _previous, ...slide } = storyboard.slides[index];
+  for (const screenshot of screenshots) {
+    if (screenshot.crop) {
+      validateScreenshotCrop(screenshot.crop);
+    }
+  }
+
+  return replaceSlide(storyboard, index, {
+    ...slide,
+    ...(screenshots.length > 0 ? { additionalScreenshots: screenshots.map((screenshot) => ({ ...screenshot })) } : {}),
+  });
+}
+
+/**
+ * Render consecutive slides as one panorama.
+ *
+ * @param startSlideId - First slide of the panorama
+ * @param slideCount - Number of slides (2 or more)
+ * @throws Error if the range is invalid or overlaps another panorama
+ */
+export function setPanorama(storyboard: Storyboard, startSlideId: number, slideCount: number): Storyboard {
+  const panoramas = [...(storyboard.panoramas ?? []), { startSlideId, slideCount }];
+  return withSlides(storyboard, storyboard.slides, panoramas);
+}
+
+/**
+ * Remove the panorama containing a slide (its slides render separately).
+ * Throws if the slide is not part of a panorama.
+ */
+export function removePanorama(storyboard: Storyboard, slideId: number): Storyboard {
+  getSlideIndex(storyboard, slideId);
+
+  const panoramas = storyboard.panoramas ?? [];
+  const remaining = panoramas.filter(
+    (panorama) => slideId < panorama.startSlideId || slideId > getPanoramaEndSlideId(panorama)
+  );
+  if (remaining.length === panoramas.length) {
+    throw new Error(`Slide ${slideId} is not part of a panorama`);
+  }
+
+  return withSlides(storyboard, storyboard.slides, remaining);
+}
+
+/**
+ * Replace the slide at an index (its ID and type are kept).
+ */
+export function replaceSlide(storyboard: Storyboard, index: number, slide: Slide): Storyboard {
+  const slides = [...storyboard.slides];
+  slides[index] = { ...slide, id: storyboard.slides[index].id, type: storyboard.slides[index].type };
+  return withSlides(storyboard, slides);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * New storyboard with the slides renumbered 1..n and the given
+ * panoramas (default: unchanged), validated.
+ */
+function withSlides(
+  storyboard: Storyboard,
+  slides: readonly Slide[],
+  panoramas: readonly SlidePanorama[] | undefined = storyboard.panoramas
+): Storyboard {
+  const { panoramas: _previous, ...rest } = storyboard;
+  const updated: Storyboard = {
+    ...rest,
+    slides: slides.map((slide, index) => (slide.id === index + 1 ? slide : { ...slide, id: index + 1 })),
+    ...(panoramas && panoramas.length > 0 ? { panoramas } : {}),
+  };
+  validateStoryboardStructure(updated);
+  return updated;
+}
+
+/**
+ * Panoramas moved with their slides after slides were reordered,
+ * inserted or removed. Slides are matched by identity; panoramas whose
+ * remaining slides are not consecutive and in order, or fewer than two,
+ * are dropped.
+ */
+function remapPanoramas(storyboard: Storyboard, slides: readonly Slide[]): SlidePanorama[] {
+  return (storyboard.panoramas ?? []).flatMap((panorama) => {
+    const positions = storyboard.slides
+      .slice(panorama.startSlideId - 1, getPanoramaEndSlideId(panorama))
+      .map((slide) => slides.indexOf(slide))
+      .filter((position) => position >= 0);
+
+    const consecutive = positions.every((position, i) => i === 0 || position === positions[i - 1] + 1);
+    if (positions.length < 2 || !consecutive) {
+      return [];
+    }
+    return [{ startSlideId: positions[0] + 1, slideCount: positions.length }];
+  });
+}
+
+/**
+ * Slide order for a storyboard length, e.g. "hero, 3 features, closing".
+ */
+function describeSlideOrder(count: number): string {
+  const types: SlideType[] = getSlideTypes(count);
+  const features = types.filter((type) => type === 'feature').length;
+  if (features === 0) {
+    return types.join(', ');
+  }
+  return `hero, ${features} feature${features === 1 ? '' : 's'}, closing`;
+}
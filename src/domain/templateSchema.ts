@@ -0,0 +1,446 @@
+/**
+ * Template Schema
+ *
+ * Declarative schema for templates (see Template), used to check the
+ * built-in templates and template documents loaded from JSON files.
+ * A template document is a Template written as JSON:
+ * - Layout: primitive, mirroring, slide types, orientations and variants
+ * - Text style: alignment, vertical position and line width (textPosition)
+ * - Layers: 1-SLIDE_SCREENSHOTS_MAX device positions with fit and
+ *   transforms (screenshotPositions)
+ * - Background: one solid color or a linear/radial gradient
+ *
+ * Issues name the offending property by path (e.g.
+ * "screenshotPositions[1].rotation"), so documents can be fixed without
+ * reading code. Rules across templates (unique IDs, orientation variants
+ * that exist) are checked by validateTemplateConfiguration.
+ *
+ * Design Principles:
+ * - Data-Driven: The schema is data; one validator walks it
+ * - Complete Reports: Every issue is collected, not just the first
+ * - Strict: Unknown properties are issues, so typos never pass silently
+ */
+
+import {
+  Template,
+  TemplateValidationIssue,
+  LayoutPrimitive,
+  Orientation,
+  SlideType,
+  ScreenshotFit,
+  TextPosition,
+  TemplateBackground,
+  GradientConfig,
+} from './types';
+import { SLIDE_SCREENSHOTS_MAX } from './constants';
+import { isValidHexColor } from './theme';
+import { TemplateValidationError } from './errors';
+
+// ============================================================================
+// Schema Types
+// ============================================================================
+
+/**
+ * Formats a string value can be required to have.
+ */
+export type TemplateStringFormat = 'template-id' | 'hex-color';
+
+/**
+ * Rules for one value of a template document.
+ * Numeric ranges are inclusive unless `exclusiveMinimum` is used.
+ */
+export type TemplateSchemaNode =
+  | {
+      type: 'string';
+      enum?: readonly string[];
+      format?: TemplateStringFormat;
+      minLength?: number;
+    }
+  | {
+      type: 'number';
+      minimum?: number;
+      exclusiveMinimum?: number;
+      maximum?: number;
+      integer?: boolean;
+      /** Shown after the range in messages, e.g. "% of canvas width" */
+      unit?: string;
+    }
+  | { type: 'boolean' }
+  | {
+      type: 'array';
+      items: TemplateSchemaNode;
+      minItems?: number;
+      maxItems?: number;
+      uniqueItems?: boolean;
+    }
+  | {
+      type: 'object';
+      properties: Readonly<Record<string, TemplateSchemaNode>>;
+      required?: readonly string[];
+    };
+
+/**
+ * How each string format is checked and described in messages.
+ */
+const STRING_FORMATS: Record<TemplateStringFormat, { test: (value: string) => boolean; description: string }> = {
+  'template-id': {
+    test: (value) => /^[a-z0-9]+(-[a-z0-9]+)*$/.test(value),
+    description: 'lowercase letters and digits in hyphen-separated words (e.g., "stack-wide")',
+  },
+  'hex-color': {
+    test: isValidHexColor,
+    description: 'a hex color (e.g., "#1A2B3C")',
+  },
+};
+
+// ============================================================================
+// Template Schema
+// ============================================================================
+
+const LAYOUT_PRIMITIVES: readonly LayoutPrimitive[] = ['hero', 'stack', 'split'];
+const ORIENTATIONS: readonly Orientation[] = ['portrait', 'landscape'];
+const SLIDE_TYPES: readonly SlideType[] = ['hero', 'feature', 'closing'];
+const SCREENSHOT_FITS: readonly ScreenshotFit[] = ['contain', 'cover', 'bleed'];
+const TEXT_ALIGNS: readonly TextPosition['align'][] = ['left', 'center', 'right'];
+const BACKGROUND_TYPES: readonly TemplateBackground['type'][] = ['solid', 'gradient'];
+const GRADIENT_KINDS: readonly GradientConfig['kind'][] = ['linear', 'radial'];
+
+/**
+ * One screenshot position (device layer).
+ */
+const SCREENSHOT_POSITION_SCHEMA: TemplateSchemaNode = {
+  type: 'object',
+  required: ['verticalPosition', 'width', 'applyFrame'],
+  properties: {
+    verticalPosition: { type: 'number', minimum: 0, maximum: 100, unit: '% from top' },
+    width: { type: 'number', exclusiveMinimum: 0, maximum: 100, unit: '% of canvas width' },
+    applyFrame: { type: 'boolean' },
+    fit: { type: 'string', enum: SCREENSHOT_FITS },
+    maxHeight: { type: 'number', exclusiveMinimum: 0, maximum: 100, unit: '% of safe area height' },
+    horizontalOffset: { type: 'number', minimum: -100, maximum: 100, unit: '% of canvas width' },
+    verticalOffset: { type: 'number', minimum: -100, maximum: 100, unit: '% of canvas height' },
+    scale: { type: 'number', exclusiveMinimum: 0, maximum: 3 },
+    rotation: { type: 'number', minimum: -180, maximum: 180, unit: 'degrees' },
+    zIndex: { type: 'number', integer: true },
+    device: { type: 'string', enum: ['phone', 'tablet'] },
+  },
+};
+
+/**
+ * Template background: solid color or gradient.
+ */
+const BACKGROUND_SCHEMA: TemplateSchemaNode = {
+  type: 'object',
+  required: ['type', 'colors'],
+  properties: {
+    type: { type: 'string', enum: BACKGROUND_TYPES },
+    colors: { type: 'array', items: { type: 'string', format: 'hex-color' }, minItems: 1 },
+    gradient: {
+      type: 'object',
+      required: ['kind'],
+      properties: {
+        kind: { type: 'string', enum: GRADIENT_KINDS },
+        angle: { type: 'number', minimum: -360, maximum: 360, unit: 'degrees' },
+        center: {
+          type: 'object',
+          required: ['x', 'y'],
+          properties: {
+            x: { type: 'number', minimum: 0, maximum: 100, unit: '% of canvas width' },
+            y: { type: 'number', minimum: 0, maximum: 100, unit: '% of canvas height' },
+          },
+        },
+        stops: { type: 'array', items: { type: 'number', minimum: 0, maximum: 100 } },
+      },
+    },
+  },
+};
+
+/**
+ * A whole template (see Template for what each property means).
+ */
+export const TEMPLATE_SCHEMA: TemplateSchemaNode = {
+  type: 'object',
+  required: [
+    'id',
+    'name',
+    'layout',
+    'supportedOrientations',
+    'applicableTypes',
+    'textPosition',
+    'screenshotPositions',
+    'background',
+  ],
+  properties: {
+    id: { type: 'string', format: 'template-id' },
+    name: { type: 'string', minLength: 1 },
+    layout: { type: 'string', enum: LAYOUT_PRIMITIVES },
+    mirrored: { type: 'boolean' },
+    supportedOrientations: {
+      type: 'array',
+      items: { type: 'string', enum: ORIENTATIONS },
+      minItems: 1,
+      uniqueItems: true,
+    },
+    orientationVariants: {
+      type: 'object',
+      properties: {
+        portrait: { type: 'string', format: 'template-id' },
+        landscape: { type: 'string', format: 'template-id' },
+      },
+    },
+    applicableTypes: {
+      type: 'array',
+      items: { type: 'string', enum: SLIDE_TYPES },
+      minItems: 1,
+      uniqueItems: true,
+    },
+    textPosition: {
+      type: 'object',
+      required: ['align', 'verticalPosition', 'maxWidth'],
+      properties: {
+        align: { type: 'string', enum: TEXT_ALIGNS },
+        verticalPosition: { type: 'number', minimum: 0, maximum: 100, unit: '% from top' },
+        maxWidth: { type: 'number', exclusiveMinimum: 0, maximum: 100, unit: '% of safe area width' },
+      },
+    },
+    screenshotPositions: {
+      type: 'array',
+      items: SCREENSHOT_POSITION_SCHEMA,
+      minItems: 1,
+      maxItems: SLIDE_SCREENSHOTS_MAX,
+    },
+    background: BACKGROUND_SCHEMA,
+  },
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a template document against TEMPLATE_SCHEMA and the rules
+ * between its properties (e.g., one gradient stop per color).
+ *
+ * @param document - Parsed JSON (or a Template object)
+ * @returns Every issue found; empty if the document is a valid template
+ */
+export function validateTemplateDocument(document: unknown): TemplateValidationIssue[] {
+  const issues: TemplateValidationIssue[] = [];
+  validateNode(TEMPLATE_SCHEMA, document, '', issues);
+
+  // Cross-property rules assume the shape is right
+  if (issues.length === 0) {
+    validateTemplateRules(document as Template, issues);
+  }
+  return issues;
+}
+
+/**
+ * Parse a template document into a Template.
+ *
+ * @param document - Parsed JSON
+ * @param source - Where the document came from (e.g., its file path), for errors
+ * @throws TemplateValidationError listing every issue if the document is invalid
+ */
+export function parseTemplateDocument(document: unknown, source: string): Template {
+  const issues = validateTemplateDocument(document);
+  if (issues.length > 0) {
+    throw new TemplateValidationError(source, issues);
+  }
+  return document as Template;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Check a value against a schema node, adding issues at `path`.
+ */
+function validateNode(
+  node: TemplateSchemaNode,
+  value: unknown,
+  path: string,
+  issues: TemplateValidationIssue[]
+): void {
+  const report = (message: string) => {
+    issues.push({ path, message });
+  };
+
+  switch (node.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        report(`must be a string, got ${describeValue(value)}`);
+        return;
+      }
+      if (node.minLength !== undefined && value.length < node.minLength) {
+        report(node.minLength === 1 ? 'must not be empty' : `must be at least ${node.minLength} characters`);
+      }
+      if (node.enum && !node.enum.includes(value)) {
+        report(`must be one of ${node.enum.map((option) => `"${option}"`).join(', ')}, got "${value}"`);
+      }
+      if (node.format && !STRING_FORMATS[node.format].test(value)) {
+        report(`must be ${STRING_FORMATS[node.format].description}, got "${value}"`);
+      }
+      return;
+    }
+
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        report(`must be a number, got ${describeValue(value)}`);
+        return;
+      }
+      if (node.integer && !Number.isInteger(value)) {
+        report(`must be an integer, got ${value}`);
+      }
+      const { minimum, exclusiveMinimum, maximum } = node;
+      const inRange = (minimum === undefined || value >= minimum) &&
+        (exclusiveMinimum === undefined || value > exclusiveMinimum) &&
+        (maximum === undefined || value <= maximum);
+      if (!inRange) {
+        report(`must be ${describeRange(node)}, got ${value}`);
+      }
+      return;
+    }
+
+    case 'boolean': {
+      if (typeof value !== 'boolean') {
+        report(`must be true or false, got ${describeValue(value)}`);
+      }
+      return;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        report(`must be an array, got ${describeValue(value)}`);
+        return;
+      }
+      const { minItems = 0, maxItems } = node;
+      if (value.length < minItems || (maxItems !== undefined && value.length > maxItems)) {
+        if (maxItems !== undefined) {
+          report(`must have ${minItems}-${maxItems} items, got ${value.length}`);
+        } else {
+          report(minItems === 1 ? 'must not be empty' : `must have at least ${minItems} items, got ${value.length}`);
+        }
+      }
+      value.forEach((item, index) => {
+        const itemPath = `${path}[${index}]`;
+        validateNode(node.items, item, itemPath, issues);
+        if (node.uniqueItems && value.indexOf(item) < index) {
+          issues.push({ path: itemPath, message: `duplicates ${JSON.stringify(item)}` });
+        }
+      });
+      return;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        report(`must be an object, got ${describeValue(value)}`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of node.required ?? []) {
+        if (record[key] === undefined) {
+          issues.push({ path: joinPath(path, key), message: 'is required' });
+        }
+      }
+      for (const [key, propertyValue] of Object.entries(record)) {
+        if (propertyValue === undefined) {
+          continue;
+        }
+        const property = node.properties[key];
+        if (!property) {
+          issues.push({
+            path: joinPath(path, key),
+            message: `is not a known property (expected: ${Object.keys(node.properties).join(', ')})`,
+          });
+          continue;
+        }
+        validateNode(property, propertyValue, joinPath(path, key), issues);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Rules between properties of a template whose shape is valid.
+ */
+function validateTemplateRules(template: Template, issues: TemplateValidationIssue[]): void {
+  const { background } = template;
+  const colorCount = background.colors.length;
+
+  if (background.type === 'solid') {
+    if (colorCount !== 1) {
+      issues.push({ path: 'background.colors', message: `must have exactly 1 color for a solid background, got ${colorCount}` });
+    }
+    if (background.gradient) {
+      issues.push({ path: 'background.gradient', message: 'only applies to gradient backgrounds' });
+    }
+  } else if (colorCount < 2) {
+    issues.push({ path: 'background.colors', message: `must have at least 2 colors for a gradient background, got ${colorCount}` });
+  }
+
+  const gradient = background.gradient;
+  if (gradient?.kind === 'linear' && gradient.center) {
+    issues.push({ path: 'background.gradient.center', message: 'only applies to radial gradients' });
+  }
+  if (gradient?.kind === 'radial' && gradient.angle !== undefined) {
+    issues.push({ path: 'background.gradient.angle', message: 'only applies to linear gradients' });
+  }
+  if (gradient?.stops) {
+    if (gradient.stops.length !== colorCount) {
+      issues.push({
+        path: 'background.gradient.stops',
+        message: `must have one stop per color (${colorCount}), got ${gradient.stops.length}`,
+      });
+    }
+    if (gradient.stops.some((stop, index) => index > 0 && stop < gradient.stops![index - 1])) {
+      issues.push({ path: 'background.gradient.stops', message: 'must be in ascending order' });
+    }
+  }
+
+  for (const orientation of ORIENTATIONS) {
+    if (template.orientationVariants?.[orientation] && template.supportedOrientations.includes(orientation)) {
+      issues.push({
+        path: `orientationVariants.${orientation}`,
+        message: `is never used: the template supports ${orientation} itself`,
+      });
+    }
+  }
+}
+
+/**
+ * Allowed range of a number node, e.g. "-180 to 180 (degrees)".
+ */
+function describeRange(node: Extract<TemplateSchemaNode, { type: 'number' }>): string {
+  const { minimum, exclusiveMinimum, maximum, unit } = node;
+  const parts: string[] = [];
+  if (minimum !== undefined && maximum !== undefined) {
+    parts.push(`${minimum} to ${maximum}`);
+  } else {
+    if (minimum !== undefined) parts.push(`at least ${minimum}`);
+    if (exclusiveMinimum !== undefined) parts.push(`over ${exclusiveMinimum}`);
+    if (maximum !== undefined) parts.push(`at most ${maximum}`);
+  }
+  const range = parts.join(' and ');
+  return unit ? `${range} (${unit})` : range;
+}
+
+/**
+ * Short description of a value's JSON type for messages.
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+/**
+ * Path of a property, e.g. "background" + "colors" -> "background.colors".
+ */
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
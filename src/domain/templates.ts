@@ -3,6 +3,12 @@
  * 
  * Data-driven template configurations for slide layouts.
  * Uses layout primitives (stack, split, hero) to create different visual styles.
+ * Multi-device templates list several screenshot positions, each placed
+ * by the primitive and then transformed (offset, scale, rotation, z-order).
+ * 
+ * The built-in templates below are always available; more can be
+ * registered at runtime (e.g., loaded from JSON documents, see
+ * templateSchema.ts). Every template is checked against TEMPLATE_SCHEMA.
  * 
  * Design Principles:
  * - Open/Closed: Add new templates without modifying renderer
@@ -10,8 +16,22 @@
  * - Single Responsibility: Each template defines one layout pattern
  */
 
-import { Template, SlideType, LayoutPrimitive } from './types';
+import {
+  Template,
+  TemplateBackground,
+  SlideType,
+  LayoutPrimitive,
+  Orientation,
+  TextPosition,
+  TextDirection,
+  TemplateValidationIssue,
+  ScreenshotFit,
+  ScreenshotPosition,
+  DevicePlatform,
+} from './types';
 import { THEME } from './theme';
+import { TemplateValidationError } from './errors';
+import { validateTemplateDocument } from './templateSchema';
 
 // ============================================================================
 // Template Definitions
@@ -21,13 +41,15 @@ import { THEME } from './theme';
  * Hero Template - Full-screen with centered text overlay
  * 
  * Best for: Slide 1 (core promise)
- * Layout: Text centered on top half, screenshot fills bottom half
+ * Layout: Text over the top of the phone on a scrim, phone cut off at the bottom edge
  */
 const HERO_TEMPLATE: Template = {
   id: 'hero',
   name: 'Hero Layout',
   layout: 'hero',
   applicableTypes: ['hero'],
+  supportedOrientations: ['portrait'],
+  orientationVariants: { landscape: 'hero-landscape' },
   
   textPosition: {
     align: 'center',
@@ -35,15 +57,23 @@ const HERO_TEMPLATE: Template = {
     maxWidth: 85, // 85% of safe area width
   },
   
-  screenshotPosition: {
-    verticalPosition: 45, // Start at 45% from top
-    width: 70, // 70% of canvas width
-    applyFrame: true, // Show device frame
-  },
+  screenshotPositions: [
+    {
+      verticalPosition: 14, // Top of the phone sits behind the text
+      width: 90, // 90% of canvas width
+      applyFrame: true, // Show device frame
+      fit: 'bleed', // Runs off the bottom edge
+    },
+  ],
   
   background: {
     type: 'gradient',
-    colors: [THEME.colors.primary[600], THEME.colors.primary[400]],
+    colors: [THEME.colors.primary[700], THEME.colors.primary[600], THEME.colors.primary[400]],
+    gradient: {
+      kind: 'linear',
+      angle: 160, // Top-left to bottom-right, slightly tilted
+      stops: [0, 45, 100],
+    },
   },
 };
 
@@ -58,6 +88,8 @@ const STACK_TEMPLATE: Template = {
   name: 'Stack Layout',
   layout: 'stack',
   applicableTypes: ['feature'],
+  supportedOrientations: ['portrait'],
+  orientationVariants: { landscape: 'stack-landscape' },
   
   textPosition: {
     align: 'center',
@@ -65,11 +97,13 @@ const STACK_TEMPLATE: Template = {
     maxWidth: 90, // 90% of safe area width
   },
   
-  screenshotPosition: {
-    verticalPosition: 35, // Start at 35% from top
-    width: 65, // 65% of canvas width
-    applyFrame: true,
-  },
+  screenshotPositions: [
+    {
+      verticalPosition: 35, // Start at 35% from top
+      width: 65, // 65% of canvas width
+      applyFrame: true,
+    },
+  ],
   
   background: {
     type: 'solid',
@@ -77,17 +111,168 @@ const STACK_TEMPLATE: Template = {
   },
 };
 
+/**
+ * Stack Bleed Template - Large phone cut off at the bottom
+ * 
+ * Best for: Slides 2-4 (feature highlights with a bold, close-up device)
+ * Layout: Headline at top, wide framed screenshot running off the bottom edge
+ */
+const STACK_BLEED_TEMPLATE: Template = {
+  ...STACK_TEMPLATE,
+  id: 'stack-bleed',
+  name: 'Stack Layout (Bleed)',
+  
+  screenshotPositions: [
+    {
+      verticalPosition: 30, // Start at 30% from top
+      width: 80, // 80% of canvas width
+      applyFrame: true,
+      fit: 'bleed', // Bottom of the phone is cut off
+    },
+  ],
+};
+
+/**
+ * Stack Seam Template - Phone crossing into the next slide
+ * 
+ * Best for: The first slide of a panorama (see SlidePanorama)
+ * Layout: Left-aligned headline, phone shifted right past the slide edge;
+ * in a panorama it continues on the next slide, elsewhere it is cut off
+ */
+const STACK_SEAM_TEMPLATE: Template = {
+  ...STACK_TEMPLATE,
+  id: 'stack-seam',
+  name: 'Stack Layout (Across Seam)',
+  
+  textPosition: {
+    align: 'left',
+    verticalPosition: 12,
+    maxWidth: 60, // Leaves the right side to the phone
+  },
+  
+  screenshotPositions: [
+    {
+      verticalPosition: 32,
+      width: 60,
+      applyFrame: true,
+      fit: 'bleed',
+      horizontalOffset: 30, // Centered at 80%, crossing the right edge by 10%
+    },
+  ],
+};
+
+/**
+ * Fanned Devices Template - Three phones fanned out
+ * 
+ * Best for: Feature slides showing a flow across screens
+ * Layout: Headline at top, center phone in front, side phones tilted behind
+ */
+const DEVICES_FANNED_TEMPLATE: Template = {
+  ...STACK_TEMPLATE,
+  id: 'devices-fanned',
+  name: 'Fanned Devices',
+  
+  screenshotPositions: [
+    {
+      verticalPosition: 34,
+      width: 48,
+      applyFrame: true,
+      fit: 'bleed',
+      zIndex: 2, // In front
+    },
+    {
+      verticalPosition: 38,
+      width: 48,
+      applyFrame: true,
+      fit: 'bleed',
+      horizontalOffset: -25,
+      scale: 0.9,
+      rotation: -10,
+    },
+    {
+      verticalPosition: 38,
+      width: 48,
+      applyFrame: true,
+      fit: 'bleed',
+      horizontalOffset: 25,
+      scale: 0.9,
+      rotation: 10,
+    },
+  ],
+};
+
+/**
+ * Overlapping Devices Template - Two phones, one in front of the other
+ * 
+ * Best for: Feature slides comparing two screens
+ * Layout: Headline at top, back phone up and left, front phone down and right
+ */
+const DEVICES_OVERLAP_TEMPLATE: Template = {
+  ...STACK_TEMPLATE,
+  id: 'devices-overlap',
+  name: 'Overlapping Devices',
+  
+  screenshotPositions: [
+    {
+      verticalPosition: 34,
+      width: 52,
+      applyFrame: true,
+      fit: 'bleed',
+      horizontalOffset: -15,
+    },
+    {
+      verticalPosition: 34,
+      width: 52,
+      applyFrame: true,
+      fit: 'bleed',
+      horizontalOffset: 15,
+      verticalOffset: 6,
+    },
+  ],
+};
+
+/**
+ * Phone and Tablet Template - Tablet with a phone beside it
+ * 
+ * Best for: Feature slides for apps on phone and tablet
+ * Layout: Headline at top, tablet on the left, phone overlapping its right edge
+ * (the second screenshot should be a phone screenshot)
+ */
+const DEVICES_PHONE_TABLET_TEMPLATE: Template = {
+  ...STACK_TEMPLATE,
+  id: 'devices-phone-tablet',
+  name: 'Phone and Tablet',
+  
+  screenshotPositions: [
+    {
+      verticalPosition: 38,
+      width: 70,
+      applyFrame: true,
+      horizontalOffset: -10,
+      device: 'tablet',
+    },
+    {
+      verticalPosition: 44,
+      width: 28,
+      applyFrame: true,
+      horizontalOffset: 30,
+      device: 'phone',
+    },
+  ],
+};
+
 /**
  * Split Template - Side-by-side layout
  * 
  * Best for: Slides 2-4 (alternative for features)
- * Layout: Text on left, screenshot on right (or vice versa)
+ * Layout: Text on left, screenshot on right (see split-mirrored for the reverse)
  */
 const SPLIT_TEMPLATE: Template = {
   id: 'split',
   name: 'Split Layout',
   layout: 'split',
   applicableTypes: ['feature'],
+  supportedOrientations: ['portrait', 'landscape'], // Columns suit wide canvases too
   
   textPosition: {
     align: 'left',
@@ -95,11 +280,13 @@ const SPLIT_TEMPLATE: Template = {
     maxWidth: 80, // 80% of left half
   },
   
-  screenshotPosition: {
-    verticalPosition: 25, // Start at 25% from top
-    width: 45, // 45% of canvas width (right side)
-    applyFrame: true,
-  },
+  screenshotPositions: [
+    {
+      verticalPosition: 25, // Start at 25% from top
+      width: 45, // 45% of canvas width (right side)
+      applyFrame: true,
+    },
+  ],
   
   background: {
     type: 'solid',
@@ -107,6 +294,19 @@ const SPLIT_TEMPLATE: Template = {
   },
 };
 
+/**
+ * Split Mirrored Template - Split with columns swapped
+ * 
+ * Best for: Slides 2-4 (alternates with split for rhythm)
+ * Layout: Screenshot on left, text on right
+ */
+const SPLIT_MIRRORED_TEMPLATE: Template = {
+  ...SPLIT_TEMPLATE,
+  id: 'split-mirrored',
+  name: 'Split Layout (Mirrored)',
+  mirrored: true,
+};
+
 /**
  * Closing Template - Strong CTA with minimal screenshot
  * 
@@ -118,6 +318,8 @@ const CLOSING_TEMPLATE: Template = {
   name: 'Closing Layout',
   layout: 'hero',
   applicableTypes: ['closing'],
+  supportedOrientations: ['portrait'],
+  orientationVariants: { landscape: 'closing-landscape' },
   
   textPosition: {
     align: 'center',
@@ -125,16 +327,110 @@ const CLOSING_TEMPLATE: Template = {
     maxWidth: 85,
   },
   
-  screenshotPosition: {
-    verticalPosition: 70, // Near bottom
-    width: 50, // Smaller screenshot
-    applyFrame: false, // No frame for subtlety
-  },
+  screenshotPositions: [
+    {
+      verticalPosition: 70, // Near bottom
+      width: 50, // Smaller screenshot
+      applyFrame: false, // No frame for subtlety
+      fit: 'cover', // Top of the screen, cut at the safe area
+    },
+  ],
   
   background: {
     type: 'gradient',
-    colors: [THEME.colors.primary[700], THEME.colors.primary[500]],
+    colors: [THEME.colors.primary[500], THEME.colors.primary[700]],
+    gradient: {
+      kind: 'radial',
+      center: { x: 50, y: 35 }, // Glow behind the centered headline
+    },
+  },
+};
+
+// ============================================================================
+// Landscape Template Definitions
+// ============================================================================
+
+/**
+ * Hero Template (Landscape) - Wide canvas variant of hero
+ * 
+ * Layout: Text centered near the top, wide screenshot below
+ */
+const HERO_LANDSCAPE_TEMPLATE: Template = {
+  ...HERO_TEMPLATE,
+  id: 'hero-landscape',
+  name: 'Hero Layout (Landscape)',
+  supportedOrientations: ['landscape'],
+  orientationVariants: { portrait: 'hero' },
+  
+  textPosition: {
+    align: 'center',
+    verticalPosition: 15, // Centered around 15% from top
+    maxWidth: 70, // Narrower line length on wide canvases
+  },
+  
+  screenshotPositions: [
+    {
+      verticalPosition: 32,
+      width: 55, // 55% of canvas width
+      applyFrame: true,
+      fit: 'bleed',
+    },
+  ],
+};
+
+/**
+ * Stack Template (Landscape) - Wide canvas variant of stack
+ * 
+ * Layout: Headline at top, wide screenshot below
+ */
+const STACK_LANDSCAPE_TEMPLATE: Template = {
+  ...STACK_TEMPLATE,
+  id: 'stack-landscape',
+  name: 'Stack Layout (Landscape)',
+  supportedOrientations: ['landscape'],
+  orientationVariants: { portrait: 'stack' },
+  
+  textPosition: {
+    align: 'center',
+    verticalPosition: 8,
+    maxWidth: 70,
   },
+  
+  screenshotPositions: [
+    {
+      verticalPosition: 28,
+      width: 58,
+      applyFrame: true,
+    },
+  ],
+};
+
+/**
+ * Closing Template (Landscape) - Wide canvas variant of closing
+ * 
+ * Layout: Large centered text, small screenshot accent below
+ */
+const CLOSING_LANDSCAPE_TEMPLATE: Template = {
+  ...CLOSING_TEMPLATE,
+  id: 'closing-landscape',
+  name: 'Closing Layout (Landscape)',
+  supportedOrientations: ['landscape'],
+  orientationVariants: { portrait: 'closing' },
+  
+  textPosition: {
+    align: 'center',
+    verticalPosition: 30,
+    maxWidth: 70,
+  },
+  
+  screenshotPositions: [
+    {
+      verticalPosition: 58,
+      width: 35,
+      applyFrame: false,
+      fit: 'cover',
+    },
+  ],
 };
 
 // ============================================================================
@@ -142,16 +438,31 @@ const CLOSING_TEMPLATE: Template = {
 // ============================================================================
 
 /**
- * All available templates.
+ * Built-in templates.
  * Order matters for fallback selection.
  */
 export const TEMPLATES: readonly Template[] = [
   HERO_TEMPLATE,
   STACK_TEMPLATE,
+  STACK_BLEED_TEMPLATE,
+  STACK_SEAM_TEMPLATE,
+  DEVICES_FANNED_TEMPLATE,
+  DEVICES_OVERLAP_TEMPLATE,
+  DEVICES_PHONE_TABLET_TEMPLATE,
   SPLIT_TEMPLATE,
+  SPLIT_MIRRORED_TEMPLATE,
   CLOSING_TEMPLATE,
+  HERO_LANDSCAPE_TEMPLATE,
+  STACK_LANDSCAPE_TEMPLATE,
+  CLOSING_LANDSCAPE_TEMPLATE,
 ] as const;
 
+/**
+ * Available templates: the built-ins, then registered templates in
+ * registration order (see registerTemplates).
+ */
+let templateRegistry: readonly Template[] = TEMPLATES;
+
 /**
  * Default template mapping by slide type.
  * Ensures each slide type has a sensible default.
@@ -162,6 +473,66 @@ export const DEFAULT_TEMPLATE_BY_TYPE: Record<SlideType, string> = {
   closing: 'closing',
 };
 
+// ============================================================================
+// Template Registration
+// ============================================================================
+
+/**
+ * Get all available templates (built-in and registered).
+ */
+export function getTemplates(): readonly Template[] {
+  return templateRegistry;
+}
+
+/**
+ * Register templates after the ones already available.
+ * The templates are only added if the whole resulting configuration is
+ * valid (see validateTemplateConfiguration), so a failed registration
+ * changes nothing.
+ * 
+ * @throws TemplateValidationError (or Error) describing the first invalid template
+ */
+export function registerTemplates(templates: readonly Template[]): void {
+  const registry = [...templateRegistry, ...templates];
+  validateTemplateConfiguration(registry);
+  templateRegistry = registry;
+}
+
+/**
+ * Register the valid templates after the ones already available, and
+ * skip the rest. Templates are checked together, so their orientation
+ * variants may reference each other; a template is skipped if it is
+ * invalid, reuses an ID or names a variant that is missing, unsuitable
+ * or skipped itself.
+ * 
+ * @returns Errors for the skipped templates, in input order
+ */
+export function registerValidTemplates(templates: readonly Template[]): TemplateValidationError[] {
+  const errors = new Map<Template, TemplateValidationError>();
+  let candidates = [...templates];
+  
+  // Skipping a template can break the variants that name it, so repeat
+  // until every remaining template is valid
+  for (;;) {
+    const registry = [...templateRegistry, ...candidates];
+    let skipped = false;
+    for (const template of candidates) {
+      const error = findTemplateError(registry, template);
+      if (error) {
+        errors.set(template, error);
+        skipped = true;
+      }
+    }
+    if (!skipped) {
+      break;
+    }
+    candidates = candidates.filter((template) => !errors.has(template));
+  }
+  
+  registerTemplates(candidates);
+  return templates.flatMap((template) => errors.get(template) ?? []);
+}
+
 // ============================================================================
 // Template Selection Logic
 // ============================================================================
@@ -171,7 +542,7 @@ export const DEFAULT_TEMPLATE_BY_TYPE: Record<SlideType, string> = {
  * Throws if template not found (fail fast).
  */
 export function getTemplateById(id: string): Template {
-  const template = TEMPLATES.find((t) => t.id === id);
+  const template = templateRegistry.find((t) => t.id === id);
   if (!template) {
     throw new Error(`Template not found: ${id}`);
   }
@@ -180,9 +551,67 @@ export function getTemplateById(id: string): Template {
 
 /**
  * Get all templates applicable for a slide type.
+ * Optionally restricted to templates supporting an orientation.
  */
-export function getTemplatesForSlideType(slideType: SlideType): Template[] {
-  return TEMPLATES.filter((t) => t.applicableTypes.includes(slideType));
+export function getTemplatesForSlideType(
+  slideType: SlideType,
+  orientation?: Orientation
+): Template[] {
+  return templateRegistry.filter(
+    (t) =>
+      t.applicableTypes.includes(slideType) &&
+      (!orientation || t.supportedOrientations.includes(orientation))
+  );
+}
+
+/**
+ * Check if a template supports an orientation.
+ */
+export function supportsOrientation(template: Template, orientation: Orientation): boolean {
+  return template.supportedOrientations.includes(orientation);
+}
+
+/**
+ * Resolve the template to render on a target of a given orientation.
+ * 
+ * Returns the template itself if it supports the orientation, otherwise
+ * its declared orientation variant. Throws if neither applies (fail fast).
+ */
+export function resolveTemplateForOrientation(
+  template: Template,
+  orientation: Orientation
+): Template {
+  if (supportsOrientation(template, orientation)) {
+    return template;
+  }
+  
+  const variantId = template.orientationVariants?.[orientation];
+  if (!variantId) {
+    throw new Error(`Template "${template.id}" has no ${orientation} variant`);
+  }
+  
+  const variant = getTemplateById(variantId);
+  if (!supportsOrientation(variant, orientation)) {
+    throw new Error(
+      `Template "${template.id}" ${orientation} variant "${variantId}" does not support ${orientation}`
+    );
+  }
+  
+  return variant;
+}
+
+/**
+ * Resolve a template's text alignment for a writing direction.
+ * Templates are authored left-to-right; RTL text mirrors left and right.
+ */
+export function resolveTextAlign(
+  align: TextPosition['align'],
+  direction: TextDirection
+): TextPosition['align'] {
+  if (direction === 'ltr' || align === 'center') {
+    return align;
+  }
+  return align === 'left' ? 'right' : 'left';
 }
 
 /**
@@ -233,21 +662,54 @@ export function selectTemplate(
 }
 
 /**
- * Validate that all slide types have templates available.
- * Called during app initialization to ensure configuration is valid.
+ * Validate a template configuration (default: every available template).
+ * Called during app initialization and when registering templates.
+ * 
+ * Checks that every template matches TEMPLATE_SCHEMA, IDs are unique,
+ * every template renders in every orientation (itself or through an
+ * existing variant for the same slide types) and every slide type has
+ * its default template.
+ * 
+ * @throws TemplateValidationError with property paths for invalid templates
  */
-export function validateTemplateConfiguration(): void {
+export function validateTemplateConfiguration(templates: readonly Template[] = templateRegistry): void {
+  const seenIds = new Set<string>();
+  
+  for (const template of templates) {
+    const source = `Template "${template.id}"`;
+    const issues = validateTemplateDocument(template);
+    if (issues.length > 0) {
+      throw new TemplateValidationError(source, issues);
+    }
+    
+    if (seenIds.has(template.id)) {
+      throw new TemplateValidationError(source, [{ path: 'id', message: 'is already used by another template' }]);
+    }
+    seenIds.add(template.id);
+  }
+  
+  // Verify every template can be rendered in every orientation
+  const orientations: Orientation[] = ['portrait', 'landscape'];
+  
+  for (const template of templates) {
+    const issues = orientations.flatMap((orientation) =>
+      findOrientationIssues(templates, template, orientation)
+    );
+    if (issues.length > 0) {
+      throw new TemplateValidationError(`Template "${template.id}"`, issues);
+    }
+  }
+  
   const slideTypes: SlideType[] = ['hero', 'feature', 'closing'];
   
   for (const slideType of slideTypes) {
-    const templates = getTemplatesForSlideType(slideType);
-    if (templates.length === 0) {
+    if (!templates.some((t) => t.applicableTypes.includes(slideType))) {
       throw new Error(`No templates available for slide type: ${slideType}`);
     }
     
     // Verify default template exists
     const defaultId = DEFAULT_TEMPLATE_BY_TYPE[slideType];
-    const defaultTemplate = TEMPLATES.find((t) => t.id === defaultId);
+    const defaultTemplate = templates.find((t) => t.id === defaultId);
     if (!defaultTemplate) {
       throw new Error(
         `Default template "${defaultId}" for slide type "${slideType}" not found`
@@ -256,6 +718,67 @@ export function validateTemplateConfiguration(): void {
   }
 }
 
+/**
+ * First problem with one template in a configuration: schema issues, a
+ * reused ID (the first template keeps it) or orientation issues.
+ */
+function findTemplateError(
+  templates: readonly Template[],
+  template: Template
+): TemplateValidationError | null {
+  const source = `Template "${template.id}"`;
+  const schemaIssues = validateTemplateDocument(template);
+  if (schemaIssues.length > 0) {
+    return new TemplateValidationError(source, schemaIssues);
+  }
+  
+  if (templates.find((t) => t.id === template.id) !== template) {
+    return new TemplateValidationError(source, [{ path: 'id', message: 'is already used by another template' }]);
+  }
+  
+  const orientations: Orientation[] = ['portrait', 'landscape'];
+  const issues = orientations.flatMap((orientation) =>
+    findOrientationIssues(templates, template, orientation)
+  );
+  return issues.length > 0 ? new TemplateValidationError(source, issues) : null;
+}
+
+/**
+ * Issues with rendering a template on targets of an orientation: a
+ * missing, unknown or unsuitable orientation variant.
+ */
+function findOrientationIssues(
+  templates: readonly Template[],
+  template: Template,
+  orientation: Orientation
+): TemplateValidationIssue[] {
+  if (supportsOrientation(template, orientation)) {
+    return [];
+  }
+  
+  const path = `orientationVariants.${orientation}`;
+  const variantId = template.orientationVariants?.[orientation];
+  if (!variantId) {
+    return [{ path, message: `is required: the template does not support ${orientation}` }];
+  }
+  
+  const variant = templates.find((t) => t.id === variantId);
+  if (!variant) {
+    return [{ path, message: `template "${variantId}" not found` }];
+  }
+  if (!supportsOrientation(variant, orientation)) {
+    return [{ path, message: `template "${variantId}" does not support ${orientation}` }];
+  }
+  
+  const missingTypes = template.applicableTypes.filter(
+    (type) => !variant.applicableTypes.includes(type)
+  );
+  if (missingTypes.length > 0) {
+    return [{ path, message: `template "${variantId}" does not apply to: ${missingTypes.join(', ')}` }];
+  }
+  return [];
+}
+
 // ============================================================================
 // Layout Primitive Helpers
 // ============================================================================
@@ -269,18 +792,43 @@ export function getLayoutPrimitive(template: Template): LayoutPrimitive {
 }
 
 /**
- * Check if template uses device frame for screenshot.
+ * Check if a screenshot position uses a device frame.
+ */
+export function shouldApplyDeviceFrame(position: ScreenshotPosition): boolean {
+  return position.applyFrame;
+}
+
+/**
+ * Device frame platform for a screenshot position on a target: the
+ * position's device (phone or tablet) in the target's platform family,
+ * or the target's own platform.
+ */
+export function resolveFramePlatform(position: ScreenshotPosition, platform: DevicePlatform): DevicePlatform {
+  if (!position.device) {
+    return platform;
+  }
+  const apple = platform === 'iPhone' || platform === 'iPad';
+  if (position.device === 'phone') {
+    return apple ? 'iPhone' : 'AndroidPhone';
+  }
+  return apple ? 'iPad' : 'AndroidTablet';
+}
+
+/**
+ * Screenshot fit mode when a template does not set one.
+ */
+export const DEFAULT_SCREENSHOT_FIT: ScreenshotFit = 'contain';
+
+/**
+ * Get how a screenshot position fills its box.
  */
-export function shouldApplyDeviceFrame(template: Template): boolean {
-  return template.screenshotPosition.applyFrame;
+export function getScreenshotFit(position: ScreenshotPosition): ScreenshotFit {
+  return position.fit ?? DEFAULT_SCREENSHOT_FIT;
 }
 
 /**
  * Get background configuration for rendering.
  */
-export function getBackgroundConfig(template: Template): {
-  type: 'solid' | 'gradient';
-  colors: string[];
-} {
+export function getBackgroundConfig(template: Template): TemplateBackground {
   return template.background;
 }
\ No newline at end of file
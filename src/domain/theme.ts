@@ -12,6 +12,8 @@
  * - Open/Closed: Can extend with new theme variants without breaking existing code
  */
 
+import { Locale, TextScript } from './types';
+
 // ============================================================================
 // Typography Tokens
 // ============================================================================
@@ -36,6 +38,75 @@ export const FONT_FILES = {
   bold: '/public/fonts/Inter-Bold.ttf',
 } as const;
 
+/**
+ * Fallback font files for scripts Inter does not cover (Noto Sans family).
+ * Each font ships a regular and a bold file; medium maps to regular and
+ * semibold to bold.
+ */
+export const FALLBACK_FONT_FILES = {
+  'noto-sans-arabic': {
+    regular: '/public/fonts/NotoSansArabic-Regular.ttf',
+    bold: '/public/fonts/NotoSansArabic-Bold.ttf',
+  },
+  'noto-sans-hebrew': {
+    regular: '/public/fonts/NotoSansHebrew-Regular.ttf',
+    bold: '/public/fonts/NotoSansHebrew-Bold.ttf',
+  },
+  'noto-sans-thai': {
+    regular: '/public/fonts/NotoSansThai-Regular.ttf',
+    bold: '/public/fonts/NotoSansThai-Bold.ttf',
+  },
+  'noto-sans-devanagari': {
+    regular: '/public/fonts/NotoSansDevanagari-Regular.ttf',
+    bold: '/public/fonts/NotoSansDevanagari-Bold.ttf',
+  },
+  'noto-sans-jp': {
+    regular: '/public/fonts/NotoSansJP-Regular.ttf',
+    bold: '/public/fonts/NotoSansJP-Bold.ttf',
+  },
+  'noto-sans-kr': {
+    regular: '/public/fonts/NotoSansKR-Regular.ttf',
+    bold: '/public/fonts/NotoSansKR-Bold.ttf',
+  },
+  'noto-sans-sc': {
+    regular: '/public/fonts/NotoSansSC-Regular.ttf',
+    bold: '/public/fonts/NotoSansSC-Bold.ttf',
+  },
+  'noto-sans-tc': {
+    regular: '/public/fonts/NotoSansTC-Regular.ttf',
+    bold: '/public/fonts/NotoSansTC-Bold.ttf',
+  },
+} as const;
+
+/**
+ * Fallback font identifier (key of FALLBACK_FONT_FILES).
+ */
+export type FallbackFontId = keyof typeof FALLBACK_FONT_FILES;
+
+/**
+ * Per-script font fallback chains, tried in order after Inter.
+ */
+export const SCRIPT_FONT_FALLBACKS: Record<TextScript, readonly FallbackFontId[]> = {
+  arabic: ['noto-sans-arabic'],
+  hebrew: ['noto-sans-hebrew'],
+  thai: ['noto-sans-thai'],
+  devanagari: ['noto-sans-devanagari'],
+  han: ['noto-sans-sc', 'noto-sans-tc', 'noto-sans-jp', 'noto-sans-kr'],
+  kana: ['noto-sans-jp'],
+  hangul: ['noto-sans-kr'],
+};
+
+/**
+ * Scripts each locale is written in, beyond what Inter covers.
+ * Locales without an entry only need Inter.
+ */
+const LOCALE_SCRIPTS: Partial<Record<Locale, readonly TextScript[]>> = {
+  'ar-SA': ['arabic'],
+  he: ['hebrew'],
+  th: ['thai'],
+  hi: ['devanagari'],
+};
+
 /**
  * Font weights mapped to standard CSS values.
  */
@@ -94,7 +165,8 @@ export const TYPOGRAPHY = {
 
 /**
  * Responsive typography adjustments per device target.
- * iPhone gets slightly smaller text due to narrower canvas.
+ * Phones get slightly smaller text due to narrower canvas;
+ * the 1024x500 Play feature graphic gets much smaller text.
  */
 export const TYPOGRAPHY_RESPONSIVE = {
   iPhone: {
@@ -105,6 +177,45 @@ export const TYPOGRAPHY_RESPONSIVE = {
     headlineScale: 1.0,       // 100% of base size
     subheadlineScale: 1.0,    // 100% of base size
   },
+  AndroidPhone: {
+    headlineScale: 0.75,      // 1080px canvas, narrower than iPhone
+    subheadlineScale: 0.8,
+  },
+  AndroidTablet: {
+    headlineScale: 0.9,
+    subheadlineScale: 0.9,
+  },
+  featureGraphic: {
+    headlineScale: 0.6,
+    subheadlineScale: 0.6,
+  },
+} as const;
+
+/**
+ * Key into TYPOGRAPHY_RESPONSIVE (a device platform or a special asset).
+ */
+export type ResponsiveTypographyKey = keyof typeof TYPOGRAPHY_RESPONSIVE;
+
+/**
+ * Text fitting rules for slide overlays.
+ * Text wraps within the template's text area; if it still needs more than
+ * maxLines, the font shrinks step by step down to minFontScale of its size.
+ */
+export const TEXT_FIT = {
+  headline: {
+    maxLines: 3,
+    minFontScale: 0.6,  // Never below 60% of the responsive size
+  },
+  subheadline: {
+    maxLines: 3,
+    minFontScale: 0.75,
+  },
+  
+  // Font size decrement per fitting attempt (pixels)
+  shrinkStep: 2,
+  
+  // Vertical gap between headline and subheadline blocks (pixels)
+  blockGap: 20,
 } as const;
 
 // ============================================================================
@@ -242,6 +353,27 @@ export const SAFE_MARGINS = {
     bottom: 160,
     left: 80,
   },
+  AndroidPhone: {
+    top: 100,
+    right: 50,
+    bottom: 100,
+    left: 50,
+  },
+  AndroidTablet: {
+    top: 110,
+    right: 60,
+    bottom: 110,
+    left: 60,
+  },
+} as const;
+
+/**
+ * Spacing between layout regions on rendered slides (pixels).
+ */
+export const LAYOUT_SPACING = {
+  textToScreenshot: SPACING[16],  // 64px below text before the screenshot
+  splitGutter: SPACING[12],       // 48px between split columns
+  scrimPadding: SPACING[32],      // 128px of scrim above and below overlay text
 } as const;
 
 /**
@@ -279,6 +411,16 @@ export const SHADOWS = {
   device: '0 25px 50px rgba(0, 0, 0, 0.25)',
 } as const;
 
+/**
+ * Scrim behind text overlaying a screenshot (hero layout).
+ * A full-width band in the color opposite the text, fading out at its
+ * top and bottom edges.
+ */
+export const TEXT_SCRIM = {
+  opacity: 0.6,   // Opacity across the text
+  fade: 0.4,      // Share of the band's height faded at each edge
+} as const;
+
 // ============================================================================
 // Border Radius Tokens
 // ============================================================================
@@ -297,6 +439,132 @@ export const BORDER_RADIUS = {
   full: 9999,
 } as const;
 
+// ============================================================================
+// Device Frame Tokens
+// ============================================================================
+
+/**
+ * Width (pixels) of the device mockup that SHADOWS.device and BORDER_RADIUS
+ * values are authored for. Frames scale these tokens by
+ * (rendered screen width / reference width).
+ */
+export const DEVICE_FRAME_REFERENCE_WIDTH = 400;
+
+/**
+ * Vector device frame geometry.
+ * Fractions are relative to the screen width unless noted.
+ */
+export interface DeviceFrameSpec {
+  /** Bezel thickness */
+  bezel: number;
+  
+  /** Screen corner radius (BORDER_RADIUS token, reference pixels) */
+  screenRadius: number;
+  
+  bodyColor: string;
+  rimColor: string;
+  buttonColor: string;
+  
+  /** How far buttons protrude from the body */
+  buttonDepth: number;
+  
+  /** Camera cutout; negative `top` places it in the bezel above the screen */
+  cutout: {
+    type: 'dynamic-island' | 'notch' | 'camera';
+    width: number;
+    height: number;
+    top: number;
+  };
+  
+  /** Hardware buttons; position/length are fractions of body height (top: width) */
+  buttons: readonly {
+    side: 'left' | 'right' | 'top';
+    position: number;
+    length: number;
+  }[];
+}
+
+/**
+ * Vector device frame geometry per platform.
+ */
+export const DEVICE_FRAMES: Record<'iPhone' | 'iPad' | 'AndroidPhone' | 'AndroidTablet', DeviceFrameSpec> = {
+  iPhone: {
+    bezel: 0.035,
+    screenRadius: BORDER_RADIUS['3xl'],
+    bodyColor: '#1c1c1e',
+    rimColor: '#48484a',
+    buttonColor: '#2c2c2e',
+    buttonDepth: 0.008,
+    cutout: {
+      type: 'dynamic-island',
+      width: 0.3,
+      height: 0.085,
+      top: 0.03,
+    },
+    buttons: [
+      { side: 'left', position: 0.17, length: 0.045 },   // Action button
+      { side: 'left', position: 0.245, length: 0.085 },  // Volume up
+      { side: 'left', position: 0.35, length: 0.085 },   // Volume down
+      { side: 'right', position: 0.28, length: 0.13 },   // Side button
+    ],
+  },
+  iPad: {
+    bezel: 0.045,
+    screenRadius: BORDER_RADIUS['2xl'],
+    bodyColor: '#1c1c1e',
+    rimColor: '#48484a',
+    buttonColor: '#2c2c2e',
+    buttonDepth: 0.005,
+    cutout: {
+      type: 'camera',
+      width: 0.012,
+      height: 0.012,
+      top: -0.0225, // Centered in the top bezel
+    },
+    buttons: [
+      { side: 'top', position: 0.8, length: 0.08 },      // Top button (fraction of body width)
+      { side: 'right', position: 0.08, length: 0.05 },   // Volume up
+      { side: 'right', position: 0.14, length: 0.05 },   // Volume down
+    ],
+  },
+  AndroidPhone: {
+    bezel: 0.025,
+    screenRadius: BORDER_RADIUS['2xl'],
+    bodyColor: '#202124',
+    rimColor: '#5f6368',
+    buttonColor: '#3c4043',
+    buttonDepth: 0.007,
+    cutout: {
+      type: 'camera', // Punch-hole camera inside the screen
+      width: 0.035,
+      height: 0.035,
+      top: 0.022,
+    },
+    buttons: [
+      { side: 'right', position: 0.2, length: 0.07 },    // Power
+      { side: 'right', position: 0.3, length: 0.12 },    // Volume rocker
+    ],
+  },
+  AndroidTablet: {
+    bezel: 0.04,
+    screenRadius: BORDER_RADIUS.xl,
+    bodyColor: '#202124',
+    rimColor: '#5f6368',
+    buttonColor: '#3c4043',
+    buttonDepth: 0.005,
+    cutout: {
+      type: 'camera',
+      width: 0.012,
+      height: 0.012,
+      top: -0.02, // Centered in the top bezel
+    },
+    buttons: [
+      { side: 'top', position: 0.15, length: 0.07 },     // Power (fraction of body width)
+      { side: 'right', position: 0.1, length: 0.08 },    // Volume rocker
+    ],
+  },
+};
+
 // ============================================================================
 // Theme Composition
 // ============================================================================
@@ -308,17 +576,23 @@ export const BORDER_RADIUS = {
 export const THEME = {
   fonts: FONT_FAMILY,
   fontFiles: FONT_FILES,
+  fallbackFontFiles: FALLBACK_FONT_FILES,
+  scriptFontFallbacks: SCRIPT_FONT_FALLBACKS,
   fontWeights: FONT_WEIGHTS,
   typography: TYPOGRAPHY,
   typographyResponsive: TYPOGRAPHY_RESPONSIVE,
+  textFit: TEXT_FIT,
   colors: COLORS,
   textColors: TEXT_COLORS,
   backgroundColors: BACKGROUND_COLORS,
   spacing: SPACING,
   safeMargins: SAFE_MARGINS,
+  layoutSpacing: LAYOUT_SPACING,
   contentPadding: CONTENT_PADDING,
   shadows: SHADOWS,
+  textScrim: TEXT_SCRIM,
   borderRadius: BORDER_RADIUS,
+  deviceFrames: DEVICE_FRAMES,
 } as const;
 
 // ============================================================================
@@ -350,7 +624,7 @@ export type TypographyStyle = typeof TYPOGRAPHY[keyof typeof TYPOGRAPHY];
  */
 export function getResponsiveFontSize(
   baseSize: number,
-  devicePlatform: 'iPhone' | 'iPad',
+  devicePlatform: ResponsiveTypographyKey,
   textType: 'headline' | 'subheadline' = 'headline'
 ): number {
   const scale = TYPOGRAPHY_RESPONSIVE[devicePlatform][
@@ -359,6 +633,20 @@ export function getResponsiveFontSize(
   return Math.round(baseSize * scale);
 }
 
+/**
+ * Get the fallback font chain for a script.
+ */
+export function getScriptFontFallbacks(script: TextScript): FallbackFontId[] {
+  return [...SCRIPT_FONT_FALLBACKS[script]];
+}
+
+/**
+ * Get the scripts a locale's text needs fallback fonts for.
+ */
+export function getLocaleScripts(locale: Locale): TextScript[] {
+  return [...(LOCALE_SCRIPTS[locale] ?? [])];
+}
+
 /**
  * Parse hex color to RGB components (for Sharp rendering).
  */
@@ -390,3 +678,93 @@ export function getBrandColor(userColor?: string): string {
   }
   return COLORS.primary[500];
 }
+
+/**
+ * Pick a readable primary text color for a background color.
+ * Light backgrounds get dark text; dark and saturated backgrounds get white.
+ */
+export function getTextColorForBackground(backgroundHex: string): string {
+  const { r, g, b } = hexToRgb(backgroundHex);
+  // Perceived brightness (ITU-R BT.601), 0-255
+  const brightness = 0.299 * r + 0.587 * g + 0.114 * b;
+  return brightness > 186 ? TEXT_COLORS.light.primary : TEXT_COLORS.overlay.primary;
+}
+
+/**
+ * Convert RGB components back to a lowercase hex color.
+ */
+export function rgbToHex(rgb: { r: number; g: number; b: number }): string {
+  const toHex = (value: number) =>
+    Math.max(0, Math.min(255, Math.round(value))).toString(16).padStart(2, '0');
+  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
+}
+
+/**
+ * Linearly mix two hex colors.
+ * amount = 0 returns `from`, amount = 1 returns `to`.
+ */
+export function mixHexColors(from: string, to: string, amount: number): string {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  return rgbToHex({
+    r: a.r + (b.r - a.r) * amount,
+    g: a.g + (b.g - a.g) * amount,
+    b: a.b + (b.b - a.b) * amount,
+  });
+}
+
+/**
+ * How far each palette shade sits from the 500 base color.
+ * Positive values mix toward white, negative values toward black.
+ */
+const BRAND_SHADE_MIX: Record<keyof typeof COLORS.primary, number> = {
+  50: 0.9,
+  100: 0.8,
+  200: 0.6,
+  300: 0.4,
+  400: 0.2,
+  500: 0,
+  600: -0.15,
+  700: -0.3,
+  800: -0.45,
+  900: -0.6,
+};
+
+/**
+ * Derive a palette shade (50-900) from a brand color.
+ * The brand color itself is treated as shade 500.
+ */
+export function getBrandShade(
+  brandColor: string,
+  shade: keyof typeof COLORS.primary
+): string {
+  const mix = BRAND_SHADE_MIX[shade];
+  if (mix === 0) {
+    return brandColor.toLowerCase();
+  }
+  return mix > 0
+    ? mixHexColors(brandColor, COLORS.white, mix)
+    : mixHexColors(brandColor, COLORS.black, -mix);
+}
+
+/**
+ * Substitute a brand color into a list of color stops.
+ * 
+ * Stops taken from the default primary palette are replaced with the
+ * matching shade of the brand color; all other stops are kept as-is,
+ * so a gradient keeps its shape and only changes hue.
+ */
+export function substituteBrandColor(colors: readonly string[], brandColor?: string): string[] {
+  if (!brandColor || !isValidHexColor(brandColor)) {
+    return [...colors];
+  }
+  
+  const shades = Object.keys(COLORS.primary).map(
+    (key) => Number(key) as keyof typeof COLORS.primary
+  );
+  
+  return colors.map((color) => {
+    const shade = shades.find((key) => COLORS.primary[key].toLowerCase() === color.toLowerCase());
+    return shade !== undefined ? getBrandShade(brandColor, shade) : color;
+  });
+}
@@ -16,14 +16,40 @@
 
 /**
  * Supported locales for screenshot copy generation.
- * MVP: en-US only, but structure allows easy addition of new locales.
+ * Values are App Store Connect locale codes (also used as export folder names).
  */
-export type Locale = 'en-US';
+export type Locale =
+  | 'en-US'
+  | 'de-DE'
+  | 'fr-FR'
+  | 'es-ES'
+  | 'es-MX'
+  | 'it'
+  | 'pt-BR'
+  | 'nl-NL'
+  | 'ru'
+  | 'ar-SA'
+  | 'he'
+  | 'th'
+  | 'hi';
 
 /**
- * Future locales can be added without changing core logic:
- * export type Locale = 'en-US' | 'es-ES' | 'fr-FR' | 'de-DE';
+ * Writing direction of a locale's text.
  */
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Writing systems that need fonts (and shaping) beyond the primary Inter font.
+ * Latin, Greek and Cyrillic are covered by Inter and have no entry.
+ */
+export type TextScript =
+  | 'arabic'
+  | 'hebrew'
+  | 'thai'
+  | 'devanagari'
+  | 'han'
+  | 'kana'
+  | 'hangul';
 
 // ============================================================================
 // Device Target Types
@@ -31,12 +57,25 @@ export type Locale = 'en-US';
 
 /**
  * Device platform type for screenshot exports.
+ * Selects device frames and responsive typography.
+ */
+export type DevicePlatform = 'iPhone' | 'iPad' | 'AndroidPhone' | 'AndroidTablet';
+
+/**
+ * Store listing a device target is exported for.
  */
-export type DevicePlatform = 'iPhone' | 'iPad';
+export type Store = 'app-store' | 'google-play';
+
+/**
+ * Kind of store asset a target produces.
+ * - screenshot: one image per slide
+ * - feature-graphic: a single Google Play banner (1024x500)
+ */
+export type TargetKind = 'screenshot' | 'feature-graphic';
 
 /**
  * Orientation for screenshot rendering.
- * MVP: portrait only, but structure allows landscape.
+ * Every screenshot target has a portrait and a landscape variant.
  */
 export type Orientation = 'portrait' | 'landscape';
 
@@ -52,6 +91,12 @@ export interface DeviceTarget {
   /** Platform type */
   readonly platform: DevicePlatform;
   
+  /** Store the target is exported for */
+  readonly store: Store;
+  
+  /** Asset kind */
+  readonly kind: TargetKind;
+  
   /** Display name for UI */
   readonly displayName: string;
   
@@ -82,9 +127,9 @@ export interface DeviceTarget {
  * Determines which template is used for rendering.
  */
 export type SlideType = 
-  | 'hero'      // Slide 1: Core promise
-  | 'feature'   // Slides 2-4: Value bullets
-  | 'closing';  // Slide 5: CTA/closing
+  | 'hero'      // First slide: Core promise
+  | 'feature'   // Middle slides: One value bullet each
+  | 'closing';  // Last slide: CTA/closing
 
 /**
  * Text content for a slide.
@@ -101,6 +146,24 @@ export interface SlideText {
   locale: Locale;
 }
 
+/**
+ * How a slide was generated (informational; not used for rendering).
+ */
+export interface SlideMetadata {
+  /** Copy generator that wrote the text, per locale */
+  copyGenerators: Partial<Record<Locale, string>>;
+}
+
+/**
+ * Rectangle of a source screenshot to show, in source image pixels.
+ */
+export interface ScreenshotCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 /**
  * Screenshot reference for a slide.
  * References user-uploaded screenshots by ID.
@@ -112,13 +175,14 @@ export interface SlideScreenshot {
   /** Original filename for reference */
   originalFilename: string;
   
-  /** Optional crop/positioning hints (future enhancement) */
-  crop?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
+  /**
+   * UI strings recognized in the screenshot (see UploadedScreenshot).
+   * Kept so compliance checks can verify that copy references visible features.
+   */
+  recognizedText?: string[];
+  
+  /** Optional crop of the source screenshot, applied before it is scaled into the layout */
+  crop?: ScreenshotCrop;
 }
 
 /**
@@ -126,7 +190,7 @@ export interface SlideScreenshot {
  * Combines text content, screenshot assignment, and template selection.
  */
 export interface Slide {
-  /** Unique slide identifier (1-indexed: 1, 2, 3, 4, 5) */
+  /** Unique slide identifier (1-indexed, in slide order) */
   readonly id: number;
   
   /** Type determines template and positioning */
@@ -135,26 +199,54 @@ export interface Slide {
   /** Text content (generated or user-edited) */
   text: SlideText;
   
-  /** Screenshot assignment */
+  /** Value bullet the copy was generated from (feature slides) */
+  valueBullet?: string;
+  
+  /** Screenshot assignment (the first device of multi-device templates) */
   screenshot: SlideScreenshot;
   
+  /**
+   * Screenshots for the template's further devices, in position order.
+   * Positions without a screenshot of their own repeat the slide's
+   * screenshots in order.
+   */
+  additionalScreenshots?: SlideScreenshot[];
+  
   /** Template ID to use for rendering */
   templateId: string;
+  
+  /**
+   * Text for additional locales, keyed by locale.
+   * `text` holds the storyboard's primary locale.
+   */
+  localizedText?: Partial<Record<Locale, SlideText>>;
+  
+  /** Generation details */
+  metadata?: SlideMetadata;
 }
 
 /**
- * Complete storyboard of 5 slides.
- * Represents the full screenshot set for one locale.
+ * Complete storyboard of 1-10 slides.
+ * Represents the full screenshot set for one or more locales.
  */
 export interface Storyboard {
   /** App name */
   readonly appName: string;
   
-  /** Target locale */
+  /** Primary locale (the locale of each slide's `text`) */
   readonly locale: Locale;
   
-  /** Exactly 5 slides */
-  readonly slides: readonly [Slide, Slide, Slide, Slide, Slide];
+  /**
+   * Every locale the storyboard has text for, primary first.
+   * Omitted for single-locale storyboards.
+   */
+  readonly locales?: readonly Locale[];
+  
+  /** 1-10 slides, numbered 1..n in order */
+  readonly slides: readonly Slide[];
+  
+  /** Runs of consecutive slides rendered as one wide canvas (see SlidePanorama) */
+  readonly panoramas?: readonly SlidePanorama[];
   
   /** Timestamp of generation (ISO 8601 string for determinism) */
   readonly createdAt: string;
@@ -163,6 +255,20 @@ export interface Storyboard {
   readonly version: '1.0';
 }
 
+/**
+ * Consecutive slides rendered as one wide canvas, then sliced into one
+ * image per slide. The first slide's template background spans the whole
+ * canvas, and screenshots shifted past a slide's edge (see
+ * `ScreenshotPosition.horizontalOffset`) continue on the next slide.
+ */
+export interface SlidePanorama {
+  /** ID of the first slide */
+  readonly startSlideId: number;
+  
+  /** Number of slides (2 or more) */
+  readonly slideCount: number;
+}
+
 // ============================================================================
 // Template Types
 // ============================================================================
@@ -174,7 +280,7 @@ export interface Storyboard {
 export type LayoutPrimitive = 
   | 'stack'   // Vertical stack (text above screenshot)
   | 'split'   // Side-by-side or asymmetric split
-  | 'hero';   // Full-screen with overlay
+  | 'hero';   // Text overlaying the screenshot, on a scrim
 
 /**
  * Text positioning configuration.
@@ -202,6 +308,78 @@ export interface ScreenshotPosition {
   
   /** Whether to apply device frame/shadow */
   applyFrame: boolean;
+  
+  /** How the screenshot fills its box (default: contain) */
+  fit?: ScreenshotFit;
+  
+  /**
+   * Horizontal shift (percentage of canvas width, may be negative).
+   * In a panorama, a screenshot shifted past the slide edge crosses the
+   * seam into the neighbouring slide; elsewhere the overflow is clipped.
+   */
+  horizontalOffset?: number;
+  
+  /** Vertical shift (percentage of canvas height, may be negative) */
+  verticalOffset?: number;
+  
+  /** Size multiplier around the box center, after fitting (default: 1) */
+  scale?: number;
+  
+  /** Clockwise rotation in degrees, frame included (default: 0) */
+  rotation?: number;
+  
+  /** Paint order; higher is drawn on top (default: position order) */
+  zIndex?: number;
+  
+  /** Device frame to draw, in the target's platform family (default: the target's device) */
+  device?: 'phone' | 'tablet';
+  
+  /**
+   * Maximum height (percentage of safe area height, 0-100).
+   * Default: down to the bottom of the safe area. Ignored by bleed.
+   */
+  maxHeight?: number;
+}
+
+/**
+ * How a screenshot fills the space below its vertical position.
+ */
+export type ScreenshotFit =
+  | 'contain' // Whole screenshot, narrowed if needed to end inside the safe area
+  | 'cover'   // Full width, cut to the available height (top of the screen shown)
+  | 'bleed';  // Full width, runs off the bottom edge of the canvas
+
+/**
+ * Gradient geometry for gradient backgrounds.
+ */
+export interface GradientConfig {
+  /** Linear (along an angle) or radial (from a center point) */
+  kind: 'linear' | 'radial';
+  
+  /** Angle in degrees for linear gradients (CSS convention: 0 = to top, 90 = to right) */
+  angle?: number;
+  
+  /** Center for radial gradients (percentages of canvas, 0-100) */
+  center?: {
+    x: number;
+    y: number;
+  };
+  
+  /** Stop offsets (0-100), one per color. Evenly distributed when omitted. */
+  stops?: number[];
+}
+
+/**
+ * Background configuration for a template.
+ */
+export interface TemplateBackground {
+  type: 'solid' | 'gradient';
+  
+  /** Hex colors (one for solid, two or more color stops for gradient) */
+  colors: string[];
+  
+  /** Gradient geometry (defaults to a top-to-bottom linear gradient) */
+  gradient?: GradientConfig;
 }
 
 /**
@@ -220,20 +398,42 @@ export interface Template {
   /** Layout primitive this template uses */
   readonly layout: LayoutPrimitive;
   
+  /** Mirror the layout horizontally (split: screenshot left, text right) */
+  readonly mirrored?: boolean;
+  
+  /** Canvas orientations this template is designed for */
+  readonly supportedOrientations: readonly Orientation[];
+  
+  /**
+   * Template IDs to use instead on targets of an unsupported orientation
+   * (e.g., stack -> stack-landscape on landscape targets).
+   */
+  readonly orientationVariants?: Partial<Record<Orientation, string>>;
+  
   /** Applicable slide types */
   readonly applicableTypes: SlideType[];
   
   /** Text positioning rules */
   readonly textPosition: TextPosition;
   
-  /** Screenshot positioning rules */
-  readonly screenshotPosition: ScreenshotPosition;
+  /**
+   * Screenshot positioning rules, one per device (1-3).
+   * The first is the slide's `screenshot`; the rest take its
+   * `additionalScreenshots`.
+   */
+  readonly screenshotPositions: readonly ScreenshotPosition[];
   
   /** Background style */
-  readonly background: {
-    type: 'solid' | 'gradient';
-    colors: string[]; // Hex colors
-  };
+  readonly background: TemplateBackground;
+}
+
+/**
+ * A problem found when validating a template (see TEMPLATE_SCHEMA).
+ */
+export interface TemplateValidationIssue {
+  /** Where in the template, e.g. "screenshotPositions[1].rotation" ("" for the template itself) */
+  path: string;
+  message: string;
 }
 
 // ============================================================================
@@ -251,9 +451,21 @@ export interface StoryboardInput {
   /** 3-6 value bullets (required) */
   valueBullets: string[];
   
-  /** Uploaded screenshots (5-10 required) */
+  /** Uploaded screenshots (one per slide, up to 10) */
   screenshots: UploadedScreenshot[];
   
+  /**
+   * Number of slides (1-10).
+   * Default: hero, one feature per value bullet, closing.
+   */
+  slideCount?: number;
+  
+  /**
+   * Accept fewer screenshots than slides: slides without a screenshot of
+   * their own reuse the best-matching one, or screenshot #1 (default: false).
+   */
+  allowScreenshotReuse?: boolean;
+  
   /** Optional brand color (hex) */
   brandColor?: string;
   
@@ -262,6 +474,29 @@ export interface StoryboardInput {
   
   /** Target locale */
   locale: Locale;
+  
+  /** Additional locales to generate copy for */
+  additionalLocales?: Locale[];
+}
+
+/**
+ * StoryboardInput fields that validation reports errors for.
+ */
+export type StoryboardInputField =
+  | 'appName'
+  | 'valueBullets'
+  | 'screenshots'
+  | 'slideCount'
+  | 'brandColor'
+  | 'locale'
+  | 'additionalLocales';
+
+/**
+ * A validation error for one input field (for form-level error display).
+ */
+export interface StoryboardInputFieldError {
+  field: StoryboardInputField;
+  message: string;
 }
 
 /**
@@ -282,6 +517,12 @@ export interface UploadedScreenshot {
   
   /** File size in bytes */
   size: number;
+  
+  /**
+   * UI strings recognized in the image (local OCR), in reading order.
+   * Used to match screenshots to value bullets.
+   */
+  recognizedText?: string[];
 }
 
 // ============================================================================
@@ -299,12 +540,19 @@ export interface ExportManifest {
   /** Export timestamp (ISO 8601) */
   exportedAt: string;
   
-  /** Locale */
+  /** Primary locale */
   locale: Locale;
   
+  /** Locales rendered (one folder each), primary first */
+  locales: Locale[];
+  
   /** Device targets included */
   targets: {
+    id: string;
     platform: DevicePlatform;
+    store: Store;
+    kind: TargetKind;
+    orientation: Orientation;
     width: number;
     height: number;
     fileCount: number;
@@ -313,6 +561,9 @@ export interface ExportManifest {
   /** Template IDs used */
   templatesUsed: string[];
   
+  /** Number of slides in the storyboard */
+  slideCount: number;
+  
   /** Slide metadata */
   slides: {
     slideId: number;
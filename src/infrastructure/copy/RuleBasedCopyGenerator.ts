@@ -0,0 +1,131 @@
+/**
+ * RuleBasedCopyGenerator
+ *
+ * Offline ICopyGenerator that fills phrase patterns with the app name
+ * and value bullet. Needs no network or API key, so it works in CI,
+ * air-gapped environments and as the fallback when an LLM is down.
+ *
+ * Pattern choice is a stable hash of the input: different apps get
+ * different phrasing, but the same input always produces the same copy.
+ *
+ * Design Principles:
+ * - Deterministic: No randomness, clock or external state
+ * - Never Unavailable: Always returns copy within the domain limits
+ */
+
+import {
+  Locale,
+  HEADLINE_MAX_LENGTH,
+  SUBHEADLINE_MAX_LENGTH,
+  truncateCopy,
+} from '@/domain';
+import {
+  ICopyGenerator,
+  CopyGenerationInput,
+  GeneratedCopy,
+  DEFAULT_COPY_TONE,
+} from '@/application/interfaces';
+import { getSlidePhrases } from './copyPhrases';
+
+/** Model name reported in copy metadata */
+export const RULE_BASED_COPY_MODEL = 'rule-based';
+
+/**
+ * Template-driven copy generator.
+ */
+export class RuleBasedCopyGenerator implements ICopyGenerator {
+  /**
+   * Generate headline and subheadline for a slide.
+   */
+  async generateCopy(input: CopyGenerationInput): Promise<GeneratedCopy> {
+    const tone = input.brandContext?.tone ?? DEFAULT_COPY_TONE;
+    const phrases = getSlidePhrases(input.locale, tone)[input.slideType];
+    const values = {
+      app: input.appName.trim(),
+      bullet: input.valueBullet ? cleanBullet(input.valueBullet, input.locale) : '',
+    };
+    const seed = [input.appName, input.valueBullet ?? '', input.slideType, input.locale, tone].join('\u0000');
+
+    const headline = choosePhrase(phrases.headlines, values, HEADLINE_MAX_LENGTH, `${seed}\u0000headline`)
+      ?? truncateCopy(values.app, HEADLINE_MAX_LENGTH);
+    const subheadline = choosePhrase(phrases.subheadlines, values, SUBHEADLINE_MAX_LENGTH, `${seed}\u0000subheadline`)
+      ?? { text: '', truncated: false };
+
+    return {
+      headline: headline.text,
+      subheadline: subheadline.text,
+      locale: input.locale,
+      metadata: {
+        model: RULE_BASED_COPY_MODEL,
+        truncated: headline.truncated || subheadline.truncated,
+      },
+    };
+  }
+
+  /**
+   * Always available (no external dependencies).
+   */
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Get name of this generator.
+   */
+  getName(): string {
+    return RULE_BASED_COPY_MODEL;
+  }
+}
+
+// ============================================================================
+// Pattern Selection
+// ============================================================================
+
+/**
+ * Fill patterns and pick one that fits the limit.
+ * Falls back to the first usable pattern, truncated, when none fits.
+ * Returns null when no pattern is usable (e.g. all need a bullet).
+ */
+function choosePhrase(
+  patterns: readonly string[],
+  values: { app: string; bullet: string },
+  maxLength: number,
+  seed: string
+): { text: string; truncated: boolean } | null {
+  const filled = patterns
+    .filter((pattern) => values.bullet || !pattern.includes('{bullet}'))
+    .map((pattern) => pattern.replace(/\{app\}/g, values.app).replace(/\{bullet\}/g, values.bullet).trim())
+    .filter((text) => text.length > 0);
+
+  if (filled.length === 0) {
+    return null;
+  }
+
+  const fitting = filled.filter((text) => text.length <= maxLength);
+  if (fitting.length > 0) {
+    return { text: fitting[hashString(seed) % fitting.length], truncated: false };
+  }
+
+  return truncateCopy(filled[0], maxLength);
+}
+
+/**
+ * Normalize a value bullet for display: collapse whitespace, drop
+ * trailing sentence punctuation and capitalize the first letter.
+ */
+function cleanBullet(bullet: string, locale: Locale): string {
+  const text = bullet.replace(/\s+/g, ' ').trim().replace(/[.!;。！؛]+$/u, '');
+  return text.charAt(0).toLocaleUpperCase(locale) + text.slice(1);
+}
+
+/**
+ * 32-bit FNV-1a hash (stable across runs and platforms).
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,110 @@
+/**
+ * Rule-based copy: same input, same copy; phrasing varies by app and
+ * always fits the domain limits.
+ */
+
+import { HEADLINE_MAX_LENGTH, SUBHEADLINE_MAX_LENGTH } from '@/domain';
+import { CopyGenerationInput } from '@/application/interfaces';
+import { ENGLISH_PHRASES } from '../copyPhrases';
+import { RuleBasedCopyGenerator, RULE_BASED_COPY_MODEL } from '../RuleBasedCopyGenerator';
+
+function input(overrides: Partial<CopyGenerationInput> = {}): CopyGenerationInput {
+  return {
+    appName: 'Trailmate',
+    valueBullet: 'Offline maps',
+    slideType: 'hero',
+    locale: 'en-US',
+    ...overrides,
+  };
+}
+
+const APP_NAMES = ['Trailmate', 'Budgetly', 'Sprout', 'Quill', 'Harbor', 'Tempo', 'Pebble', 'Lumen'];
+
+describe('RuleBasedCopyGenerator', () => {
+  const generator = new RuleBasedCopyGenerator();
+
+  describe('determinism', () => {
+    it('returns the same copy for the same input across calls and instances', async () => {
+      for (const slideType of ['hero', 'feature', 'closing'] as const) {
+        const first = await generator.generateCopy(input({ slideType }));
+
+        await generator.generateCopy(input({ slideType, appName: 'Budgetly' }));
+
+        expect(await generator.generateCopy(input({ slideType }))).toEqual(first);
+        expect(await new RuleBasedCopyGenerator().generateCopy(input({ slideType }))).toEqual(first);
+      }
+    });
+
+    it('does not depend on the clock or Math.random', async () => {
+      const expected = await generator.generateCopy(input());
+      const random = jest.spyOn(Math, 'random').mockReturnValue(0.99);
+      jest.useFakeTimers({ now: new Date('2030-06-01T00:00:00Z') });
+
+      try {
+        expect(await generator.generateCopy(input())).toEqual(expected);
+      } finally {
+        jest.useRealTimers();
+        random.mockRestore();
+      }
+    });
+
+    it('varies the phrasing between apps, always from the tone patterns', async () => {
+      const headlines = new Set<string>();
+      for (const appName of APP_NAMES) {
+        const copy = await generator.generateCopy(input({ appName }));
+        const patterns = ENGLISH_PHRASES.professional.hero.headlines.map((pattern) =>
+          pattern.replace('{app}', appName)
+        );
+
+        expect(patterns).toContain(copy.headline);
+        headlines.add(copy.headline.replace(appName, '{app}'));
+      }
+
+      expect(headlines.size).toBeGreaterThan(1);
+    });
+  });
+
+  describe('copy', () => {
+    it('uses the cleaned value bullet as the feature headline', async () => {
+      const copy = await generator.generateCopy(input({ slideType: 'feature', valueBullet: '  offline   maps. ' }));
+
+      expect(copy).toMatchObject({
+        headline: 'Offline maps',
+        locale: 'en-US',
+        metadata: { model: RULE_BASED_COPY_MODEL, truncated: false },
+      });
+    });
+
+    it('skips bullet patterns when there is no value bullet', async () => {
+      for (const appName of APP_NAMES) {
+        const copy = await generator.generateCopy(input({ appName, valueBullet: undefined }));
+
+        expect(copy.headline).toContain(appName);
+        expect(copy.subheadline).not.toBe('');
+        expect(copy.subheadline).not.toContain('{bullet}');
+      }
+    });
+
+    it('truncates a long bullet to the headline limit and flags it', async () => {
+      const copy = await generator.generateCopy(
+        input({ slideType: 'feature', valueBullet: 'Plan every trail offline with maps and alerts' })
+      );
+
+      expect(copy.headline).toBe('Plan every trail offline with');
+      expect(copy.metadata?.truncated).toBe(true);
+    });
+
+    it('keeps every tone and slide type within the limits', async () => {
+      for (const tone of ['professional', 'casual', 'playful'] as const) {
+        for (const slideType of ['hero', 'feature', 'closing'] as const) {
+          const copy = await generator.generateCopy(
+            input({ slideType, appName: 'A Rather Long Productivity App', brandContext: { tone } })
+          );
+
+          expect(copy.headline.length).toBeLessThanOrEqual(HEADLINE_MAX_LENGTH);
+          expect(copy.subheadline.length).toBeLessThanOrEqual(SUBHEADLINE_MAX_LENGTH);
+        }
+      }
+    });
+  });
+});
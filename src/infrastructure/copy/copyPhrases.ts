@@ -0,0 +1,130 @@
+/**
+ * Copy Phrases
+ *
+ * Phrase patterns for rule-based copy generation, per SlideType.
+ * English has patterns per tone; other locales have one neutral
+ * pattern set, since tone variants need native copywriters.
+ *
+ * Placeholders:
+ * - {app}: App name
+ * - {bullet}: Value bullet (patterns using it are skipped without one)
+ *
+ * Design Principles:
+ * - Data-Driven: Adding a phrase or locale is a table edit, not new logic
+ * - Order Matters: The first pattern is used (truncated) when none fits
+ */
+
+import { Locale, SlideType } from '@/domain';
+import { CopyTone } from '@/application/interfaces';
+
+/**
+ * Candidate patterns for one slide type.
+ */
+export interface PhrasePatterns {
+  readonly headlines: readonly string[];
+  readonly subheadlines: readonly string[];
+}
+
+/**
+ * Patterns for every slide type.
+ */
+export type SlidePhrases = Record<SlideType, PhrasePatterns>;
+
+// ============================================================================
+// English (per tone)
+// ============================================================================
+
+/**
+ * English patterns per tone.
+ */
+export const ENGLISH_PHRASES: Record<CopyTone, SlidePhrases> = {
+  professional: {
+    hero: {
+      headlines: ['Meet {app}', 'Welcome to {app}', '{app}'],
+      subheadlines: ['{bullet}', 'Everything you need, in one app', 'Designed to make every day simpler'],
+    },
+    feature: {
+      headlines: ['{bullet}'],
+      subheadlines: ['Built into {app}', 'Available in {app}', 'Part of every {app} account'],
+    },
+    closing: {
+      headlines: ['Get started with {app}', 'Start with {app} today', 'Made for every day'],
+      subheadlines: ['Everything in one place, ready when you are', '{bullet}', 'Set up in minutes'],
+    },
+  },
+  casual: {
+    hero: {
+      headlines: ['Say hi to {app}', 'Meet {app}', 'This is {app}'],
+      subheadlines: ['{bullet}', 'Your new everyday favorite', 'Less hassle, more done'],
+    },
+    feature: {
+      headlines: ['{bullet}'],
+      subheadlines: ['Right there in {app}', 'Just open {app}', 'All in {app}'],
+    },
+    closing: {
+      headlines: ['Give {app} a try', 'Ready when you are', 'Your turn'],
+      subheadlines: ['Open {app} and take it from there', '{bullet}', 'It only takes a minute to start'],
+    },
+  },
+  playful: {
+    hero: {
+      headlines: ['Hello, {app}!', 'Say hello to {app}', 'Psst… meet {app}'],
+      subheadlines: ['{bullet}', 'Your days just got more fun', 'Small app, big difference'],
+    },
+    feature: {
+      headlines: ['{bullet}'],
+      subheadlines: ['One more reason to love {app}', '{app} has you covered', 'Yep, {app} does that too'],
+    },
+    closing: {
+      headlines: ["Let's go!", 'Your turn to try {app}', 'Ready, set, {app}'],
+      subheadlines: ['Your next favorite app is one tap away', '{bullet}', 'Jump in, the fun starts now'],
+    },
+  },
+};
+
+// ============================================================================
+// Other Locales (neutral tone)
+// ============================================================================
+
+/**
+ * Neutral patterns for locales other than en-US.
+ */
+export const LOCALIZED_PHRASES: Record<Exclude<Locale, 'en-US'>, SlidePhrases> = {
+  'de-DE': localized('Alles, was du brauchst, in einer App', 'Direkt in {app}', 'Jetzt mit {app} starten', 'Bereit, wenn du es bist'),
+  'fr-FR': localized("Tout ce qu'il vous faut, dans une seule app", 'Intégré à {app}', 'Lancez-vous avec {app}', "Prêt quand vous l'êtes"),
+  'es-ES': localized('Todo lo que necesitas en una sola app', 'Integrado en {app}', 'Empieza con {app}', 'Listo cuando tú lo estés'),
+  'es-MX': localized('Todo lo que necesitas en una sola app', 'Integrado en {app}', 'Empieza con {app}', 'Listo cuando tú lo estés'),
+  it: localized("Tutto ciò che ti serve in un'unica app", 'Integrato in {app}', 'Inizia con {app}', 'Pronto quando lo sei tu'),
+  'pt-BR': localized('Tudo o que você precisa em um só app', 'Integrado ao {app}', 'Comece com o {app}', 'Pronto quando você estiver'),
+  'nl-NL': localized('Alles wat je nodig hebt in één app', 'Ingebouwd in {app}', 'Begin met {app}', 'Klaar wanneer jij dat bent'),
+  ru: localized('Всё необходимое в одном приложении', 'Встроено в {app}', 'Начните с {app}', 'Всё готово — начните сегодня'),
+  'ar-SA': localized('كل ما تحتاجه في تطبيق واحد', 'مدمج في {app}', 'ابدأ مع {app}', 'جاهز متى كنت جاهزًا'),
+  he: localized('כל מה שצריך באפליקציה אחת', 'מובנה ב-{app}', 'התחילו עם {app}', 'מוכן כשאתם מוכנים'),
+  th: localized('ทุกสิ่งที่คุณต้องการในแอปเดียว', 'มีใน {app}', 'เริ่มต้นกับ {app}', 'พร้อมเมื่อคุณพร้อม'),
+  hi: localized('आपकी ज़रूरत की हर चीज़, एक ही ऐप में', '{app} में शामिल', '{app} के साथ शुरू करें', 'जब आप तैयार हों, हम तैयार हैं'),
+};
+
+/**
+ * Get phrase patterns for a locale and tone.
+ * Non-English locales ignore tone.
+ */
+export function getSlidePhrases(locale: Locale, tone: CopyTone): SlidePhrases {
+  return locale === 'en-US' ? ENGLISH_PHRASES[tone] : LOCALIZED_PHRASES[locale];
+}
+
+/**
+ * Build a neutral pattern set from four translated phrases.
+ * The app name and value bullet carry the rest.
+ */
+function localized(
+  heroSubheadline: string,
+  featureSubheadline: string,
+  closingHeadline: string,
+  closingSubheadline: string
+): SlidePhrases {
+  return {
+    hero: { headlines: ['{app}'], subheadlines: ['{bullet}', heroSubheadline] },
+    feature: { headlines: ['{bullet}'], subheadlines: [featureSubheadline] },
+    closing: { headlines: [closingHeadline], subheadlines: [closingSubheadline, '{bullet}'] },
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Copy Generator Factory
+ *
+ * Builds the copy generator chain from environment variables:
+ * the LLM generator first, the rule-based generator as fallback.
+ *
+ * Design Principles:
+ * - Single Place for Wiring: Routes and scripts share one chain
+ * - Offline by Choice: COPY_GENERATOR=rule-based skips the LLM entirely
+ */
+
+import { ICopyGenerator } from '@/application/interfaces';
+import { FallbackCopyGenerator, FallbackCopyGeneratorOptions } from '@/application/services';
+import { LLMCopyGenerator, OpenAICompatibleProvider } from '../llm';
+import { RuleBasedCopyGenerator } from './RuleBasedCopyGenerator';
+
+/**
+ * Create the copy generator for this environment.
+ * - COPY_GENERATOR=rule-based: offline only (CI, air-gapped)
+ * - Otherwise: LLM (see OpenAICompatibleProvider.fromEnv), then rule-based
+ */
+export function createCopyGenerator(
+  env: NodeJS.ProcessEnv = process.env,
+  options: FallbackCopyGeneratorOptions = {}
+): ICopyGenerator {
+  const ruleBased = new RuleBasedCopyGenerator();
+  if (env.COPY_GENERATOR === 'rule-based') {
+    return ruleBased;
+  }
+
+  const llm = new LLMCopyGenerator(OpenAICompatibleProvider.fromEnv(env));
+  return new FallbackCopyGenerator([llm, ruleBased], options);
+}
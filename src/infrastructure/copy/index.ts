@@ -0,0 +1,11 @@
+/**
+ * Copy Infrastructure
+ *
+ * Public API for offline (rule-based) copy generation and the
+ * default copy generator chain.
+ */
+
+export { RuleBasedCopyGenerator, RULE_BASED_COPY_MODEL } from './RuleBasedCopyGenerator';
+export { getSlidePhrases, ENGLISH_PHRASES, LOCALIZED_PHRASES } from './copyPhrases';
+export type { PhrasePatterns, SlidePhrases } from './copyPhrases';
+export { createCopyGenerator } from './createCopyGenerator';
@@ -8,7 +8,7 @@
  * - Dependency Inversion: Application depends on interface
  */
 
-import { Storyboard, DeviceTarget } from '@/domain';
+import { Storyboard, DeviceTarget, Locale } from '@/domain';
 
 /**
  * Export request options.
@@ -20,10 +20,11 @@ export interface ExportOptions {
   /** Device targets to render for */
   targets: DeviceTarget[];
   
-  /** Rendered images (one per target per slide) */
+  /** Rendered images (one per locale per target per slide) */
   renderedImages: {
     target: DeviceTarget;
     slideId: number;
+    locale: Locale;
     buffer: Buffer;
   }[];
 }
@@ -56,8 +57,8 @@ export interface IExportService {
    * @returns ZIP buffer with manifest
    * 
    * Package contents:
-   * - iphone_01.png through iphone_05.png
-   * - ipad_01.png through ipad_05.png
+   * - {locale}/{targetId}_01.png ... per App Store target
+   * - google-play/{locale}/... per Google Play target
    * - manifest.json
    */
   exportAsZip(options: ExportOptions): Promise<ExportResult>;
@@ -4,17 +4,20 @@
  * Creates ZIP packages with rendered images and manifest.
  * 
  * Design Principles:
- * - Deterministic Naming: Uses generateFilename from domain
+ * - Deterministic Naming: Uses generateExportPath from domain
+ * - Store Layout: App Store images at the root, Play images under google-play/
+ * - Locale Folders: One folder per locale (App Store Connect locale codes)
  * - Manifest Generation: Complete metadata for traceability
  * - Single Package: All targets in one ZIP
  */
 
 import JSZip from 'jszip';
 import {
-  generateFilename,
+  generateExportPath,
   MANIFEST_FILENAME,
   GENERATOR_VERSION,
   ExportManifest,
+  getStoryboardLocales,
 } from '@/domain';
 import { IExportService, ExportOptions, ExportResult } from './IExportService';
 
@@ -31,14 +34,11 @@ export class ZipExportService implements IExportService {
     // Create ZIP instance
     const zip = new JSZip();
     
-    // Add rendered images with deterministic filenames
+    // Add rendered images with deterministic paths
     for (const image of renderedImages) {
-      const filename = generateFilename(
-        image.target.platform,
-        image.slideId
-      );
+      const filePath = generateExportPath(image.target.id, image.slideId, image.locale);
       
-      zip.file(filename, image.buffer);
+      zip.file(filePath, image.buffer);
     }
     
     // Generate and add manifest
@@ -81,6 +81,10 @@ export class ZipExportService implements IExportService {
       )
     );
     
+    // Locales actually rendered, in storyboard order (primary first)
+    const renderedLocales = new Set(renderedImages.map((img) => img.locale));
+    const locales = getStoryboardLocales(storyboard).filter((locale) => renderedLocales.has(locale));
+    
     // Build target metadata
     const targetMetadata = targets.map((target) => {
       const imagesForTarget = renderedImages.filter(
@@ -88,7 +92,11 @@ export class ZipExportService implements IExportService {
       );
       
       return {
+        id: target.id,
         platform: target.platform,
+        store: target.store,
+        kind: target.kind,
+        orientation: target.orientation,
         width: target.width,
         height: target.height,
         fileCount: imagesForTarget.length,
@@ -108,8 +116,10 @@ export class ZipExportService implements IExportService {
       appName: storyboard.appName,
       exportedAt: new Date().toISOString(),
       locale: storyboard.locale,
+      locales,
       targets: targetMetadata,
       templatesUsed,
+      slideCount: slideMetadata.length,
       slides: slideMetadata,
       generatorVersion: GENERATOR_VERSION,
     };
@@ -0,0 +1,75 @@
+/**
+ * ILLMProvider Interface
+ *
+ * Abstraction over a chat-completion language model endpoint.
+ * Copy generators build prompts; providers only transport them.
+ *
+ * Design Principles:
+ * - Single Responsibility: Only sends messages and returns the reply
+ * - Dependency Inversion: Copy generation depends on this interface, not a vendor SDK
+ */
+
+/**
+ * A chat message.
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Chat completion request.
+ */
+export interface LLMCompletionRequest {
+  /** Conversation, system prompt first */
+  messages: LLMMessage[];
+
+  /** Sampling temperature (provider default when omitted) */
+  temperature?: number;
+
+  /** Maximum tokens in the reply */
+  maxTokens?: number;
+
+  /** Ask the model to reply with a single JSON object */
+  json?: boolean;
+
+  /** Cancels the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Chat completion result.
+ */
+export interface LLMCompletion {
+  /** Text of the model's reply */
+  content: string;
+
+  /** Model that produced the reply */
+  model: string;
+}
+
+/**
+ * Language model provider interface.
+ *
+ * Implementations:
+ * - OpenAICompatibleProvider: OpenAI Chat Completions API (or any server
+ *   implementing it, e.g. a local model server)
+ */
+export interface ILLMProvider {
+  /**
+   * Send a chat completion request.
+   * Throws on transport errors, non-2xx responses, empty replies and
+   * cancellation.
+   */
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+
+  /**
+   * Check if the provider has the configuration it needs (e.g., API key).
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Get name of this provider (for logging/debugging).
+   */
+  getName(): string;
+}
@@ -0,0 +1,139 @@
+/**
+ * LLMCopyGenerator
+ *
+ * ICopyGenerator backed by any ILLMProvider.
+ * Builds a prompt for the slide type and tone, parses the model's JSON
+ * reply and hard-truncates copy to the domain character limits.
+ *
+ * Design Principles:
+ * - Dependency Inversion: Works with any provider (OpenAI, local servers)
+ * - Fail Fast: Unparseable or empty replies throw; limits are always enforced
+ */
+
+import {
+  HEADLINE_MAX_LENGTH,
+  SUBHEADLINE_MAX_LENGTH,
+  truncateCopy,
+} from '@/domain';
+import {
+  ICopyGenerator,
+  CopyGenerationInput,
+  CopyGenerationOptions,
+  GeneratedCopy,
+} from '@/application/interfaces';
+import { ILLMProvider } from './ILLMProvider';
+import { buildCopyPrompt } from './copyPrompts';
+
+/**
+ * Sampling options passed to the provider.
+ */
+export interface LLMCopyGeneratorOptions {
+  /** Sampling temperature (default: 0.7) */
+  temperature?: number;
+
+  /** Maximum reply tokens (default: 200) */
+  maxTokens?: number;
+
+  /** Request JSON mode (default: true; disable for servers without it) */
+  json?: boolean;
+}
+
+/**
+ * Copy generator over a language model provider.
+ */
+export class LLMCopyGenerator implements ICopyGenerator {
+  private provider: ILLMProvider;
+  private options: Required<LLMCopyGeneratorOptions>;
+
+  constructor(provider: ILLMProvider, options: LLMCopyGeneratorOptions = {}) {
+    this.provider = provider;
+    this.options = {
+      temperature: options.temperature ?? 0.7,
+      maxTokens: options.maxTokens ?? 200,
+      json: options.json ?? true,
+    };
+  }
+
+  /**
+   * Generate headline and subheadline for a slide.
+   * The signal cancels the provider request.
+   */
+  async generateCopy(input: CopyGenerationInput, options: CopyGenerationOptions = {}): Promise<GeneratedCopy> {
+    const completion = await this.provider.complete({
+      messages: buildCopyPrompt(input),
+      temperature: this.options.temperature,
+      maxTokens: this.options.maxTokens,
+      json: this.options.json,
+      signal: options.signal,
+    });
+
+    const reply = parseCopyReply(completion.content);
+    const headline = truncateCopy(reply.headline, HEADLINE_MAX_LENGTH);
+    const subheadline = truncateCopy(reply.subheadline, SUBHEADLINE_MAX_LENGTH);
+
+    return {
+      headline: headline.text,
+      subheadline: subheadline.text,
+      locale: input.locale,
+      metadata: {
+        model: completion.model,
+        truncated: headline.truncated || subheadline.truncated,
+      },
+    };
+  }
+
+  /**
+   * Available when the provider is configured.
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.provider.isConfigured();
+  }
+
+  /**
+   * Get name of this generator.
+   */
+  getName(): string {
+    return `llm:${this.provider.getName()}`;
+  }
+}
+
+// ============================================================================
+// Reply Parsing
+// ============================================================================
+
+/**
+ * Parse `{"headline": ..., "subheadline": ...}` from a model reply.
+ * Tolerates code fences and text around the object.
+ */
+function parseCopyReply(content: string): { headline: string; subheadline: string } {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start < 0 || end < start) {
+    throw new Error(`Copy reply is not a JSON object: ${content.slice(0, 200)}`);
+  }
+
+  let parsed: { headline?: unknown; subheadline?: unknown } | null;
+  try {
+    parsed = JSON.parse(content.slice(start, end + 1));
+  } catch {
+    throw new Error(`Copy reply is not valid JSON: ${content.slice(0, 200)}`);
+  }
+
+  const headline = cleanCopy(parsed?.headline);
+  const subheadline = cleanCopy(parsed?.subheadline);
+  if (!headline || !subheadline) {
+    throw new Error('Copy reply is missing headline or subheadline');
+  }
+
+  return { headline, subheadline };
+}
+
+/**
+ * Trim a copy field and strip wrapping quotes.
+ */
+function cleanCopy(value: unknown): string {
+  if (typeof value !== 'string') {
+    return '';
+  }
+  return value.trim().replace(/^["'“”«»「」]+|["'“”«»「」]+$/gu, '').trim();
+}
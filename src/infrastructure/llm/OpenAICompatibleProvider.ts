@@ -0,0 +1,167 @@
+/**
+ * OpenAICompatibleProvider
+ *
+ * ILLMProvider over the OpenAI Chat Completions HTTP API.
+ * The base URL is configurable, so any server implementing
+ * `POST {baseUrl}/chat/completions` works (e.g., a local model server).
+ *
+ * Design Principles:
+ * - No SDK Dependency: Plain fetch against the documented HTTP contract
+ * - Fail Fast: HTTP errors, timeouts and empty replies throw
+ */
+
+import { ILLMProvider, LLMCompletion, LLMCompletionRequest } from './ILLMProvider';
+
+/**
+ * Provider configuration.
+ */
+export interface OpenAICompatibleConfig {
+  /** API base URL, without the `/chat/completions` suffix */
+  baseUrl: string;
+
+  /** Bearer token (optional for local servers) */
+  apiKey?: string;
+
+  /** Model name sent with each request */
+  model: string;
+
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+/** Default OpenAI API base URL */
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/** Default model for copy generation */
+export const OPENAI_DEFAULT_COPY_MODEL = 'gpt-4o-mini';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * OpenAI-compatible chat completion provider.
+ */
+export class OpenAICompatibleProvider implements ILLMProvider {
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    if (!config.baseUrl.trim()) {
+      throw new Error('OpenAI-compatible provider requires a base URL');
+    }
+    if (!config.model.trim()) {
+      throw new Error('OpenAI-compatible provider requires a model');
+    }
+    this.config = config;
+  }
+
+  /**
+   * Create a provider from environment variables:
+   * - OPENAI_API_KEY: bearer token
+   * - OPENAI_BASE_URL: base URL (default: OpenAI)
+   * - OPENAI_COPY_MODEL: model name (default: gpt-4o-mini)
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): OpenAICompatibleProvider {
+    return new OpenAICompatibleProvider({
+      baseUrl: env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL,
+      apiKey: env.OPENAI_API_KEY || undefined,
+      model: env.OPENAI_COPY_MODEL || OPENAI_DEFAULT_COPY_MODEL,
+    });
+  }
+
+  /**
+   * Send a chat completion request.
+   */
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    if (!this.isConfigured()) {
+      throw new Error('OPENAI_API_KEY is not configured');
+    }
+
+    if (request.signal?.aborted) {
+      throw new Error('LLM request cancelled');
+    }
+
+    // Aborted by the provider's own timeout or the caller's signal
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    const timeout = setTimeout(cancel, this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    request.signal?.addEventListener('abort', cancel);
+
+    try {
+      const response = await fetch(this.getCompletionsUrl(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: request.messages,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+          ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`LLM provider error ${response.status}: ${errorText}`);
+      }
+
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (!content || typeof content !== 'string') {
+        throw new Error('LLM provider response missing message content');
+      }
+
+      return {
+        content,
+        model: typeof data.model === 'string' ? data.model : this.config.model,
+      };
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new Error(
+          request.signal?.aborted
+            ? 'LLM request cancelled'
+            : `LLM provider timed out after ${this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS}ms`
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+      request.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * Configured with an API key, or pointed at a non-OpenAI server
+   * (local servers usually need no key).
+   */
+  isConfigured(): boolean {
+    return !!this.config.apiKey || this.normalizeBaseUrl() !== OPENAI_DEFAULT_BASE_URL;
+  }
+
+  /**
+   * Get name of this provider.
+   */
+  getName(): string {
+    return `openai-compatible:${this.config.model}`;
+  }
+
+  // ========================================================================
+  // Private Methods
+  // ========================================================================
+
+  /**
+   * Chat completions endpoint for the base URL.
+   */
+  private getCompletionsUrl(): string {
+    return `${this.normalizeBaseUrl()}/chat/completions`;
+  }
+
+  /**
+   * Base URL without trailing slashes.
+   */
+  private normalizeBaseUrl(): string {
+    return this.config.baseUrl.trim().replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * LLM copy generation against a scripted provider: reply parsing,
+ * malformed replies and truncation to the domain limits.
+ */
+
+import { HEADLINE_MAX_LENGTH, SUBHEADLINE_MAX_LENGTH } from '@/domain';
+import { CopyGenerationInput } from '@/application/interfaces';
+import { ILLMProvider, LLMCompletion, LLMCompletionRequest } from '../ILLMProvider';
+import { LLMCopyGenerator } from '../LLMCopyGenerator';
+
+/** Provider replying with fixed content and recording requests */
+class ScriptedProvider implements ILLMProvider {
+  readonly requests: LLMCompletionRequest[] = [];
+
+  constructor(private content: string) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+    return { content: this.content, model: 'test-model' };
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getName(): string {
+    return 'scripted';
+  }
+}
+
+const INPUT: CopyGenerationInput = {
+  appName: 'Trailmate',
+  valueBullet: 'Offline maps',
+  slideType: 'feature',
+  locale: 'en-US',
+};
+
+function generate(content: string) {
+  return new LLMCopyGenerator(new ScriptedProvider(content)).generateCopy(INPUT);
+}
+
+describe('LLMCopyGenerator', () => {
+  describe('reply parsing', () => {
+    it('returns the headline and subheadline from a JSON reply', async () => {
+      const copy = await generate('{"headline": "Maps without signal", "subheadline": "Download trails before you go"}');
+
+      expect(copy).toEqual({
+        headline: 'Maps without signal',
+        subheadline: 'Download trails before you go',
+        locale: 'en-US',
+        metadata: { model: 'test-model', truncated: false },
+      });
+    });
+
+    it('tolerates code fences, text around the object and wrapping quotes', async () => {
+      const copy = await generate(
+        'Here you go:\n```json\n{"headline": "“Maps without signal”", "subheadline": "  \'Download trails\'  "}\n```'
+      );
+
+      expect(copy.headline).toBe('Maps without signal');
+      expect(copy.subheadline).toBe('Download trails');
+    });
+
+    it('rejects a reply without a JSON object', async () => {
+      await expect(generate('Maps without signal')).rejects.toThrow(
+        'Copy reply is not a JSON object: Maps without signal'
+      );
+    });
+
+    it('rejects malformed JSON', async () => {
+      await expect(generate('{"headline": "Maps", "subheadline": "Trails",}')).rejects.toThrow(
+        'Copy reply is not valid JSON'
+      );
+    });
+
+    it.each([
+      ['a missing subheadline', '{"headline": "Maps without signal"}'],
+      ['an empty headline', '{"headline": "  ", "subheadline": "Download trails"}'],
+      ['a non-string headline', '{"headline": 42, "subheadline": "Download trails"}'],
+      ['an empty object', '{}'],
+    ])('rejects a reply with %s', async (_, content) => {
+      await expect(generate(content)).rejects.toThrow('Copy reply is missing headline or subheadline');
+    });
+  });
+
+  describe('limits', () => {
+    it('truncates a headline over the limit at a word boundary and flags it', async () => {
+      const copy = await generate(
+        '{"headline": "Plan every trail offline with maps and alerts", "subheadline": "Download trails"}'
+      );
+
+      expect(copy.headline).toBe('Plan every trail offline with');
+      expect(copy.headline.length).toBeLessThanOrEqual(HEADLINE_MAX_LENGTH);
+      expect(copy.subheadline).toBe('Download trails');
+      expect(copy.metadata?.truncated).toBe(true);
+    });
+
+    it('truncates a subheadline over the limit', async () => {
+      const subheadline = 'Download every trail, contour and campsite before you leave so nothing is lost';
+      const copy = await generate(JSON.stringify({ headline: 'Maps without signal', subheadline }));
+
+      expect(copy.subheadline.length).toBeLessThanOrEqual(SUBHEADLINE_MAX_LENGTH);
+      expect(subheadline.startsWith(copy.subheadline)).toBe(true);
+      expect(copy.subheadline).not.toMatch(/[\s,]$/);
+      expect(copy.metadata?.truncated).toBe(true);
+    });
+  });
+
+  it('sends the prompt with sampling options and the caller signal', async () => {
+    const provider = new ScriptedProvider('{"headline": "Maps", "subheadline": "Trails"}');
+    const controller = new AbortController();
+
+    await new LLMCopyGenerator(provider, { temperature: 0.2, json: false }).generateCopy(INPUT, {
+      signal: controller.signal,
+    });
+
+    const [request] = provider.requests;
+    expect(request).toMatchObject({ temperature: 0.2, maxTokens: 200, json: false, signal: controller.signal });
+    expect(request.messages[0].role).toBe('system');
+    expect(request.messages.map((message) => message.content).join('\n')).toContain('Offline maps');
+  });
+});
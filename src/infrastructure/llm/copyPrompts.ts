@@ -0,0 +1,100 @@
+/**
+ * Copy Prompts
+ *
+ * Prompt templates for slide copy generation, one per SlideType,
+ * adjusted by the brand tone. The model is asked for a JSON object
+ * with `headline` and `subheadline`.
+ *
+ * Design Principles:
+ * - Data-Driven: Slide and tone guidance are lookup tables, not branches
+ * - Single Source of Truth: Character limits come from domain constants
+ */
+
+import {
+  Locale,
+  SlideType,
+  HEADLINE_MAX_LENGTH,
+  SUBHEADLINE_MAX_LENGTH,
+} from '@/domain';
+import { CopyGenerationInput, CopyTone, DEFAULT_COPY_TONE } from '@/application/interfaces';
+import { LLMMessage } from './ILLMProvider';
+
+/**
+ * Language names used in prompts, per locale.
+ */
+export const LOCALE_LANGUAGE_NAMES: Record<Locale, string> = {
+  'en-US': 'English (United States)',
+  'de-DE': 'German',
+  'fr-FR': 'French',
+  'es-ES': 'Spanish (Spain)',
+  'es-MX': 'Spanish (Mexico)',
+  it: 'Italian',
+  'pt-BR': 'Portuguese (Brazil)',
+  'nl-NL': 'Dutch',
+  ru: 'Russian',
+  'ar-SA': 'Arabic',
+  he: 'Hebrew',
+  th: 'Thai',
+  hi: 'Hindi',
+};
+
+/** Visible screenshot lines included in a prompt */
+const MAX_VISIBLE_TEXT_LINES = 20;
+
+/**
+ * What each slide type's copy should do.
+ */
+const SLIDE_TYPE_GUIDANCE: Record<SlideType, string> = {
+  hero:
+    'This is slide 1 of the App Store screenshot set. State the app\'s core promise: ' +
+    'what it helps the user do, in one glanceable idea.',
+  feature:
+    'This is a feature slide. Turn the value bullet into a concrete benefit; ' +
+    'the headline names the benefit, the subheadline explains how the app delivers it.',
+  closing:
+    'This is the last slide of the set. Close with a confident summary or invitation ' +
+    'to get started, without prices, rankings or calls to "download now".',
+};
+
+/**
+ * How each tone should sound.
+ */
+const TONE_GUIDANCE: Record<CopyTone, string> = {
+  professional: 'Tone: professional and clear. Plain, precise words; no slang or exclamation marks.',
+  casual: 'Tone: casual and friendly. Conversational, second person, light contractions.',
+  playful: 'Tone: playful and energetic. Witty wording is welcome, at most one exclamation mark.',
+};
+
+/**
+ * Build the chat messages for one slide's copy.
+ */
+export function buildCopyPrompt(input: CopyGenerationInput): LLMMessage[] {
+  const tone = input.brandContext?.tone ?? DEFAULT_COPY_TONE;
+  const language = LOCALE_LANGUAGE_NAMES[input.locale];
+
+  const system = [
+    'You write App Store screenshot captions.',
+    `Write in ${language} only, using natural phrasing for native speakers.`,
+    `The headline must be at most ${HEADLINE_MAX_LENGTH} characters; the subheadline at most ${SUBHEADLINE_MAX_LENGTH} characters.`,
+    'Be factual: no superlatives, prices, rankings, competitor names or unverifiable claims.',
+    'When screenshot text is given, only mention features the value bullet or that text supports.',
+    'Do not wrap text in quotes and do not end the headline with a period.',
+    TONE_GUIDANCE[tone],
+    'Reply with a single JSON object: {"headline": "...", "subheadline": "..."}.',
+  ].join('\n');
+
+  const context = [
+    `App name: ${input.appName}`,
+    input.valueBullet ? `Value bullet: ${input.valueBullet}` : null,
+    input.brandContext?.industry ? `Industry: ${input.brandContext.industry}` : null,
+    input.brandContext?.targetAudience ? `Target audience: ${input.brandContext.targetAudience}` : null,
+    input.visibleText?.length
+      ? `Text visible on the screenshot: ${input.visibleText.slice(0, MAX_VISIBLE_TEXT_LINES).map((line) => `"${line}"`).join(', ')}`
+      : null,
+  ].filter((line): line is string => line !== null);
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: `${SLIDE_TYPE_GUIDANCE[input.slideType]}\n\n${context.join('\n')}` },
+  ];
+}
@@ -0,0 +1,16 @@
+/**
+ * LLM Infrastructure
+ *
+ * Public API for language model providers and copy generation.
+ */
+
+export type { ILLMProvider, LLMMessage, LLMCompletionRequest, LLMCompletion } from './ILLMProvider';
+export {
+  OpenAICompatibleProvider,
+  OPENAI_DEFAULT_BASE_URL,
+  OPENAI_DEFAULT_COPY_MODEL,
+} from './OpenAICompatibleProvider';
+export type { OpenAICompatibleConfig } from './OpenAICompatibleProvider';
+export { LLMCopyGenerator } from './LLMCopyGenerator';
+export type { LLMCopyGeneratorOptions } from './LLMCopyGenerator';
+export { buildCopyPrompt, LOCALE_LANGUAGE_NAMES } from './copyPrompts';
@@ -0,0 +1,221 @@
+/**
+ * TesseractTextRecognizer
+ *
+ * ITextRecognizer over Tesseract (tesseract.js, WebAssembly).
+ * Runs on the server; images never leave the machine.
+ *
+ * Language data (`{lang}.traineddata.gz`) is read from a local directory:
+ * `OCR_LANG_PATH`, or the bundled `tessdata` directory (English only).
+ * Nothing is downloaded, so recognition works offline.
+ *
+ * Design Principles:
+ * - Lazy: Workers start on first use and are reused per language set
+ * - Offline: Unavailable without English data; locale languages without
+ *   data are skipped rather than fetched
+ * - Fail Fast: Unreadable images throw
+ */
+
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { createWorker, Worker } from 'tesseract.js';
+import { Locale } from '@/domain';
+import { ITextRecognizer, TextRecognitionOptions } from '@/application/interfaces';
+
+/**
+ * Language data directory, relative to the project root, when none is configured.
+ */
+export const DEFAULT_OCR_LANG_DIRECTORY = 'tessdata';
+
+/**
+ * Recognizer configuration.
+ */
+export interface TesseractTextRecognizerOptions {
+  /** Local directory with `{lang}.traineddata.gz` (default: `tessdata` in the project root) */
+  langPath?: string;
+
+  /** Minimum line confidence, 0-100 (default: 60) */
+  minConfidence?: number;
+
+  /** Images wider than this are downscaled before recognition (default: 1600) */
+  maxImageWidth?: number;
+}
+
+/**
+ * Tesseract language codes per locale.
+ */
+export const OCR_LANGUAGES: Record<Locale, string> = {
+  'en-US': 'eng',
+  'de-DE': 'deu',
+  'fr-FR': 'fra',
+  'es-ES': 'spa',
+  'es-MX': 'spa',
+  it: 'ita',
+  'pt-BR': 'por',
+  'nl-NL': 'nld',
+  ru: 'rus',
+  'ar-SA': 'ara',
+  he: 'heb',
+  th: 'tha',
+  hi: 'hin',
+};
+
+/** Language always recognized (UI strings are often English) */
+const BASE_LANGUAGE = 'eng';
+
+/** Resolution recorded in prepared images (screens are ~72-160 dpi) */
+const SCREEN_DENSITY_DPI = 144;
+
+/** LSTM engine only */
+const OEM_LSTM_ONLY = 1;
+
+/**
+ * Local Tesseract text recognizer.
+ */
+export class TesseractTextRecognizer implements ITextRecognizer {
+  private options: Required<TesseractTextRecognizerOptions>;
+  private workers = new Map<string, Promise<Worker>>();
+
+  constructor(options: TesseractTextRecognizerOptions = {}) {
+    const langPath = options.langPath ?? path.join(process.cwd(), DEFAULT_OCR_LANG_DIRECTORY);
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(langPath)) {
+      throw new Error(`Invalid OCR language data path: ${langPath}. Must be a local directory`);
+    }
+
+    this.options = {
+      langPath: path.resolve(langPath),
+      minConfidence: options.minConfidence ?? 60,
+      maxImageWidth: options.maxImageWidth ?? 1600,
+    };
+  }
+
+  /**
+   * Create a recognizer from environment variables:
+   * - OCR_LANG_PATH: language data directory (default: `tessdata` in the project root)
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): TesseractTextRecognizer {
+    return new TesseractTextRecognizer({
+      langPath: env.OCR_LANG_PATH || undefined,
+    });
+  }
+
+  /**
+   * Recognize text lines in an image.
+   */
+  async recognize(image: Buffer, options: TextRecognitionOptions = {}): Promise<string[]> {
+    const prepared = await this.prepareImage(image);
+    const worker = await this.getWorker(this.getLanguages(options.locales ?? []));
+    const { data } = await worker.recognize(prepared, {}, { blocks: true });
+
+    const lines: string[] = [];
+    for (const block of data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          const text = line.text.trim();
+          if (text && line.confidence >= this.options.minConfidence) {
+            lines.push(text);
+          }
+        }
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Available when English language data is installed.
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.hasLanguageData(BASE_LANGUAGE);
+  }
+
+  /**
+   * Get name of this recognizer.
+   */
+  getName(): string {
+    return 'tesseract';
+  }
+
+  /**
+   * Stop all workers (call when done recognizing).
+   */
+  async terminate(): Promise<void> {
+    const workers = Array.from(this.workers.values());
+    this.workers.clear();
+    await Promise.all(workers.map(async (worker) => (await worker).terminate()));
+  }
+
+  // ========================================================================
+  // Private Methods
+  // ========================================================================
+
+  /**
+   * Tesseract language string for the locales, e.g. "eng+jpn".
+   * Locale languages without installed data are left out.
+   */
+  private getLanguages(locales: Locale[]): string {
+    const languages = new Set([
+      BASE_LANGUAGE,
+      ...locales.map((locale) => OCR_LANGUAGES[locale]).filter((language) => this.hasLanguageData(language)),
+    ]);
+    return Array.from(languages).join('+');
+  }
+
+  /**
+   * Whether `{language}.traineddata.gz` exists in the language data directory.
+   */
+  private hasLanguageData(language: string): boolean {
+    return fs.existsSync(path.join(this.options.langPath, `${language}.traineddata.gz`));
+  }
+
+  /**
+   * Get (or start) the worker for a language set.
+   * A failed start is not cached, so the next call retries.
+   */
+  private getWorker(languages: string): Promise<Worker> {
+    let worker = this.workers.get(languages);
+    if (!worker) {
+      worker = this.startWorker(languages);
+      worker.catch(() => this.workers.delete(languages));
+      this.workers.set(languages, worker);
+    }
+    return worker;
+  }
+
+  /**
+   * Start a worker for a language set.
+   *
+   * tesseract.js reports language loading errors only through
+   * `errorHandler` (the `createWorker` promise never settles), and the
+   * thread of a worker that failed this way cannot be terminated. So
+   * language data is checked up front and always read from local files
+   * (never the tesseract.js CDN), without a download cache.
+   */
+  private async startWorker(languages: string): Promise<Worker> {
+    const { langPath } = this.options;
+    const missing = languages.split('+').filter((language) => !this.hasLanguageData(language));
+    if (missing.length > 0) {
+      throw new Error(`OCR language data not found in ${langPath}: ${missing.join(', ')}`);
+    }
+
+    return new Promise<Worker>((resolve, reject) => {
+      createWorker(languages, OEM_LSTM_ONLY, {
+        langPath,
+        cacheMethod: 'none',
+        errorHandler: (error: unknown) => reject(new Error(`Tesseract failed (${languages}): ${String(error)}`)),
+      }).then(resolve, reject);
+    });
+  }
+
+  /**
+   * Greyscale and downscale large images (faster, and Tesseract
+   * reads high-contrast text at moderate sizes best).
+   */
+  private async prepareImage(image: Buffer): Promise<Buffer> {
+    return sharp(image)
+      .greyscale()
+      .resize({ width: this.options.maxImageWidth, withoutEnlargement: true })
+      .withMetadata({ density: SCREEN_DENSITY_DPI })
+      .png()
+      .toBuffer();
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Local text recognition with the bundled language data (no network).
+ */
+
+import sharp from 'sharp';
+import { TesseractTextRecognizer } from '../TesseractTextRecognizer';
+
+/** White image with one line of black text */
+function textImage(text: string): Promise<Buffer> {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="200">
+    <rect width="800" height="200" fill="#FFFFFF"/>
+    <text x="20" y="120" font-size="64" font-family="sans-serif" fill="#000000">${text}</text>
+  </svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+describe('TesseractTextRecognizer', () => {
+  const recognizer = new TesseractTextRecognizer();
+
+  afterAll(() => recognizer.terminate());
+
+  it('reads text with the bundled English data', async () => {
+    await expect(recognizer.isAvailable()).resolves.toBe(true);
+    await expect(recognizer.recognize(await textImage('Track your habits'))).resolves.toEqual(['Track your habits']);
+  });
+
+  it('skips locale languages without installed data', async () => {
+    const lines = await recognizer.recognize(await textImage('Track your habits'), { locales: ['de-DE'] });
+
+    expect(lines).toEqual(['Track your habits']);
+  });
+
+  it('is unavailable without English data', async () => {
+    await expect(new TesseractTextRecognizer({ langPath: '/nonexistent' }).isAvailable()).resolves.toBe(false);
+  });
+
+  it('rejects language data URLs', () => {
+    expect(() => new TesseractTextRecognizer({ langPath: 'https://cdn.example.com/tessdata' })).toThrow(
+      'Must be a local directory'
+    );
+  });
+});
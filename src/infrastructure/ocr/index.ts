@@ -0,0 +1,8 @@
+/**
+ * OCR Infrastructure
+ *
+ * Public API for local text recognition in screenshots.
+ */
+
+export { TesseractTextRecognizer, OCR_LANGUAGES, DEFAULT_OCR_LANG_DIRECTORY } from './TesseractTextRecognizer';
+export type { TesseractTextRecognizerOptions } from './TesseractTextRecognizer';
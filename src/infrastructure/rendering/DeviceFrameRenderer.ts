@@ -0,0 +1,343 @@
+/**
+ * DeviceFrameRenderer
+ *
+ * Wraps a screenshot in a vector device mockup: rounded screen corners,
+ * bezel, camera cutout (dynamic island / notch / camera dot), side buttons
+ * and the SHADOWS.device drop shadow.
+ *
+ * Design Principles:
+ * - Data-Driven: Geometry comes from DEVICE_FRAMES theme tokens
+ * - Deterministic: Pure SVG shapes rasterized by Sharp, no image assets
+ */
+
+import sharp from 'sharp';
+import {
+  DevicePlatform,
+  DeviceFrameSpec,
+  DEVICE_FRAMES,
+  DEVICE_FRAME_REFERENCE_WIDTH,
+  SHADOWS,
+} from '@/domain';
+
+/**
+ * A screenshot composed into a device frame.
+ */
+export interface FramedScreenshot {
+  /** PNG buffer (frame, screen, shadow) */
+  buffer: Buffer;
+
+  /** Buffer dimensions, including shadow padding */
+  width: number;
+  height: number;
+
+  /** Position of the screen's top-left corner within the buffer */
+  screenOffset: {
+    left: number;
+    top: number;
+  };
+}
+
+/**
+ * Parsed CSS box-shadow (pixels).
+ */
+interface ShadowSpec {
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  color: string;
+}
+
+/**
+ * Device frame renderer.
+ */
+export class DeviceFrameRenderer {
+  /**
+   * Frame a screenshot already resized to the screen size.
+   * Landscape screens (wider than tall) get the frame rotated a quarter
+   * turn, with the camera on the left and buttons along the top and bottom.
+   *
+   * @param screenshot - Screenshot buffer, exactly screenWidth x screenHeight
+   * @param platform - Device platform (selects the frame)
+   * @param screenWidth - Screen width in pixels
+   * @param screenHeight - Screen height in pixels
+   */
+  async frame(
+    screenshot: Buffer,
+    platform: DevicePlatform,
+    screenWidth: number,
+    screenHeight: number
+  ): Promise<FramedScreenshot> {
+    if (screenWidth > screenHeight) {
+      return this.frameLandscape(screenshot, platform, screenWidth, screenHeight);
+    }
+
+    return this.framePortrait(screenshot, platform, screenWidth, screenHeight, true);
+  }
+
+  // ========================================================================
+  // Private Drawing Methods
+  // ========================================================================
+
+  /**
+   * Frame a portrait screen, optionally with its drop shadow.
+   */
+  private async framePortrait(
+    screenshot: Buffer,
+    platform: DevicePlatform,
+    screenWidth: number,
+    screenHeight: number,
+    withShadow: boolean
+  ): Promise<FramedScreenshot> {
+    const spec: DeviceFrameSpec = DEVICE_FRAMES[platform];
+    const scale = screenWidth / DEVICE_FRAME_REFERENCE_WIDTH;
+
+    const bezel = Math.round(screenWidth * spec.bezel);
+    const buttonDepth = Math.max(1, Math.round(screenWidth * spec.buttonDepth));
+    const screenRadius = Math.round(spec.screenRadius * scale);
+
+    const bodyWidth = screenWidth + bezel * 2;
+    const bodyHeight = screenHeight + bezel * 2;
+
+    // Padding is reserved even without a shadow, so a rotated frame can take one
+    const shadow = this.parseShadow(SHADOWS.device, scale);
+    const padding = Math.ceil(shadow.blur + Math.max(Math.abs(shadow.offsetX), Math.abs(shadow.offsetY)));
+
+    // Body origin inside the output buffer (room for buttons and shadow)
+    const bodyLeft = padding + buttonDepth;
+    const bodyTop = padding + buttonDepth;
+    const width = bodyWidth + (padding + buttonDepth) * 2;
+    const height = bodyHeight + (padding + buttonDepth) * 2;
+
+    const screenLeft = bodyLeft + bezel;
+    const screenTop = bodyTop + bezel;
+
+    const roundedScreen = await this.roundCorners(screenshot, screenWidth, screenHeight, screenRadius);
+    const shadowLayer = withShadow
+      ? await this.createShadowLayer(
+          width,
+          height,
+          { left: bodyLeft, top: bodyTop, width: bodyWidth, height: bodyHeight },
+          screenRadius + bezel,
+          shadow
+        )
+      : await this.createTransparentLayer(width, height);
+
+    const bodySvg = this.createBodySvg(spec, width, height, {
+      left: bodyLeft,
+      top: bodyTop,
+      width: bodyWidth,
+      height: bodyHeight,
+      radius: screenRadius + bezel,
+      buttonDepth,
+    });
+
+    const cutoutSvg = this.createCutoutSvg(spec, width, height, {
+      left: screenLeft,
+      top: screenTop,
+      width: screenWidth,
+    });
+
+    const buffer = await sharp(shadowLayer)
+      .composite([
+        { input: Buffer.from(bodySvg), left: 0, top: 0 },
+        { input: roundedScreen, left: screenLeft, top: screenTop },
+        { input: Buffer.from(cutoutSvg), left: 0, top: 0 },
+      ])
+      .png()
+      .toBuffer();
+
+    return {
+      buffer,
+      width,
+      height,
+      screenOffset: { left: screenLeft, top: screenTop },
+    };
+  }
+
+  /**
+   * Frame a landscape screen: rotate it to portrait, frame it, and rotate
+   * the result back. The shadow is redrawn after rotation so it still
+   * falls downward.
+   */
+  private async frameLandscape(
+    screenshot: Buffer,
+    platform: DevicePlatform,
+    screenWidth: number,
+    screenHeight: number
+  ): Promise<FramedScreenshot> {
+    const portraitScreen = await sharp(screenshot).rotate(90).png().toBuffer();
+    const portrait = await this.framePortrait(portraitScreen, platform, screenHeight, screenWidth, false);
+
+    // Quarter turn counter-clockwise: (x, y) -> (y, width - x)
+    const rotated = await sharp(portrait.buffer).rotate(270).png().toBuffer();
+    const width = portrait.height;
+    const height = portrait.width;
+    const screenOffset = {
+      left: portrait.screenOffset.top,
+      top: portrait.width - portrait.screenOffset.left - screenHeight,
+    };
+
+    // Shadow is sized from the short side, matching the portrait frame
+    const spec: DeviceFrameSpec = DEVICE_FRAMES[platform];
+    const scale = screenHeight / DEVICE_FRAME_REFERENCE_WIDTH;
+    const bezel = Math.round(screenHeight * spec.bezel);
+    const screenRadius = Math.round(spec.screenRadius * scale);
+    const shadow = this.parseShadow(SHADOWS.device, scale);
+
+    const shadowLayer = await this.createShadowLayer(
+      width,
+      height,
+      {
+        left: screenOffset.left - bezel,
+        top: screenOffset.top - bezel,
+        width: screenWidth + bezel * 2,
+        height: screenHeight + bezel * 2,
+      },
+      screenRadius + bezel,
+      shadow
+    );
+
+    const buffer = await sharp(shadowLayer)
+      .composite([{ input: rotated, left: 0, top: 0 }])
+      .png()
+      .toBuffer();
+
+    return { buffer, width, height, screenOffset };
+  }
+
+  /**
+   * Mask screenshot corners with a rounded rectangle.
+   */
+  private async roundCorners(
+    screenshot: Buffer,
+    width: number,
+    height: number,
+    radius: number
+  ): Promise<Buffer> {
+    const mask = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="${width}" height="${height}" rx="${radius}" ry="${radius}" fill="#fff"/></svg>`;
+
+    return sharp(screenshot)
+      .ensureAlpha()
+      .composite([{ input: Buffer.from(mask), blend: 'dest-in' }])
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Blurred silhouette of the device body, offset per the shadow token.
+   */
+  private async createShadowLayer(
+    width: number,
+    height: number,
+    body: { left: number; top: number; width: number; height: number },
+    radius: number,
+    shadow: ShadowSpec
+  ): Promise<Buffer> {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect x="${body.left + shadow.offsetX}" y="${body.top + shadow.offsetY}" width="${body.width}" height="${body.height}" rx="${radius}" ry="${radius}" fill="${shadow.color}"/></svg>`;
+
+    // CSS blur radius ~ 2 standard deviations
+    const sigma = Math.max(0.3, shadow.blur / 2);
+    return sharp(Buffer.from(svg)).blur(sigma).png().toBuffer();
+  }
+
+  /**
+   * Empty transparent layer to compose a frame onto.
+   */
+  private async createTransparentLayer(width: number, height: number): Promise<Buffer> {
+    return sharp({
+      create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+    })
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Device body: side buttons (behind), rim and bezel.
+   */
+  private createBodySvg(
+    spec: DeviceFrameSpec,
+    width: number,
+    height: number,
+    body: { left: number; top: number; width: number; height: number; radius: number; buttonDepth: number }
+  ): string {
+    const rimWidth = Math.max(1, Math.round(body.buttonDepth / 2));
+
+    const buttons = spec.buttons
+      .map((button) => {
+        const radius = body.buttonDepth;
+        if (button.side === 'top') {
+          const length = Math.round(body.width * button.length);
+          const x = Math.round(body.left + body.width * button.position - length / 2);
+          return `<rect x="${x}" y="${body.top - body.buttonDepth}" width="${length}" height="${body.buttonDepth * 2}" rx="${radius}" fill="${spec.buttonColor}"/>`;
+        }
+
+        const length = Math.round(body.height * button.length);
+        const y = Math.round(body.top + body.height * button.position);
+        const x = button.side === 'left'
+          ? body.left - body.buttonDepth
+          : body.left + body.width - body.buttonDepth;
+        return `<rect x="${x}" y="${y}" width="${body.buttonDepth * 2}" height="${length}" rx="${radius}" fill="${spec.buttonColor}"/>`;
+      })
+      .join('');
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`,
+      buttons,
+      `<rect x="${body.left}" y="${body.top}" width="${body.width}" height="${body.height}" rx="${body.radius}" ry="${body.radius}" fill="${spec.bodyColor}"/>`,
+      `<rect x="${body.left + rimWidth / 2}" y="${body.top + rimWidth / 2}" width="${body.width - rimWidth}" height="${body.height - rimWidth}" rx="${body.radius - rimWidth / 2}" ry="${body.radius - rimWidth / 2}" fill="none" stroke="${spec.rimColor}" stroke-width="${rimWidth}"/>`,
+      '</svg>',
+    ].join('');
+  }
+
+  /**
+   * Camera cutout drawn over the screen (or in the bezel for negative `top`).
+   */
+  private createCutoutSvg(
+    spec: DeviceFrameSpec,
+    width: number,
+    height: number,
+    screen: { left: number; top: number; width: number }
+  ): string {
+    const cutout = spec.cutout;
+    const cutoutWidth = Math.round(screen.width * cutout.width);
+    const cutoutHeight = Math.round(screen.width * cutout.height);
+    const x = Math.round(screen.left + (screen.width - cutoutWidth) / 2);
+    const y = Math.round(screen.top + screen.width * cutout.top);
+
+    let shape: string;
+    switch (cutout.type) {
+      case 'dynamic-island':
+        shape = `<rect x="${x}" y="${y}" width="${cutoutWidth}" height="${cutoutHeight}" rx="${cutoutHeight / 2}" fill="#000"/>`;
+        break;
+      case 'notch': {
+        // Notch hangs from the top edge of the screen
+        const r = Math.round(cutoutHeight / 2);
+        shape = `<path d="M${x - r} ${screen.top}Q${x} ${screen.top} ${x} ${screen.top + r}V${screen.top + cutoutHeight - r}Q${x} ${screen.top + cutoutHeight} ${x + r} ${screen.top + cutoutHeight}H${x + cutoutWidth - r}Q${x + cutoutWidth} ${screen.top + cutoutHeight} ${x + cutoutWidth} ${screen.top + cutoutHeight - r}V${screen.top + r}Q${x + cutoutWidth} ${screen.top} ${x + cutoutWidth + r} ${screen.top}Z" fill="#000"/>`;
+        break;
+      }
+      default:
+        shape = `<circle cx="${x + cutoutWidth / 2}" cy="${y + cutoutHeight / 2}" r="${Math.max(1, cutoutWidth / 2)}" fill="#0a0a0c"/>`;
+        break;
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shape}</svg>`;
+  }
+
+  /**
+   * Parse a CSS box-shadow token (e.g., '0 25px 50px rgba(0, 0, 0, 0.25)').
+   * Lengths are scaled from reference-mockup pixels to output pixels.
+   */
+  private parseShadow(value: string, scale: number): ShadowSpec {
+    const match = /^\s*(-?[\d.]+)(?:px)?\s+(-?[\d.]+)(?:px)?\s+([\d.]+)(?:px)?\s+(.+)$/.exec(value);
+    if (!match) {
+      throw new Error(`Invalid shadow token: ${value}`);
+    }
+
+    return {
+      offsetX: Math.round(parseFloat(match[1]) * scale),
+      offsetY: Math.round(parseFloat(match[2]) * scale),
+      blur: Math.round(parseFloat(match[3]) * scale),
+      color: match[4].trim(),
+    };
+  }
+}
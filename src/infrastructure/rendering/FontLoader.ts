@@ -0,0 +1,218 @@
+/**
+ * FontLoader
+ *
+ * Loads the bundled Inter font files (FONT_FILES) and the per-script
+ * fallback fonts (FALLBACK_FONT_FILES) from disk, along with the shaping
+ * engine, so loaded fonts are ready for TextShaper.
+ * Parsed fonts are cached per weight for the lifetime of the loader.
+ *
+ * Design Principles:
+ * - Single Source of Truth: Paths come from the domain theme
+ * - Fail Fast: Missing or invalid files are reported, never guessed
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  FONT_FILES,
+  FONT_WEIGHTS,
+  FALLBACK_FONT_FILES,
+  FallbackFontId,
+  Locale,
+  getLocaleScripts,
+  getScriptFontFallbacks,
+} from '@/domain';
+import { TrueTypeFont } from './TrueTypeFont';
+import { loadShapingEngine } from './harfbuzz';
+
+/**
+ * Named font weight (key of FONT_FILES / FONT_WEIGHTS).
+ */
+export type FontWeightName = keyof typeof FONT_FILES;
+
+/**
+ * Weight of a fallback font file (regular or bold).
+ */
+export type FallbackWeightName = keyof (typeof FALLBACK_FONT_FILES)[FallbackFontId];
+
+/**
+ * Result of loading all bundled fonts.
+ */
+export interface FontLoadResult {
+  /** Weights that loaded successfully */
+  loaded: FontWeightName[];
+
+  /** Human-readable errors for weights that failed */
+  errors: string[];
+}
+
+/**
+ * Result of loading the fallback fonts.
+ */
+export interface FallbackFontLoadResult {
+  /** Fallback fonts whose files all loaded */
+  loaded: FallbackFontId[];
+
+  /** Human-readable errors for files that failed */
+  errors: string[];
+}
+
+/**
+ * Loader for bundled TrueType fonts.
+ */
+export class FontLoader {
+  private rootDir: string;
+  private fonts: Map<FontWeightName, TrueTypeFont> = new Map();
+  private fallbacks: Map<string, TrueTypeFont> = new Map();
+
+  /**
+   * @param rootDir - Project root that FONT_FILES paths are relative to
+   */
+  constructor(rootDir: string = process.cwd()) {
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Resolve absolute path of a font file.
+   */
+  resolvePath(weight: FontWeightName): string {
+    return path.join(this.rootDir, FONT_FILES[weight]);
+  }
+
+  /**
+   * Load and parse a single weight.
+   * Throws if the file is missing or not a valid TrueType font.
+   */
+  async load(weight: FontWeightName): Promise<TrueTypeFont> {
+    const cached = this.fonts.get(weight);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = this.resolvePath(weight);
+    const data = await fs.readFile(filePath);
+    await loadShapingEngine();
+    const font = TrueTypeFont.parse(data);
+
+    this.fonts.set(weight, font);
+    return font;
+  }
+
+  /**
+   * Load every weight in FONT_FILES, collecting errors instead of throwing.
+   */
+  async loadAll(): Promise<FontLoadResult> {
+    const result: FontLoadResult = { loaded: [], errors: [] };
+
+    for (const weight of Object.keys(FONT_FILES) as FontWeightName[]) {
+      try {
+        await this.load(weight);
+        result.loaded.push(weight);
+      } catch (error: any) {
+        result.errors.push(`${FONT_FILES[weight]}: ${error.message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve absolute path of a fallback font file.
+   */
+  resolveFallbackPath(fontId: FallbackFontId, weight: FallbackWeightName): string {
+    return path.join(this.rootDir, FALLBACK_FONT_FILES[fontId][weight]);
+  }
+
+  /**
+   * Load and parse a single fallback font file.
+   * Throws if the file is missing or not a valid TrueType font.
+   */
+  async loadFallback(fontId: FallbackFontId, weight: FallbackWeightName): Promise<TrueTypeFont> {
+    const key = `${fontId}:${weight}`;
+    const cached = this.fallbacks.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await fs.readFile(this.resolveFallbackPath(fontId, weight));
+    await loadShapingEngine();
+    const font = TrueTypeFont.parse(data);
+
+    this.fallbacks.set(key, font);
+    return font;
+  }
+
+  /**
+   * Load every file in FALLBACK_FONT_FILES, collecting errors instead of throwing.
+   * Missing fallbacks only matter for text in their scripts.
+   */
+  async loadFallbacks(): Promise<FallbackFontLoadResult> {
+    const result: FallbackFontLoadResult = { loaded: [], errors: [] };
+
+    for (const fontId of Object.keys(FALLBACK_FONT_FILES) as FallbackFontId[]) {
+      let complete = true;
+
+      for (const weight of Object.keys(FALLBACK_FONT_FILES[fontId]) as FallbackWeightName[]) {
+        try {
+          await this.loadFallback(fontId, weight);
+        } catch (error: any) {
+          complete = false;
+          result.errors.push(`${FALLBACK_FONT_FILES[fontId][weight]}: ${error.message}`);
+        }
+      }
+
+      if (complete) {
+        result.loaded.push(fontId);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Locales whose text cannot be rendered: a script they are written in
+   * (see getLocaleScripts) has no fallback font that loads.
+   */
+  async findUnsupportedLocales(locales: readonly Locale[]): Promise<Locale[]> {
+    const { loaded } = await this.loadFallbacks();
+    return locales.filter((locale) =>
+      getLocaleScripts(locale).some(
+        (script) => !getScriptFontFallbacks(script).some((fontId) => loaded.includes(fontId))
+      )
+    );
+  }
+
+  /**
+   * Get an already-loaded fallback font for a numeric CSS weight.
+   * Weights of 600 and above use the bold file.
+   * Returns undefined if that file has not been loaded.
+   */
+  getFallbackByCssWeight(fontId: FallbackFontId, cssWeight: number): TrueTypeFont | undefined {
+    const weight: FallbackWeightName = cssWeight >= FONT_WEIGHTS.semibold ? 'bold' : 'regular';
+    return this.fallbacks.get(`${fontId}:${weight}`);
+  }
+
+  /**
+   * Get an already-loaded font for a numeric CSS weight (e.g., 700).
+   * Returns undefined if that weight has not been loaded.
+   */
+  getByCssWeight(cssWeight: number): TrueTypeFont | undefined {
+    return this.fonts.get(FontLoader.toWeightName(cssWeight));
+  }
+
+  /**
+   * Map a numeric CSS weight to the nearest bundled weight name.
+   */
+  static toWeightName(cssWeight: number): FontWeightName {
+    const entries = Object.entries(FONT_WEIGHTS) as [FontWeightName, number][];
+    let nearest = entries[0];
+
+    for (const entry of entries) {
+      if (Math.abs(entry[1] - cssWeight) < Math.abs(nearest[1] - cssWeight)) {
+        nearest = entry;
+      }
+    }
+
+    return nearest[0];
+  }
+}
@@ -23,10 +23,47 @@ export interface RenderOptions {
   /** Screenshot image buffer */
   screenshotBuffer: Buffer;
   
+  /** Buffers of the slide's `additionalScreenshots`, in order (multi-device templates) */
+  additionalScreenshotBuffers?: Buffer[];
+  
+  /** Optional brand color override (hex) */
+  brandColor?: string;
+}
+
+/**
+ * Render options for a panorama (consecutive slides on one wide canvas).
+ */
+export interface PanoramaRenderOptions {
+  /** Target device specifications (of each slide, not the whole canvas) */
+  target: DeviceTarget;
+  
+  /** 2 or more consecutive slides, left to right */
+  slides: Slide[];
+  
+  /** Screenshot image buffer per slide, in slide order */
+  screenshotBuffers: Buffer[];
+  
+  /** Buffers of each slide's `additionalScreenshots`, in slide order */
+  additionalScreenshotBuffers?: Buffer[][];
+  
   /** Optional brand color override (hex) */
   brandColor?: string;
 }
 
+/**
+ * Final layout of one text block, reported for verification.
+ */
+export interface TextLayoutReport {
+  /** Line breaks as rendered */
+  lines: string[];
+  
+  /** Font size after auto-fit (pixels) */
+  fontSize: number;
+  
+  /** True if text was cut with an ellipsis */
+  truncated: boolean;
+}
+
 /**
  * Rendered image result.
  */
@@ -46,6 +83,16 @@ export interface RenderedImage {
     targetId: string;
     slideId: number;
     templateId: string;
+    textLayout: {
+      headline: TextLayoutReport;
+      subheadline: TextLayoutReport;
+    };
+    
+    /** Panorama the image was sliced from (omitted for single slides) */
+    panorama?: {
+      startSlideId: number;
+      slideCount: number;
+    };
   };
 }
 
@@ -66,6 +113,18 @@ export interface IImageRenderer {
    */
   render(options: RenderOptions): Promise<RenderedImage>;
   
+  /**
+   * Render consecutive slides as one wide canvas, sliced per slide.
+   * 
+   * @param options - Panorama render options
+   * @returns One rendered image per slide, in slide order
+   * 
+   * Guarantees:
+   * - Each image exactly matches the target dimensions
+   * - Adjacent images continue seamlessly across their shared edge
+   */
+  renderPanorama(options: PanoramaRenderOptions): Promise<RenderedImage[]>;
+  
   /**
    * Check if renderer is ready (fonts loaded, etc.).
    */
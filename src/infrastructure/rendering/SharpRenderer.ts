@@ -3,35 +3,117 @@
  * 
  * Server-side image rendering using Sharp library.
  * Composites background, screenshot, and text overlays.
+ * Panoramas are composed on one wide canvas, then sliced per slide.
  * 
  * Design Principles:
  * - Exact Pixel Dimensions: Guarantees output matches device target
  * - Deterministic: Same input produces identical output
  * - No External Dependencies: Works offline with bundled fonts
+ *   (text is drawn as glyph outlines, never via system font lookup)
  */
 
 import sharp from 'sharp';
 import {
   THEME,
   getTemplateById,
+  resolveTemplateForOrientation,
   getResponsiveFontSize,
   hexToRgb,
   getBrandColor,
+  substituteBrandColor,
+  shouldApplyDeviceFrame,
+  getTextColorForBackground,
+  requiresOpaqueImage,
+  getTextDirection,
+  resolveTextAlign,
+  ResponsiveTypographyKey,
+  ScreenshotCrop,
+  ScreenshotPosition,
+  validateScreenshotCrop,
+  resolveFramePlatform,
+  getSlideScreenshots,
+  DeviceTarget,
+  Slide,
+  Template,
 } from '@/domain';
-import { IImageRenderer, RenderOptions, RenderedImage } from './IImageRenderer';
+import {
+  IImageRenderer,
+  RenderOptions,
+  PanoramaRenderOptions,
+  RenderedImage,
+  TextLayoutReport,
+} from './IImageRenderer';
+import { createGradientSvg } from './gradients';
+import { FontLoader } from './FontLoader';
+import { TextLayoutEngine, TextLayout } from './TextLayoutEngine';
+import { DeviceFrameRenderer } from './DeviceFrameRenderer';
+import { computeSlideLayout, LayoutBox, SlideLayout } from './SlideLayout';
+
+/**
+ * Headline and subheadline laid out at one text block width.
+ */
+interface TextBlockLayout {
+  headline: TextLayout;
+  subheadline: TextLayout;
+  
+  /** Total height including the gap between the two blocks */
+  height: number;
+}
+
+/**
+ * A screenshot assigned to one of its template's positions.
+ */
+interface PlacedScreenshot {
+  buffer: Buffer;
+  crop?: ScreenshotCrop;
+  position: ScreenshotPosition;
+}
+
+/**
+ * A slide laid out in its target-sized panel of the canvas.
+ */
+interface SlidePanel {
+  slide: Slide;
+  template: Template;
+  
+  /** One per template screenshot position */
+  screenshots: PlacedScreenshot[];
+  
+  /** Boxes relative to the panel */
+  layout: SlideLayout;
+  textBlock: TextBlockLayout;
+  textAlign: 'left' | 'center' | 'right';
+}
 
 /**
  * Sharp-based image renderer implementation.
  */
 export class SharpRenderer implements IImageRenderer {
   private ready: boolean = false;
+  private initializationErrors: string[] = [];
+  private fallbackFontErrors: string[] = [];
+  private fonts: FontLoader;
+  private textLayout: TextLayoutEngine;
+  private deviceFrames: DeviceFrameRenderer;
+  
+  constructor(fonts: FontLoader = new FontLoader()) {
+    this.fonts = fonts;
+    this.textLayout = new TextLayoutEngine(fonts);
+    this.deviceFrames = new DeviceFrameRenderer();
+  }
   
   /**
    * Initialize renderer (verify fonts exist).
    */
   async initialize(): Promise<void> {
-    // TODO: Verify font files exist
-    this.ready = true;
+    const { errors } = await this.fonts.loadAll();
+    
+    // Every bundled weight must load; no silent fallback to system fonts
+    this.initializationErrors = errors;
+    this.ready = errors.length === 0;
+    
+    // Script fallback fonts are optional: only text in their script fails without them
+    this.fallbackFontErrors = (await this.fonts.loadFallbacks()).errors;
   }
   
   /**
@@ -41,88 +123,279 @@ export class SharpRenderer implements IImageRenderer {
     return this.ready;
   }
   
+  /**
+   * Get errors from the last initialize() call (e.g., missing font files).
+   */
+  getInitializationErrors(): string[] {
+    return [...this.initializationErrors];
+  }
+  
+  /**
+   * Get fallback font files that failed to load in the last initialize() call.
+   * Text in those scripts cannot be rendered.
+   */
+  getFallbackFontErrors(): string[] {
+    return [...this.fallbackFontErrors];
+  }
+  
+  /**
+   * Get the pixel size of an encoded image (e.g., to validate a crop).
+   * Throws if the image cannot be read.
+   */
+  async getImageSize(image: Buffer): Promise<{ width: number; height: number }> {
+    const { width, height } = await sharp(image).metadata();
+    if (!width || !height) {
+      throw new Error('Unable to read screenshot dimensions');
+    }
+    return { width, height };
+  }
+  
   /**
    * Render a slide to an image.
    */
   async render(options: RenderOptions): Promise<RenderedImage> {
-    const { target, slide, screenshotBuffer, brandColor } = options;
-    
-    // Get template configuration
-    const template = getTemplateById(slide.templateId);
+    const { target, slide, screenshotBuffer, additionalScreenshotBuffers = [], brandColor } = options;
+    const [image] = await this.renderCanvas(
+      target,
+      [{ slide, screenshotBuffers: [screenshotBuffer, ...additionalScreenshotBuffers] }],
+      brandColor
+    );
+    return image;
+  }
+  
+  /**
+   * Render consecutive slides as one wide canvas, sliced per slide.
+   */
+  async renderPanorama(options: PanoramaRenderOptions): Promise<RenderedImage[]> {
+    const { target, slides, screenshotBuffers, additionalScreenshotBuffers = [], brandColor } = options;
     
-    // Create base canvas
-    const canvas = await this.createBaseCanvas(target, template, brandColor);
+    if (slides.length < 2) {
+      throw new Error(`A panorama needs 2 or more slides, got ${slides.length}`);
+    }
+    if (screenshotBuffers.length !== slides.length) {
+      throw new Error(
+        `Panorama has ${slides.length} slides but ${screenshotBuffers.length} screenshots`
+      );
+    }
+    const gap = slides.findIndex((slide, index) => slide.id !== slides[0].id + index);
+    if (gap !== -1) {
+      throw new Error(
+        `Panorama slides must be consecutive: slide ${slides[gap].id} follows slide ${slides[gap - 1].id}`
+      );
+    }
     
-    // Composite screenshot
-    const withScreenshot = await this.compositeScreenshot(
-      canvas,
-      screenshotBuffer,
+    return this.renderCanvas(
       target,
-      template
+      slides.map((slide, index) => ({
+        slide,
+        screenshotBuffers: [screenshotBuffers[index], ...(additionalScreenshotBuffers[index] ?? [])],
+      })),
+      brandColor
     );
+  }
+  
+  // ========================================================================
+  // Private Rendering Methods
+  // ========================================================================
+  
+  /**
+   * Render slides side by side on one canvas (target width per slide)
+   * and slice it into one image per slide.
+   * The first slide's template background spans the whole canvas.
+   */
+  private async renderCanvas(
+    target: DeviceTarget,
+    slides: { slide: Slide; screenshotBuffers: Buffer[] }[],
+    brandColor?: string
+  ): Promise<RenderedImage[]> {
+    if (!this.ready) {
+      throw new Error(
+        `Renderer not ready: ${this.initializationErrors.join('; ') || 'call initialize() first'}`
+      );
+    }
     
-    // Add text overlays
-    const withText = await this.addTextOverlays(
-      withScreenshot,
-      slide,
-      target,
-      template
+    const panels: SlidePanel[] = [];
+    for (const { slide, screenshotBuffers } of slides) {
+      panels.push(await this.layoutPanel(slide, screenshotBuffers, target));
+    }
+    
+    // Create base canvas
+    const canvasSize = { width: target.width * panels.length, height: target.height };
+    const background = panels[0].template;
+    let canvas = await this.createBaseCanvas(canvasSize, background, brandColor);
+    
+    // Composite screenshots, each in its slide's panel, in z-order
+    // (a screenshot shifted past its panel continues in the next one)
+    for (const [index, panel] of panels.entries()) {
+      for (const item of getPaintOrder(panel.screenshots)) {
+        canvas = await this.compositeScreenshot(
+          canvas,
+          canvasSize,
+          panel.screenshots[item],
+          target,
+          shiftBox(panel.layout.screenshots[item], index * target.width)
+        );
+      }
+    }
+    
+    // Add text overlays above every screenshot, so a screenshot crossing
+    // a seam never covers the next slide's text; scrims go between the
+    // screenshots and text they overlay
+    const textColor = this.getTextColor(background, brandColor);
+    const withText = canvas.composite(
+      panels.flatMap((panel, index) => [
+        ...(panel.layout.scrim
+          ? [this.createScrimOverlay(shiftBox(panel.layout.scrim, index * target.width), textColor)]
+          : []),
+        ...this.createTextOverlays(
+          panel.textBlock,
+          shiftBox(panel.layout.text, index * target.width),
+          panel.textAlign,
+          textColor
+        ),
+      ])
     );
     
-    // Convert to final PNG buffer
-    const finalImage = await withText
-      .png({ quality: 100, compressionLevel: 9 })
-      .toBuffer({ resolveWithObject: true });
+    // Slice panoramas per slide (from a flattened canvas, as sharp
+    // extracts before compositing within one pipeline)
+    const wide = panels.length > 1 ? await withText.png().toBuffer() : null;
+    const images: RenderedImage[] = [];
+    
+    for (const [index, panel] of panels.entries()) {
+      const slice = wide
+        ? sharp(wide).extract({ left: index * target.width, top: 0, width: target.width, height: target.height })
+        : withText;
+      
+      // Convert to final PNG buffer (24-bit for stores that reject alpha)
+      const output = requiresOpaqueImage(target) ? slice.removeAlpha() : slice;
+      const finalImage = await output
+        .png({ quality: 100, compressionLevel: 9 })
+        .toBuffer({ resolveWithObject: true });
+      
+      // Verify dimensions
+      if (finalImage.info.width !== target.width || finalImage.info.height !== target.height) {
+        throw new Error(
+          `Dimension mismatch: expected ${target.width}x${target.height}, got ${finalImage.info.width}x${finalImage.info.height}`
+        );
+      }
+      
+      images.push({
+        buffer: finalImage.data,
+        width: finalImage.info.width,
+        height: finalImage.info.height,
+        format: 'png',
+        metadata: {
+          targetId: target.id,
+          slideId: panel.slide.id,
+          templateId: panel.template.id,
+          textLayout: {
+            headline: this.toLayoutReport(panel.textBlock.headline),
+            subheadline: this.toLayoutReport(panel.textBlock.subheadline),
+          },
+          ...(wide ? { panorama: { startSlideId: panels[0].slide.id, slideCount: panels.length } } : {}),
+        },
+      });
+    }
     
-    // Verify dimensions
-    if (finalImage.info.width !== target.width || finalImage.info.height !== target.height) {
+    return images;
+  }
+  
+  /**
+   * Lay out a slide within a target-sized panel.
+   * Screenshot positions take the slide's screenshots in order, repeating
+   * them if the template has more positions than the slide has screenshots.
+   * 
+   * @param screenshotBuffers - Buffers of the slide's `screenshot`, then its `additionalScreenshots`
+   */
+  private async layoutPanel(
+    slide: Slide,
+    screenshotBuffers: Buffer[],
+    target: DeviceTarget
+  ): Promise<SlidePanel> {
+    // Get template configuration (swapped for its variant if the
+    // template does not support the target's orientation)
+    const template = resolveTemplateForOrientation(
+      getTemplateById(slide.templateId),
+      target.orientation
+    );
+    
+    const sources = getSlideScreenshots(slide);
+    if (screenshotBuffers.length !== sources.length) {
       throw new Error(
-        `Dimension mismatch: expected ${target.width}x${target.height}, got ${finalImage.info.width}x${finalImage.info.height}`
+        `Slide ${slide.id} has ${sources.length} screenshots, got ${screenshotBuffers.length} screenshot buffers`
       );
     }
     
+    // Visible size of each screenshot (a cropped screenshot is laid out
+    // at the crop's aspect ratio)
+    const visibleSizes: { width: number; height: number }[] = [];
+    for (const [index, source] of sources.entries()) {
+      const size = await this.getImageSize(screenshotBuffers[index]);
+      if (source.crop) {
+        validateScreenshotCrop(source.crop, size);
+      }
+      visibleSizes.push(source.crop ?? size);
+    }
+    
+    const screenshots = template.screenshotPositions.map((position, index): PlacedScreenshot => ({
+      buffer: screenshotBuffers[index % sources.length],
+      crop: sources[index % sources.length].crop,
+      position,
+    }));
+    
+    // Compute text and screenshot boxes (and any scrim) for the layout primitive
+    // (RTL locales mirror the template's text alignment)
+    const textDirection = getTextDirection(slide.text.locale);
+    const layout = computeSlideLayout({
+      target,
+      template,
+      screenshotAspectRatios: screenshots.map((_, index) => {
+        const size = visibleSizes[index % sources.length];
+        return size.height / size.width;
+      }),
+      measureTextHeight: (width) => this.layoutTextBlock(slide, target, width).height,
+      textDirection,
+    });
+    
     return {
-      buffer: finalImage.data,
-      width: finalImage.info.width,
-      height: finalImage.info.height,
-      format: 'png',
-      metadata: {
-        targetId: target.id,
-        slideId: slide.id,
-        templateId: template.id,
-      },
+      slide,
+      template,
+      screenshots,
+      layout,
+      textBlock: this.layoutTextBlock(slide, target, layout.text.width),
+      textAlign: resolveTextAlign(template.textPosition.align, textDirection),
     };
   }
   
-  // ========================================================================
-  // Private Rendering Methods
-  // ========================================================================
-  
   /**
    * Create base canvas with background color/gradient.
    */
   private async createBaseCanvas(
-    target: any,
-    template: any,
+    canvasSize: { width: number; height: number },
+    template: Template,
     brandColor?: string
   ): Promise<sharp.Sharp> {
-    const { width, height } = target;
+    const { width, height } = canvasSize;
     const bgConfig = template.background;
     
-    let backgroundColor: string;
-    
-    if (bgConfig.type === 'solid') {
-      backgroundColor = brandColor 
-        ? getBrandColor(brandColor)
-        : bgConfig.colors[0];
-    } else {
-      // For gradients, use first color as base (Sharp doesn't support gradients natively)
-      // In production, we'd render gradient to SVG first
-      backgroundColor = brandColor
-        ? getBrandColor(brandColor)
-        : bgConfig.colors[0];
+    if (bgConfig.type === 'gradient') {
+      // Brand color replaces palette stops; gradient shape is preserved
+      const colors = substituteBrandColor(bgConfig.colors, brandColor);
+      const gradientSvg = createGradientSvg(width, height, colors, bgConfig.gradient);
+      
+      const gradientBuffer = await sharp(Buffer.from(gradientSvg))
+        .resize(width, height, { fit: 'fill' })
+        .ensureAlpha()
+        .png()
+        .toBuffer();
+      
+      return sharp(gradientBuffer);
     }
     
+    const backgroundColor = brandColor 
+      ? getBrandColor(brandColor)
+      : bgConfig.colors[0];
+    
     // Convert hex to RGB
     const rgb = hexToRgb(backgroundColor);
     
@@ -139,160 +412,324 @@ export class SharpRenderer implements IImageRenderer {
   
   /**
    * Composite screenshot onto canvas.
+   * The screenshot fills the layout box exactly (see fitScreenshot in
+   * SlideLayout); cover boxes cut off the bottom of the screen, and bleed
+   * boxes below the canvas edge are clipped with their frame. Rotated
+   * positions turn, frame included, around the center of the screen.
    */
   private async compositeScreenshot(
     canvas: sharp.Sharp,
-    screenshotBuffer: Buffer,
-    target: any,
-    template: any
+    canvasSize: { width: number; height: number },
+    screenshot: PlacedScreenshot,
+    target: DeviceTarget,
+    box: LayoutBox
   ): Promise<sharp.Sharp> {
-    const { width: canvasWidth, height: canvasHeight } = target;
-    const screenshotConfig = template.screenshotPosition;
+    const { width: canvasWidth, height: canvasHeight } = canvasSize;
+    const { buffer: screenshotBuffer, crop, position } = screenshot;
+    
+    // Screenshot dimensions and position come from the slide layout
+    const screenshotTop = box.top;
+    const screenshotLeft = box.left;
     
-    // Calculate screenshot dimensions
-    const screenshotWidth = Math.round(canvasWidth * (screenshotConfig.width / 100));
-    const screenshotTop = Math.round(canvasHeight * (screenshotConfig.verticalPosition / 100));
+    // Crop (in source pixels) before resizing, so the crop fills the box
+    const source = sharp(screenshotBuffer);
+    if (crop) {
+      source.extract({ left: crop.x, top: crop.y, width: crop.width, height: crop.height });
+    }
     
-    // Resize screenshot to fit
-    const resizedScreenshot = await sharp(screenshotBuffer)
-      .resize(screenshotWidth, undefined, {
-        fit: 'contain',
+    // Resize screenshot to fill the box, keeping the top of the screen
+    // (contain and bleed boxes already have the screenshot's aspect ratio)
+    const { data: resizedScreenshot, info: resized } = await source
+      .resize(box.width, box.height, {
+        fit: 'cover',
+        position: 'top',
         withoutEnlargement: false,
       })
       .png()
+      .toBuffer({ resolveWithObject: true });
+    
+    if (resized.width !== box.width || resized.height !== box.height) {
+      throw new Error(
+        `Screenshot resized to ${resized.width}x${resized.height}, expected ${box.width}x${box.height}`
+      );
+    }
+    
+    // Wrap in a device frame if the position asks for one;
+    // the screen (not the bezel) lands at the layout position
+    let layer = { input: resizedScreenshot, left: screenshotLeft, top: screenshotTop };
+    let layerSize = { width: resized.width, height: resized.height };
+    let screenOffset = { left: 0, top: 0 };
+    
+    if (shouldApplyDeviceFrame(position)) {
+      const framed = await this.deviceFrames.frame(
+        resizedScreenshot,
+        resolveFramePlatform(position, target.platform),
+        resized.width,
+        resized.height
+      );
+      screenOffset = framed.screenOffset;
+      layer = {
+        input: framed.buffer,
+        left: screenshotLeft - framed.screenOffset.left,
+        top: screenshotTop - framed.screenOffset.top,
+      };
+      layerSize = { width: framed.width, height: framed.height };
+    }
+    
+    if (position.rotation) {
+      layer = await this.rotateLayer(layer, layerSize, {
+        x: screenOffset.left + resized.width / 2,
+        y: screenOffset.top + resized.height / 2,
+      }, position.rotation);
+    }
+    
+    const visible = await this.clipToCanvas(layer, canvasWidth, canvasHeight);
+    if (!visible) {
+      return canvas;
+    }
+    
+    // Composite onto canvas and flatten, so later composites layer on top
+    // (sharp replaces, rather than appends to, a pipeline's composite list)
+    const composited = await canvas
+      .composite([visible])
+      .png()
       .toBuffer();
     
-    // Get resized screenshot dimensions
-    await sharp(resizedScreenshot).metadata();
+    return sharp(composited);
+  }
+  
+  /**
+   * Rotate a layer clockwise around a pivot (in layer pixels), keeping
+   * the pivot at the same canvas position. Corners uncovered by the
+   * rotation are transparent.
+   */
+  private async rotateLayer(
+    layer: { input: Buffer; left: number; top: number },
+    size: { width: number; height: number },
+    pivot: { x: number; y: number },
+    degrees: number
+  ): Promise<{ input: Buffer; left: number; top: number }> {
+    const { data, info } = await sharp(layer.input)
+      .ensureAlpha()
+      .rotate(degrees, { background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer({ resolveWithObject: true });
     
-    // Center horizontally
-    const screenshotLeft = Math.round((canvasWidth - screenshotWidth) / 2);
+    // Pivot relative to the layer center, rotated (sharp turns around the center)
+    const radians = (degrees * Math.PI) / 180;
+    const dx = pivot.x - size.width / 2;
+    const dy = pivot.y - size.height / 2;
+    const rotatedX = info.width / 2 + dx * Math.cos(radians) - dy * Math.sin(radians);
+    const rotatedY = info.height / 2 + dx * Math.sin(radians) + dy * Math.cos(radians);
     
-    // Composite onto canvas
-    return canvas.composite([
-      {
-        input: resizedScreenshot,
-        left: screenshotLeft,
-        top: screenshotTop,
-      },
-    ]);
+    return {
+      input: data,
+      left: Math.round(layer.left + pivot.x - rotatedX),
+      top: Math.round(layer.top + pivot.y - rotatedY),
+    };
   }
   
   /**
-   * Add text overlays to canvas.
-   * 
-   * Note: Sharp doesn't have built-in text rendering.
-   * For MVP, we'll create SVG text and composite it.
+   * Crop a layer to the part that overlaps the canvas.
+   * Sharp requires composite inputs to fit inside the base image.
+   * Returns null if nothing is visible.
    */
-  private async addTextOverlays(
-    canvas: sharp.Sharp,
-    slide: any,
-    target: any,
-    template: any
-  ): Promise<sharp.Sharp> {
-    const { width: canvasWidth, height: canvasHeight } = target;
-    const { text } = slide;
-    const textConfig = template.textPosition;
+  private async clipToCanvas(
+    layer: { input: Buffer; left: number; top: number },
+    canvasWidth: number,
+    canvasHeight: number
+  ): Promise<{ input: Buffer; left: number; top: number } | null> {
+    const { width = 0, height = 0 } = await sharp(layer.input).metadata();
+    
+    const left = Math.max(0, layer.left);
+    const top = Math.max(0, layer.top);
+    const right = Math.min(canvasWidth, layer.left + width);
+    const bottom = Math.min(canvasHeight, layer.top + height);
     
-    // Calculate safe area
-    const safeLeft = target.safeMargin.left;
-    const safeRight = canvasWidth - target.safeMargin.right;
-    const safeWidth = safeRight - safeLeft;
+    if (right <= left || bottom <= top) {
+      return null;
+    }
+    
+    if (left === layer.left && top === layer.top && right - left === width && bottom - top === height) {
+      return layer;
+    }
     
-    // Calculate text area width
-    const textAreaWidth = Math.round(safeWidth * (textConfig.maxWidth / 100));
+    const input = await sharp(layer.input)
+      .extract({
+        left: left - layer.left,
+        top: top - layer.top,
+        width: right - left,
+        height: bottom - top,
+      })
+      .png()
+      .toBuffer();
+    
+    return { input, left, top };
+  }
+  
+  /**
+   * Lay out headline and subheadline at a text block width.
+   * Font sizes start from the responsive sizes and shrink to fit.
+   */
+  private layoutTextBlock(slide: Slide, target: DeviceTarget, width: number): TextBlockLayout {
+    const { text } = slide;
+    const direction = getTextDirection(text.locale);
     
-    // Calculate vertical position
-    const textTop = Math.round(canvasHeight * (textConfig.verticalPosition / 100));
+    // Get responsive font sizes (the feature graphic has its own scale)
+    const typographyKey: ResponsiveTypographyKey =
+      target.kind === 'feature-graphic' ? 'featureGraphic' : target.platform;
     
-    // Get responsive font sizes
     const headlineFontSize = getResponsiveFontSize(
       THEME.typography.headline.fontSize,
-      target.platform,
+      typographyKey,
       'headline'
     );
     
     const subheadlineFontSize = getResponsiveFontSize(
       THEME.typography.subheadline.fontSize,
-      target.platform,
+      typographyKey,
       'subheadline'
     );
     
+    const headline = this.textLayout.layout(text.headline, {
+      fontSize: headlineFontSize,
+      minFontSize: Math.round(headlineFontSize * THEME.textFit.headline.minFontScale),
+      fontWeight: THEME.typography.headline.fontWeight,
+      lineHeightRatio: THEME.typography.headline.lineHeight / THEME.typography.headline.fontSize,
+      letterSpacing: THEME.typography.headline.letterSpacing,
+      maxWidth: width,
+      maxLines: THEME.textFit.headline.maxLines,
+      direction,
+      locale: text.locale,
+    });
+    
+    const subheadline = this.textLayout.layout(text.subheadline, {
+      fontSize: subheadlineFontSize,
+      minFontSize: Math.round(subheadlineFontSize * THEME.textFit.subheadline.minFontScale),
+      fontWeight: THEME.typography.subheadline.fontWeight,
+      lineHeightRatio: THEME.typography.subheadline.lineHeight / THEME.typography.subheadline.fontSize,
+      letterSpacing: THEME.typography.subheadline.letterSpacing,
+      maxWidth: width,
+      maxLines: THEME.textFit.subheadline.maxLines,
+      direction,
+      locale: text.locale,
+    });
+    
+    return {
+      headline,
+      subheadline,
+      height: headline.height + THEME.textFit.blockGap + subheadline.height,
+    };
+  }
+  
+  /**
+   * Create text overlays for a slide's text box.
+   * 
+   * Note: Sharp doesn't have built-in text rendering.
+   * Text is laid out (wrapped and auto-fit) by TextLayoutEngine,
+   * then drawn as SVG and composited into the layout's text box.
+   */
+  private createTextOverlays(
+    textBlock: TextBlockLayout,
+    box: LayoutBox,
+    align: 'left' | 'center' | 'right',
+    color: string
+  ): sharp.OverlayOptions[] {
     // Create SVG for headline
     const headlineSvg = this.createTextSvg(
-      text.headline,
-      headlineFontSize,
-      THEME.fontWeights.bold,
-      textConfig.align,
-      textAreaWidth,
-      THEME.textColors.overlay.primary
+      textBlock.headline,
+      THEME.typography.headline.fontWeight,
+      align,
+      box.width,
+      color
     );
     
     // Create SVG for subheadline
     const subheadlineSvg = this.createTextSvg(
-      text.subheadline,
-      subheadlineFontSize,
-      THEME.fontWeights.medium,
-      textConfig.align,
-      textAreaWidth,
-      THEME.textColors.overlay.primary
+      textBlock.subheadline,
+      THEME.typography.subheadline.fontWeight,
+      align,
+      box.width,
+      color
     );
     
-    // Calculate positions
-    let headlineLeft = safeLeft;
-    let subheadlineLeft = safeLeft;
-    
-    if (textConfig.align === 'center') {
-      headlineLeft = Math.round((canvasWidth - textAreaWidth) / 2);
-      subheadlineLeft = headlineLeft;
-    } else if (textConfig.align === 'right') {
-      headlineLeft = safeRight - textAreaWidth;
-      subheadlineLeft = headlineLeft;
-    }
-    
-    const subheadlineTop = textTop + headlineFontSize + 20; // 20px gap
+    const subheadlineTop = box.top + textBlock.headline.height + THEME.textFit.blockGap;
     
-    // Composite text overlays
-    return canvas.composite([
+    return [
       {
         input: Buffer.from(headlineSvg),
-        left: headlineLeft,
-        top: textTop,
+        left: box.left,
+        top: box.top,
       },
       {
         input: Buffer.from(subheadlineSvg),
-        left: subheadlineLeft,
+        left: box.left,
         top: subheadlineTop,
       },
-    ]);
+    ];
   }
   
   /**
-   * Create SVG text element.
+   * Create the scrim behind overlay text: a band in the color that
+   * contrasts with the text, fading out at its top and bottom edges.
+   */
+  private createScrimOverlay(box: LayoutBox, textColor: string): sharp.OverlayOptions {
+    const color = getTextColorForBackground(textColor);
+    const { opacity, fade } = THEME.textScrim;
+    const stops = [
+      [0, 0],
+      [fade, opacity],
+      [1 - fade, opacity],
+      [1, 0],
+    ]
+      .map(([offset, stopOpacity]) =>
+        `<stop offset="${offset * 100}%" stop-color="${color}" stop-opacity="${stopOpacity}"/>`
+      )
+      .join('');
+    
+    const svg = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="${box.width}" height="${box.height}">
+        <defs><linearGradient id="scrim" x1="0" y1="0" x2="0" y2="1">${stops}</linearGradient></defs>
+        <rect width="${box.width}" height="${box.height}" fill="url(#scrim)"/>
+      </svg>
+    `;
+    
+    return { input: Buffer.from(svg.trim()), left: box.left, top: box.top };
+  }
+  
+  /**
+   * Create SVG text block (one glyph-outline path per laid-out line).
    */
   private createTextSvg(
-    text: string,
-    fontSize: number,
+    layout: TextLayout,
     fontWeight: number,
     align: 'left' | 'center' | 'right',
     maxWidth: number,
     color: string
   ): string {
-    const textAnchor = align === 'center' ? 'middle' : align === 'right' ? 'end' : 'start';
-    const x = align === 'center' ? maxWidth / 2 : align === 'right' ? maxWidth : 0;
+    const baseline = this.textLayout.getBaselineOffset(layout, fontWeight);
+    
+    const paths = layout.lines
+      .map((line, i) => {
+        const x = align === 'center'
+          ? (maxWidth - line.width) / 2
+          : align === 'right' ? maxWidth - line.width : 0;
+        const d = this.textLayout.getLinePath(
+          line.text,
+          layout.fontSize,
+          fontWeight,
+          layout.letterSpacing,
+          x,
+          baseline + i * layout.lineHeight,
+          layout
+        );
+        return d ? `<path d="${d}"/>` : '';
+      })
+      .join('');
     
-    // Simple SVG text (no wrapping for MVP)
     const svg = `
-      <svg width="${maxWidth}" height="${fontSize + 10}">
-        <text
-          x="${x}"
-          y="${fontSize}"
-          font-family="Inter, sans-serif"
-          font-size="${fontSize}"
-          font-weight="${fontWeight}"
-          fill="${color}"
-          text-anchor="${textAnchor}"
-        >${this.escapeXml(text)}</text>
+      <svg xmlns="http://www.w3.org/2000/svg" width="${maxWidth}" height="${Math.max(layout.height, 1)}">
+        <g fill="${color}">${paths}</g>
       </svg>
     `;
     
@@ -300,14 +737,44 @@ export class SharpRenderer implements IImageRenderer {
   }
   
   /**
-   * Escape XML special characters.
+   * Text color with enough contrast for the slide background.
+   * Gradients are judged by their first (top) stop.
+   */
+  private getTextColor(template: Template, brandColor?: string): string {
+    const bgConfig = template.background;
+    const background = bgConfig.type === 'solid'
+      ? (brandColor ? getBrandColor(brandColor) : bgConfig.colors[0])
+      : substituteBrandColor(bgConfig.colors, brandColor)[0];
+    
+    return getTextColorForBackground(background);
+  }
+  
+  /**
+   * Reduce a text layout to the metadata reported with the image.
    */
-  private escapeXml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
+  private toLayoutReport(layout: TextLayout): TextLayoutReport {
+    return {
+      lines: layout.lines.map((line) => line.text),
+      fontSize: layout.fontSize,
+      truncated: layout.truncated,
+    };
   }
 }
+
+/**
+ * Move a box right by `dx` pixels (panel to canvas coordinates).
+ */
+function shiftBox(box: LayoutBox, dx: number): LayoutBox {
+  return dx === 0 ? box : { ...box, left: box.left + dx };
+}
+
+/**
+ * Indexes of screenshot positions in paint order: by zIndex (default:
+ * position order), ties in position order.
+ */
+function getPaintOrder(screenshots: readonly PlacedScreenshot[]): number[] {
+  return screenshots
+    .map((screenshot, index) => ({ index, zIndex: screenshot.position.zIndex ?? index }))
+    .sort((a, b) => a.zIndex - b.zIndex || a.index - b.index)
+    .map(({ index }) => index);
+}
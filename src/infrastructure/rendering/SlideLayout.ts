@@ -0,0 +1,386 @@
+/**
+ * Slide Layout
+ *
+ * Layout algorithms for each LayoutPrimitive. Given a template, a device
+ * target and the sizes of the content, computes boxes for the text block
+ * and each screenshot position. Stack and split keep text and screenshots
+ * apart; hero lays the text over the screenshot, on a scrim band where
+ * they overlap. Screenshot boxes follow
+ * their position's fit mode (see ScreenshotFit): contain and cover end
+ * inside the safe area, bleed runs off the bottom of the canvas. Offsets
+ * and scale are applied afterwards, so a screenshot may move past the
+ * canvas edge (across the seam, in a panorama) or over the text; rotation
+ * and z-order are left to the renderer.
+ *
+ * Design Principles:
+ * - Open/Closed: One algorithm per primitive, registered in LAYOUT_ALGORITHMS
+ * - Data-Driven: Percentages come from the template, spacing from the theme
+ * - Deterministic: Pure functions, integer pixel boxes
+ */
+
+import {
+  DeviceTarget,
+  LayoutPrimitive,
+  ScreenshotPosition,
+  Template,
+  TextDirection,
+  LAYOUT_SPACING,
+  resolveTextAlign,
+  getScreenshotFit,
+} from '@/domain';
+
+/**
+ * Axis-aligned box in canvas pixels.
+ */
+export interface LayoutBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Input to a layout algorithm.
+ */
+export interface SlideLayoutInput {
+  target: DeviceTarget;
+  template: Template;
+
+  /** Screenshot height / width, one per template screenshot position */
+  screenshotAspectRatios: number[];
+
+  /** Height of the laid-out text block (headline + subheadline) at a given width */
+  measureTextHeight: (width: number) => number;
+
+  /** Direction of the slide text; RTL mirrors the template's text alignment */
+  textDirection?: TextDirection;
+}
+
+/**
+ * Computed slide layout.
+ */
+export interface SlideLayout {
+  /** Text block box (headline and subheadline stacked inside) */
+  text: LayoutBox;
+
+  /**
+   * Screenshot boxes, one per template screenshot position (screen area,
+   * excluding any device frame, before rotation).
+   * Extend below the canvas for bleed positions.
+   */
+  screenshots: LayoutBox[];
+
+  /**
+   * Full-width band behind the text, painted between the screenshots and
+   * the text so it stays readable. Only set when hero text overlays a
+   * screenshot.
+   */
+  scrim?: LayoutBox;
+}
+
+/**
+ * A layout algorithm for one primitive.
+ */
+export type LayoutAlgorithm = (input: SlideLayoutInput) => SlideLayout;
+
+/**
+ * Stack: text block top-anchored at verticalPosition, screenshot centered
+ * below it. The screenshot is pushed down if the text runs into it.
+ */
+function stackLayout(input: SlideLayoutInput): SlideLayout {
+  const { target, template } = input;
+  const safe = getSafeArea(target);
+
+  const textWidth = Math.round(safe.width * (template.textPosition.maxWidth / 100));
+  const textHeight = input.measureTextHeight(textWidth);
+  const textTop = Math.max(safe.top, percentOf(target.height, template.textPosition.verticalPosition));
+
+  const text = {
+    left: alignInRange(safe.left, safe.width, textWidth, textAlign(input)),
+    top: textTop,
+    width: textWidth,
+    height: textHeight,
+  };
+
+  return {
+    text,
+    screenshots: placeScreenshots(input, (position, aspectRatio) =>
+      placeScreenshotBelow(input, text, position, aspectRatio)
+    ),
+  };
+}
+
+/**
+ * Hero: text block centered on verticalPosition, overlaying the
+ * screenshots, which stay at their own positions. Where the text covers
+ * a screenshot, a scrim band runs across the canvas behind it. Text is
+ * kept inside the safe area.
+ */
+function heroLayout(input: SlideLayoutInput): SlideLayout {
+  const { target, template } = input;
+  const safe = getSafeArea(target);
+
+  const textWidth = Math.round(safe.width * (template.textPosition.maxWidth / 100));
+  const textHeight = input.measureTextHeight(textWidth);
+  const center = percentOf(target.height, template.textPosition.verticalPosition);
+  const textTop = clamp(
+    Math.round(center - textHeight / 2),
+    safe.top,
+    Math.max(safe.top, safe.top + safe.height - textHeight)
+  );
+
+  const text = {
+    left: alignInRange(safe.left, safe.width, textWidth, textAlign(input)),
+    top: textTop,
+    width: textWidth,
+    height: textHeight,
+  };
+
+  const screenshots = placeScreenshots(input, (position, aspectRatio) => {
+    const width = percentOf(target.width, position.width);
+    return fitScreenshot(input, position, aspectRatio, percentOf(target.height, position.verticalPosition), {
+      left: Math.round((target.width - width) / 2),
+      width,
+    });
+  });
+
+  if (!screenshots.some((box) => boxesOverlap(text, box))) {
+    return { text, screenshots };
+  }
+
+  const padding = LAYOUT_SPACING.scrimPadding;
+  const scrimTop = Math.max(0, text.top - padding);
+  const scrimBottom = Math.min(target.height, text.top + text.height + padding);
+  return {
+    text,
+    screenshots,
+    scrim: { left: 0, top: scrimTop, width: target.width, height: scrimBottom - scrimTop },
+  };
+}
+
+/**
+ * Split: two columns inside the safe area. The screenshot column takes
+ * the first screenshot position's width of the canvas; text fills the
+ * other column. Further screenshots are centered in the screenshot column.
+ * Mirrored templates swap the columns.
+ */
+function splitLayout(input: SlideLayoutInput): SlideLayout {
+  const { target, template } = input;
+  const safe = getSafeArea(target);
+  const gutter = LAYOUT_SPACING.splitGutter;
+
+  const screenshotWidth = Math.min(
+    percentOf(target.width, template.screenshotPositions[0].width),
+    safe.width - gutter
+  );
+  const columnWidth = safe.width - screenshotWidth - gutter;
+
+  const screenshotLeft = template.mirrored ? safe.left : safe.left + safe.width - screenshotWidth;
+  const columnLeft = template.mirrored ? safe.left + screenshotWidth + gutter : safe.left;
+
+  const textWidth = Math.round(columnWidth * (template.textPosition.maxWidth / 100));
+  const textHeight = input.measureTextHeight(textWidth);
+  const center = percentOf(target.height, template.textPosition.verticalPosition);
+
+  return {
+    text: {
+      left: alignInRange(columnLeft, columnWidth, textWidth, textAlign(input)),
+      top: clamp(
+        Math.round(center - textHeight / 2),
+        safe.top,
+        Math.max(safe.top, safe.top + safe.height - textHeight)
+      ),
+      width: textWidth,
+      height: textHeight,
+    },
+    screenshots: placeScreenshots(input, (position, aspectRatio) => {
+      const width = Math.min(percentOf(target.width, position.width), screenshotWidth);
+      return fitScreenshot(
+        input,
+        position,
+        aspectRatio,
+        percentOf(target.height, position.verticalPosition),
+        { left: screenshotLeft + Math.round((screenshotWidth - width) / 2), width }
+      );
+    }),
+  };
+}
+
+/**
+ * Registered layout algorithms by primitive.
+ */
+export const LAYOUT_ALGORITHMS: Record<LayoutPrimitive, LayoutAlgorithm> = {
+  stack: stackLayout,
+  split: splitLayout,
+  hero: heroLayout,
+};
+
+/**
+ * Compute the layout for a slide using its template's primitive.
+ */
+export function computeSlideLayout(input: SlideLayoutInput): SlideLayout {
+  const algorithm = LAYOUT_ALGORITHMS[input.template.layout];
+  if (!algorithm) {
+    throw new Error(`No layout algorithm for primitive: ${input.template.layout}`);
+  }
+  if (input.screenshotAspectRatios.length !== input.template.screenshotPositions.length) {
+    throw new Error(
+      `Template "${input.template.id}" places ${input.template.screenshotPositions.length} screenshots, ` +
+      `got ${input.screenshotAspectRatios.length} aspect ratios`
+    );
+  }
+  return algorithm(input);
+}
+
+/**
+ * Check whether two boxes overlap (touching edges do not count).
+ */
+export function boxesOverlap(a: LayoutBox, b: LayoutBox): boolean {
+  return (
+    a.left < b.left + b.width &&
+    b.left < a.left + a.width &&
+    a.top < b.top + b.height &&
+    b.top < a.top + a.height
+  );
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Safe area of a target as a box.
+ */
+function getSafeArea(target: DeviceTarget): LayoutBox {
+  return {
+    left: target.safeMargin.left,
+    top: target.safeMargin.top,
+    width: target.width - target.safeMargin.left - target.safeMargin.right,
+    height: target.height - target.safeMargin.top - target.safeMargin.bottom,
+  };
+}
+
+/**
+ * Place every screenshot position with a primitive's placement, then
+ * apply the position's offsets and scale.
+ */
+function placeScreenshots(
+  input: SlideLayoutInput,
+  place: (position: ScreenshotPosition, aspectRatio: number) => LayoutBox
+): LayoutBox[] {
+  const { target } = input;
+  return input.template.screenshotPositions.map((position, index) => {
+    const box = place(position, input.screenshotAspectRatios[index]);
+    const scale = position.scale ?? 1;
+    const width = Math.max(1, Math.round(box.width * scale));
+    const height = Math.max(1, Math.round(box.height * scale));
+
+    return {
+      left: box.left + Math.round((box.width - width) / 2) + percentOf(target.width, position.horizontalOffset ?? 0),
+      top: box.top + Math.round((box.height - height) / 2) + percentOf(target.height, position.verticalOffset ?? 0),
+      width,
+      height,
+    };
+  });
+}
+
+/**
+ * Centered screenshot at its position, or just below the text block if
+ * that position would overlap it.
+ */
+function placeScreenshotBelow(
+  input: SlideLayoutInput,
+  text: LayoutBox,
+  position: ScreenshotPosition,
+  aspectRatio: number
+): LayoutBox {
+  const { target } = input;
+  const width = percentOf(target.width, position.width);
+  const preferredTop = percentOf(target.height, position.verticalPosition);
+  const minTop = text.top + text.height + LAYOUT_SPACING.textToScreenshot;
+
+  return fitScreenshot(input, position, aspectRatio, Math.max(preferredTop, minTop), {
+    left: Math.round((target.width - width) / 2),
+    width,
+  });
+}
+
+/**
+ * Screenshot box starting at `top` in a column, sized by the position's
+ * fit mode. The available height ends at the bottom of the safe area,
+ * or earlier if the position sets a maxHeight.
+ * - contain: full screenshot; narrowed (and re-centered in the column) if too tall
+ * - cover: column width, cut to the available height
+ * - bleed: column width at the screenshot's aspect ratio, however tall
+ */
+function fitScreenshot(
+  input: SlideLayoutInput,
+  position: ScreenshotPosition,
+  aspectRatio: number,
+  top: number,
+  column: { left: number; width: number }
+): LayoutBox {
+  const { target } = input;
+  const fit = getScreenshotFit(position);
+  const height = Math.round(column.width * aspectRatio);
+  const box = { left: column.left, top, width: column.width, height };
+
+  if (fit === 'bleed') {
+    return box;
+  }
+
+  const safe = getSafeArea(target);
+  const { maxHeight } = position;
+  const available = Math.max(
+    1,
+    Math.min(
+      safe.top + safe.height - top,
+      maxHeight !== undefined ? percentOf(safe.height, maxHeight) : Infinity
+    )
+  );
+
+  if (height <= available) {
+    return box;
+  }
+
+  if (fit === 'cover') {
+    return { ...box, height: available };
+  }
+
+  const width = Math.max(1, Math.floor(available / aspectRatio));
+  return {
+    left: column.left + Math.round((column.width - width) / 2),
+    top,
+    width,
+    height: Math.min(available, Math.round(width * aspectRatio)),
+  };
+}
+
+/**
+ * Text alignment for the input's text direction.
+ */
+function textAlign(input: SlideLayoutInput): Template['textPosition']['align'] {
+  return resolveTextAlign(input.template.textPosition.align, input.textDirection ?? 'ltr');
+}
+
+/**
+ * Position a box of `width` within a horizontal range by alignment.
+ */
+function alignInRange(
+  rangeLeft: number,
+  rangeWidth: number,
+  width: number,
+  align: 'left' | 'center' | 'right'
+): number {
+  if (align === 'center') return rangeLeft + Math.round((rangeWidth - width) / 2);
+  if (align === 'right') return rangeLeft + rangeWidth - width;
+  return rangeLeft;
+}
+
+function percentOf(total: number, percent: number): number {
+  return Math.round(total * (percent / 100));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,394 @@
+/**
+ * TextLayoutEngine
+ *
+ * Word-wrapping and auto-fit layout for slide headlines and subheadlines.
+ * Measures shaped lines (TextShaper) from the bundled fonts, wraps text
+ * within a maximum width and shrinks the font when it still overflows.
+ * Scripts written without spaces (Thai, Chinese, Japanese) wrap at the
+ * word boundaries found by Intl.Segmenter.
+ *
+ * Design Principles:
+ * - Deterministic: Same text and style always produce the same line breaks
+ * - No Canvas Dependency: Measurement uses font metrics, not a browser
+ */
+
+import { TEXT_FIT, Locale, TextDirection } from '@/domain';
+import { FontLoader } from './FontLoader';
+import { TextShaper, ShapingOptions } from './TextShaper';
+
+/**
+ * Style and constraints for laying out a text block.
+ */
+export interface TextStyle {
+  /** Preferred font size (pixels) */
+  fontSize: number;
+
+  /** Smallest font size allowed when shrinking to fit (pixels) */
+  minFontSize: number;
+
+  /** Numeric CSS font weight (400, 500, 600, 700) */
+  fontWeight: number;
+
+  /** Line height as a multiple of font size */
+  lineHeightRatio: number;
+
+  /** Letter spacing as a fraction of font size (e.g., -0.02) */
+  letterSpacing: number;
+
+  /** Maximum line width (pixels) */
+  maxWidth: number;
+
+  /** Maximum number of lines before shrinking */
+  maxLines: number;
+
+  /** Paragraph direction (default: 'ltr') */
+  direction?: TextDirection;
+
+  /** Locale of the text (word breaking and shaping) */
+  locale?: Locale;
+}
+
+/**
+ * A single laid-out line.
+ */
+export interface TextLine {
+  text: string;
+
+  /** Measured width (pixels) */
+  width: number;
+}
+
+/**
+ * Result of laying out a text block.
+ */
+export interface TextLayout {
+  lines: TextLine[];
+
+  /** Final font size after fitting (pixels) */
+  fontSize: number;
+
+  /** Line height (pixels) */
+  lineHeight: number;
+
+  /** Letter spacing (pixels) */
+  letterSpacing: number;
+
+  /** Width of the widest line (pixels) */
+  width: number;
+
+  /** Total block height (pixels) */
+  height: number;
+
+  /** True if text was cut with an ellipsis because it could not fit */
+  truncated: boolean;
+
+  /** Paragraph direction the lines are drawn in */
+  direction: TextDirection;
+
+  /** Locale of the text, if known */
+  locale?: Locale;
+}
+
+/**
+ * A unit of text that line breaking never splits (unless it is wider
+ * than a whole line), with the separator that precedes it.
+ */
+interface WrapToken {
+  text: string;
+
+  /** ' ' between space-separated words, '' inside unspaced scripts */
+  separator: string;
+}
+
+const ELLIPSIS = '…';
+
+/**
+ * Scripts written without spaces between words.
+ */
+const UNSPACED_TEXT = /[\u0E00-\u0E7F\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/u;
+
+/**
+ * Inter's vertical metrics (em), used when a font file is unavailable.
+ */
+const FALLBACK_ASCENDER = 0.97;
+const FALLBACK_DESCENDER = -0.24;
+
+/**
+ * Approximate advance widths (em) used when a font file is unavailable.
+ * Keeps layout deterministic, just less precise.
+ */
+const FALLBACK_ADVANCE = {
+  space: 0.28,
+  narrow: 0.3,
+  wide: 0.86,
+  upper: 0.68,
+  digit: 0.6,
+  other: 0.56,
+} as const;
+
+/**
+ * Text layout engine.
+ */
+export class TextLayoutEngine {
+  private fonts: FontLoader;
+  private shaper: TextShaper;
+
+  constructor(fonts: FontLoader) {
+    this.fonts = fonts;
+    this.shaper = new TextShaper(fonts);
+  }
+
+  /**
+   * Lay out text, shrinking the font until it fits in maxLines.
+   */
+  layout(text: string, style: TextStyle): TextLayout {
+    const tokens = this.tokenize(text, style.locale);
+
+    let fontSize = style.fontSize;
+    let lines = this.wrap(tokens, fontSize, style);
+
+    while (lines.length > style.maxLines && fontSize > style.minFontSize) {
+      fontSize = Math.max(style.minFontSize, fontSize - TEXT_FIT.shrinkStep);
+      lines = this.wrap(tokens, fontSize, style);
+    }
+
+    let truncated = false;
+    if (lines.length > style.maxLines) {
+      lines = this.truncate(lines, fontSize, style);
+      truncated = true;
+    }
+
+    const lineHeight = Math.round(fontSize * style.lineHeightRatio);
+
+    return {
+      lines,
+      fontSize,
+      lineHeight,
+      letterSpacing: this.letterSpacingPx(fontSize, style),
+      width: Math.ceil(Math.max(0, ...lines.map((line) => line.width))),
+      height: lineHeight * Math.max(lines.length, 1),
+      truncated,
+      direction: style.direction ?? 'ltr',
+      locale: style.locale,
+    };
+  }
+
+  /**
+   * Measure a single line of text (pixels), including letter spacing.
+   * Throws if the text needs a fallback font that is not loaded.
+   */
+  measure(
+    text: string,
+    fontSize: number,
+    fontWeight: number,
+    letterSpacingPx: number = 0,
+    options: ShapingOptions = {}
+  ): number {
+    if (this.fonts.getByCssWeight(fontWeight)) {
+      return this.shaper.shape(text, fontSize, fontWeight, letterSpacingPx, options).width;
+    }
+
+    const codePoints = Array.from(text).map((char) => char.codePointAt(0) as number);
+
+    let width = 0;
+    for (const codePoint of codePoints) {
+      width += this.fallbackAdvance(codePoint, fontWeight) * fontSize;
+    }
+
+    // Tracking applies between characters, not after the last one
+    if (codePoints.length > 1) {
+      width += letterSpacingPx * (codePoints.length - 1);
+    }
+
+    return width;
+  }
+
+  /**
+   * Build SVG path data for a line of text, starting at (x, baselineY).
+   * Glyphs are shaped and drawn in visual order from the bundled font
+   * outlines, so output never depends on fonts installed on the host.
+   * Throws if the font for this weight (or a needed fallback) is not loaded.
+   */
+  getLinePath(
+    text: string,
+    fontSize: number,
+    fontWeight: number,
+    letterSpacingPx: number,
+    x: number,
+    baselineY: number,
+    options: ShapingOptions = {}
+  ): string {
+    const { glyphs } = this.shaper.shape(text, fontSize, fontWeight, letterSpacingPx, options);
+
+    return glyphs
+      .map((glyph) => glyph.font.getGlyphPath(glyph.glyphIndex, x + glyph.x, baselineY - glyph.y, fontSize))
+      .join('');
+  }
+
+  /**
+   * Baseline offset (pixels from the top of a line box) for a laid-out block.
+   * Centers the font's ascender-descender box within the line height.
+   */
+  getBaselineOffset(layout: TextLayout, fontWeight: number): number {
+    const font = this.fonts.getByCssWeight(fontWeight);
+    const ascender = font ? font.ascender / font.unitsPerEm : FALLBACK_ASCENDER;
+    const descender = font ? font.descender / font.unitsPerEm : FALLBACK_DESCENDER;
+    const contentHeight = (ascender - descender) * layout.fontSize;
+
+    return (layout.lineHeight - contentHeight) / 2 + ascender * layout.fontSize;
+  }
+
+  // ========================================================================
+  // Private Layout Methods
+  // ========================================================================
+
+  /**
+   * Split text into wrap tokens: space-separated words, further split at
+   * Intl.Segmenter word boundaries in scripts written without spaces.
+   * Punctuation stays attached to the word before it.
+   */
+  private tokenize(text: string, locale?: Locale): WrapToken[] {
+    const tokens: WrapToken[] = [];
+
+    for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+      if (!UNSPACED_TEXT.test(word)) {
+        tokens.push({ text: word, separator: ' ' });
+        continue;
+      }
+
+      const segmenter = new Intl.Segmenter(locale, { granularity: 'word' });
+      let separator = ' ';
+      for (const { segment, isWordLike } of segmenter.segment(word)) {
+        const previous = tokens[tokens.length - 1];
+        if (!isWordLike && previous && separator === '') {
+          previous.text += segment;
+        } else {
+          tokens.push({ text: segment, separator });
+        }
+        separator = '';
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Greedy word wrap at a given font size.
+   */
+  private wrap(tokens: WrapToken[], fontSize: number, style: TextStyle): TextLine[] {
+    const spacing = this.letterSpacingPx(fontSize, style);
+    const measure = (value: string) =>
+      this.measure(value, fontSize, style.fontWeight, spacing, style);
+    const lines: TextLine[] = [];
+    let current = '';
+
+    for (const { text: word, separator } of tokens) {
+      const candidate = current ? `${current}${separator}${word}` : word;
+
+      if (measure(candidate) <= style.maxWidth) {
+        current = candidate;
+        continue;
+      }
+
+      if (current) {
+        lines.push({ text: current, width: measure(current) });
+        current = '';
+      }
+
+      if (measure(word) <= style.maxWidth) {
+        current = word;
+        continue;
+      }
+
+      // Word is wider than the line on its own: break it by characters
+      const pieces = this.breakWord(word, measure, style.maxWidth);
+      for (const piece of pieces.slice(0, -1)) {
+        lines.push({ text: piece, width: measure(piece) });
+      }
+      current = pieces[pieces.length - 1] ?? '';
+    }
+
+    if (current) {
+      lines.push({ text: current, width: measure(current) });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Break an overlong word into pieces that each fit maxWidth.
+   * Breaks between grapheme clusters, so marks stay with their base.
+   */
+  private breakWord(word: string, measure: (value: string) => number, maxWidth: number): string[] {
+    const pieces: string[] = [];
+    let current = '';
+
+    for (const char of splitGraphemes(word)) {
+      if (current && measure(current + char) > maxWidth) {
+        pieces.push(current);
+        current = char;
+      } else {
+        current += char;
+      }
+    }
+
+    if (current) {
+      pieces.push(current);
+    }
+
+    return pieces;
+  }
+
+  /**
+   * Keep the first maxLines lines, ending the last one with an ellipsis.
+   */
+  private truncate(lines: TextLine[], fontSize: number, style: TextStyle): TextLine[] {
+    const spacing = this.letterSpacingPx(fontSize, style);
+    const measure = (value: string) =>
+      this.measure(value, fontSize, style.fontWeight, spacing, style);
+    const kept = lines.slice(0, style.maxLines);
+    const last = kept[kept.length - 1];
+
+    let chars = splitGraphemes(last.text);
+    let text = `${last.text}${ELLIPSIS}`;
+    while (chars.length > 0 && measure(text) > style.maxWidth) {
+      chars = chars.slice(0, -1);
+      text = `${chars.join('').trimEnd()}${ELLIPSIS}`;
+    }
+
+    kept[kept.length - 1] = { text, width: measure(text) };
+    return kept;
+  }
+
+  /**
+   * Convert em-based letter spacing to pixels.
+   */
+  private letterSpacingPx(fontSize: number, style: TextStyle): number {
+    return style.letterSpacing * fontSize;
+  }
+
+  /**
+   * Approximate advance (em) for a code point when no font is loaded.
+   */
+  private fallbackAdvance(codePoint: number, fontWeight: number): number {
+    const char = String.fromCodePoint(codePoint);
+    let advance: number = FALLBACK_ADVANCE.other;
+
+    if (/\s/.test(char)) advance = FALLBACK_ADVANCE.space;
+    else if (/[iljtfrI.,;:!|'"()]/.test(char)) advance = FALLBACK_ADVANCE.narrow;
+    else if (/[mwMW@%]/.test(char)) advance = FALLBACK_ADVANCE.wide;
+    else if (/[A-Z]/.test(char)) advance = FALLBACK_ADVANCE.upper;
+    else if (/[0-9]/.test(char)) advance = FALLBACK_ADVANCE.digit;
+
+    // Heavier weights set slightly wider
+    return fontWeight >= 600 ? advance * 1.05 : advance;
+  }
+}
+
+/**
+ * Split text into grapheme clusters (user-perceived characters).
+ */
+function splitGraphemes(text: string): string[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  return Array.from(segmenter.segment(text), ({ segment }) => segment);
+}
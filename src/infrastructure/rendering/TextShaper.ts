@@ -0,0 +1,238 @@
+/**
+ * TextShaper
+ *
+ * Turns a line of text into positioned glyphs: splits it into bidi runs,
+ * picks a font per character from the script's fallback chain, shapes
+ * each font run with HarfBuzz (GSUB substitutions and GPOS positioning:
+ * Arabic joining forms, Devanagari reordering, reph and conjuncts, Thai
+ * mark stacking) and places the glyphs in visual order.
+ *
+ * Design Principles:
+ * - Font Data Driven: Shaping comes from the bundled fonts' own OpenType tables
+ * - Fail Fast: Text in a script with no loaded font throws, never renders tofu
+ * - Deterministic: Same text and options always produce the same glyphs
+ */
+
+import { Locale, TextDirection, TextScript, getScriptFontFallbacks } from '@/domain';
+import { HarfBuzzGlyph } from 'harfbuzzjs';
+import { FontLoader } from './FontLoader';
+import { TrueTypeFont } from './TrueTypeFont';
+import { resolveBidiRuns } from './bidi';
+import { getShapingEngine, getShapingFont } from './harfbuzz';
+import { getCodePointScript, isCombiningMark } from './unicode';
+
+/**
+ * Direction and locale context for shaping.
+ */
+export interface ShapingOptions {
+  /** Paragraph direction (default: 'ltr') */
+  direction?: TextDirection;
+
+  /** Locale of the text (selects language-specific glyph forms) */
+  locale?: Locale;
+}
+
+/**
+ * A glyph placed on a line.
+ */
+export interface ShapedGlyph {
+  font: TrueTypeFont;
+  glyphIndex: number;
+
+  /** Pen position relative to the line start (pixels) */
+  x: number;
+
+  /** Offset above the baseline (pixels; marks positioned by GPOS) */
+  y: number;
+}
+
+/**
+ * A shaped line of text.
+ */
+export interface ShapedLine {
+  /** Glyphs in visual (left-to-right) order */
+  glyphs: ShapedGlyph[];
+
+  /** Total advance width (pixels), excluding trailing letter spacing */
+  width: number;
+}
+
+/**
+ * Characters in one font, in logical order.
+ */
+interface FontSegment {
+  font: TrueTypeFont;
+  script: TextScript | null;
+  chars: string[];
+}
+
+/**
+ * Features turned off for Latin and script-neutral text, so Inter keeps
+ * its default glyphs and advances (no kerning or ligatures).
+ */
+const LATIN_FEATURES = '-kern,-liga,-calt';
+
+/**
+ * Connected scripts: letter spacing would break the joins between glyphs.
+ */
+const UNSPACED_SCRIPTS = new Set<TextScript>(['arabic', 'devanagari']);
+
+/**
+ * Text shaper over the loader's primary and fallback fonts.
+ */
+export class TextShaper {
+  private fonts: FontLoader;
+
+  constructor(fonts: FontLoader) {
+    this.fonts = fonts;
+  }
+
+  /**
+   * Shape a single line.
+   * Throws if the primary font for this weight is not loaded, or if the
+   * text contains a script none of whose fallback fonts are loaded.
+   */
+  shape(
+    text: string,
+    fontSize: number,
+    fontWeight: number,
+    letterSpacingPx: number,
+    options: ShapingOptions = {}
+  ): ShapedLine {
+    const primary = this.fonts.getByCssWeight(fontWeight);
+    if (!primary) {
+      throw new Error(`Font not loaded for weight ${fontWeight}`);
+    }
+
+    const glyphs: ShapedGlyph[] = [];
+    let cursor = 0;
+    let advanceTotal = 0;
+    let spacedCount = 0;
+    let lastSpaced = false;
+
+    for (const run of resolveBidiRuns(text, options.direction ?? 'ltr')) {
+      const segments = this.segmentByFont(Array.from(run.text), primary, fontWeight);
+
+      // HarfBuzz returns each segment in visual order; segments are logical
+      for (const segment of run.direction === 'rtl' ? segments.reverse() : segments) {
+        const spacing = segment.script && UNSPACED_SCRIPTS.has(segment.script) ? 0 : letterSpacingPx;
+        const scale = fontSize / segment.font.unitsPerEm;
+
+        for (const position of this.shapeSegment(segment, run.direction, options.locale)) {
+          glyphs.push({
+            font: segment.font,
+            glyphIndex: position.codepoint,
+            x: cursor + position.x_offset * scale,
+            y: position.y_offset * scale,
+          });
+
+          // Marks do not advance (and take no letter spacing)
+          if (position.x_advance === 0) continue;
+
+          const advance = position.x_advance * scale;
+          cursor += advance + spacing;
+          advanceTotal += advance;
+          lastSpaced = spacing !== 0;
+          if (lastSpaced) spacedCount++;
+        }
+      }
+    }
+
+    // Tracking applies between glyphs, not after the last one
+    const gaps = lastSpaced ? spacedCount - 1 : spacedCount;
+    return { glyphs, width: Math.max(0, advanceTotal + letterSpacingPx * gaps) };
+  }
+
+  // ========================================================================
+  // Private Font Selection
+  // ========================================================================
+
+  /**
+   * Split characters into runs that share a font.
+   * Script characters use the first loaded font in their fallback chain that
+   * has the glyph; Latin letters use the primary font. Marks, spaces, digits
+   * and punctuation stay in the current font when it can draw them, so they
+   * match the surrounding text.
+   */
+  private segmentByFont(
+    chars: string[],
+    primary: TrueTypeFont,
+    fontWeight: number
+  ): FontSegment[] {
+    const segments: FontSegment[] = [];
+
+    for (const char of chars) {
+      const codePoint = char.codePointAt(0) as number;
+      const current = segments[segments.length - 1];
+      let script = getCodePointScript(codePoint);
+      let font: TrueTypeFont;
+
+      const neutral = !script && !/^\p{L}$/u.test(char);
+
+      if (current && (isCombiningMark(char) || neutral) && current.font.hasGlyph(codePoint)) {
+        font = current.font;
+        script = current.script;
+      } else if (script) {
+        font = this.selectFallbackFont(script, codePoint, fontWeight);
+      } else {
+        font = primary;
+      }
+
+      if (current && current.font === font && current.script === script) {
+        current.chars.push(char);
+      } else {
+        segments.push({ font, script, chars: [char] });
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * First loaded fallback font for a script that has the code point
+   * (the first loaded one if none has it).
+   */
+  private selectFallbackFont(
+    script: TextScript,
+    codePoint: number,
+    fontWeight: number
+  ): TrueTypeFont {
+    const chain = getScriptFontFallbacks(script);
+    const loaded = chain
+      .map((fontId) => this.fonts.getFallbackByCssWeight(fontId, fontWeight))
+      .filter((font): font is TrueTypeFont => font !== undefined);
+
+    if (loaded.length === 0) {
+      throw new Error(`No font loaded for ${script} text (tried: ${chain.join(', ')})`);
+    }
+
+    return loaded.find((font) => font.hasGlyph(codePoint)) ?? loaded[0];
+  }
+
+  // ========================================================================
+  // Private Shaping Methods
+  // ========================================================================
+
+  /**
+   * Shape a segment with HarfBuzz.
+   * Returns glyphs in visual order with positions in font units.
+   */
+  private shapeSegment(segment: FontSegment, direction: TextDirection, locale?: Locale): HarfBuzzGlyph[] {
+    const hb = getShapingEngine();
+    const buffer = hb.createBuffer();
+
+    try {
+      buffer.addText(segment.chars.join(''));
+      buffer.setDirection(direction);
+      if (locale) {
+        buffer.setLanguage(locale);
+      }
+      buffer.guessSegmentProperties();
+
+      hb.shape(getShapingFont(segment.font), buffer, segment.script ? undefined : LATIN_FEATURES);
+      return buffer.getGlyphInfosAndPositions();
+    } finally {
+      buffer.destroy();
+    }
+  }
+}
@@ -0,0 +1,540 @@
+/**
+ * TrueTypeFont
+ *
+ * Minimal TrueType (.ttf) reader for server-side text layout and rendering.
+ * Reads only the tables needed to measure and draw text:
+ * head, hhea, maxp, hmtx, cmap, loca, glyf. Complex-script shaping
+ * (GSUB/GPOS) is done by HarfBuzz from the same file data.
+ *
+ * Design Principles:
+ * - No External Dependencies: Parses the sfnt binary directly
+ * - Fail Fast: Invalid or non-TrueType data throws on parse
+ */
+
+/**
+ * A point on a glyph contour (font units, y up).
+ */
+export interface GlyphPoint {
+  x: number;
+  y: number;
+  onCurve: boolean;
+}
+
+/**
+ * Glyph outline as a list of closed contours.
+ */
+export type GlyphOutline = GlyphPoint[][];
+
+// Simple glyph flags
+const ON_CURVE_POINT = 0x01;
+const X_SHORT_VECTOR = 0x02;
+const Y_SHORT_VECTOR = 0x04;
+const REPEAT_FLAG = 0x08;
+const X_IS_SAME_OR_POSITIVE = 0x10;
+const Y_IS_SAME_OR_POSITIVE = 0x20;
+
+// Composite glyph flags
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const ARGS_ARE_XY_VALUES = 0x0002;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+/** Maximum composite glyph nesting (guards against malformed fonts) */
+const MAX_COMPOSITE_DEPTH = 8;
+/**
+ * Parsed TrueType font with horizontal metrics and glyph outlines.
+ */
+export class TrueTypeFont {
+  /** Font design units per em square */
+  readonly unitsPerEm: number;
+
+  /** Typographic ascender (font units, positive) */
+  readonly ascender: number;
+
+  /** Typographic descender (font units, negative) */
+  readonly descender: number;
+
+  /** Number of glyphs in the font */
+  readonly numGlyphs: number;
+
+  /** Font file contents (handed to the shaping engine) */
+  readonly data: Buffer;
+
+  private readonly tables: Map<string, { offset: number; length: number }>;
+  private readonly advanceWidths: Uint16Array;
+  private readonly cmap: Map<number, number>;
+  private readonly glyphOffsets: Uint32Array;
+  private readonly outlines: Map<number, GlyphOutline> = new Map();
+
+  private constructor(data: Buffer) {
+    this.data = data;
+    this.tables = TrueTypeFont.readTableDirectory(data);
+
+    const head = this.requireTable('head');
+    this.unitsPerEm = data.readUInt16BE(head.offset + 18);
+
+    const hhea = this.requireTable('hhea');
+    this.ascender = data.readInt16BE(hhea.offset + 4);
+    this.descender = data.readInt16BE(hhea.offset + 6);
+    const numberOfHMetrics = data.readUInt16BE(hhea.offset + 34);
+
+    const maxp = this.requireTable('maxp');
+    this.numGlyphs = data.readUInt16BE(maxp.offset + 4);
+
+    this.advanceWidths = this.readAdvanceWidths(numberOfHMetrics);
+    this.cmap = this.readCharacterMap();
+    this.glyphOffsets = this.readGlyphOffsets(data.readInt16BE(head.offset + 50));
+  }
+
+  /**
+   * Parse a TrueType font from a buffer.
+   * Throws if the buffer is not a TrueType font.
+   */
+  static parse(data: Buffer): TrueTypeFont {
+    if (data.length < 12) {
+      throw new Error('Invalid font: file too small');
+    }
+
+    const version = data.readUInt32BE(0);
+    // 0x00010000 = TrueType outlines, 'true' = legacy Apple TrueType
+    if (version !== 0x00010000 && version !== 0x74727565) {
+      throw new Error(`Invalid font: unsupported sfnt version 0x${version.toString(16)}`);
+    }
+
+    return new TrueTypeFont(data);
+  }
+
+  /**
+   * Get glyph index for a Unicode code point (0 = .notdef).
+   */
+  getGlyphIndex(codePoint: number): number {
+    return this.cmap.get(codePoint) ?? 0;
+  }
+
+  /**
+   * Check whether the font has a glyph for a code point.
+   */
+  hasGlyph(codePoint: number): boolean {
+    return this.cmap.has(codePoint);
+  }
+
+  /**
+   * Get advance width of a glyph (font units).
+   */
+  getAdvanceWidth(glyphIndex: number): number {
+    if (glyphIndex < this.advanceWidths.length) {
+      return this.advanceWidths[glyphIndex];
+    }
+    return this.advanceWidths[this.advanceWidths.length - 1] ?? 0;
+  }
+
+  /**
+   * Get advance width of a code point in pixels at a font size.
+   */
+  measureCodePoint(codePoint: number, fontSize: number): number {
+    return (this.getAdvanceWidth(this.getGlyphIndex(codePoint)) * fontSize) / this.unitsPerEm;
+  }
+
+  /**
+   * Get a glyph's outline (font units, y up). Cached per glyph.
+   */
+  getGlyphOutline(glyphIndex: number): GlyphOutline {
+    const cached = this.outlines.get(glyphIndex);
+    if (cached) {
+      return cached;
+    }
+
+    const outline = this.readGlyph(glyphIndex, 0);
+    this.outlines.set(glyphIndex, outline);
+    return outline;
+  }
+
+  /**
+   * Build SVG path data for a glyph placed at (x, baselineY) in pixels.
+   * Quadratic TrueType contours map directly onto SVG `Q` commands.
+   */
+  getGlyphPath(glyphIndex: number, x: number, baselineY: number, fontSize: number): string {
+    const scale = fontSize / this.unitsPerEm;
+    const toPx = (point: { x: number; y: number }) =>
+      `${formatCoordinate(x + point.x * scale)} ${formatCoordinate(baselineY - point.y * scale)}`;
+
+    return this.getGlyphOutline(glyphIndex)
+      .map((contour) => contourToPath(contour, toPx))
+      .join('');
+  }
+
+  // ========================================================================
+  // Private Parsing Methods
+  // ========================================================================
+
+  /**
+   * Look up a table by tag, throwing if missing.
+   */
+  private requireTable(tag: string): { offset: number; length: number } {
+    const table = this.tables.get(tag);
+    if (!table) {
+      throw new Error(`Invalid font: missing "${tag}" table`);
+    }
+    return table;
+  }
+
+  /**
+   * Read the sfnt table directory.
+   */
+  private static readTableDirectory(data: Buffer): Map<string, { offset: number; length: number }> {
+    const numTables = data.readUInt16BE(4);
+    const tables = new Map<string, { offset: number; length: number }>();
+
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      if (record + 16 > data.length) {
+        throw new Error('Invalid font: truncated table directory');
+      }
+
+      const tag = data.toString('latin1', record, record + 4);
+      const offset = data.readUInt32BE(record + 8);
+      const length = data.readUInt32BE(record + 12);
+
+      if (offset + length > data.length) {
+        throw new Error(`Invalid font: table "${tag}" out of bounds`);
+      }
+
+      tables.set(tag, { offset, length });
+    }
+
+    return tables;
+  }
+
+  /**
+   * Read advance widths from hmtx.
+   * Glyphs past numberOfHMetrics repeat the last advance width.
+   */
+  private readAdvanceWidths(numberOfHMetrics: number): Uint16Array {
+    const hmtx = this.requireTable('hmtx');
+    const widths = new Uint16Array(Math.max(numberOfHMetrics, 1));
+
+    for (let i = 0; i < numberOfHMetrics; i++) {
+      widths[i] = this.data.readUInt16BE(hmtx.offset + i * 4);
+    }
+
+    return widths;
+  }
+
+  /**
+   * Read glyph data offsets from loca (numGlyphs + 1 entries).
+   */
+  private readGlyphOffsets(indexToLocFormat: number): Uint32Array {
+    const loca = this.requireTable('loca');
+    const offsets = new Uint32Array(this.numGlyphs + 1);
+
+    for (let i = 0; i <= this.numGlyphs; i++) {
+      offsets[i] = indexToLocFormat === 0
+        ? this.data.readUInt16BE(loca.offset + i * 2) * 2
+        : this.data.readUInt32BE(loca.offset + i * 4);
+    }
+
+    return offsets;
+  }
+
+  /**
+   * Read a glyph from glyf (simple or composite).
+   */
+  private readGlyph(glyphIndex: number, depth: number): GlyphOutline {
+    if (glyphIndex >= this.numGlyphs || depth > MAX_COMPOSITE_DEPTH) {
+      return [];
+    }
+
+    const glyf = this.requireTable('glyf');
+    const start = this.glyphOffsets[glyphIndex];
+    const end = this.glyphOffsets[glyphIndex + 1];
+
+    // Empty glyph (e.g., space)
+    if (end <= start) {
+      return [];
+    }
+
+    const offset = glyf.offset + start;
+    const numberOfContours = this.data.readInt16BE(offset);
+
+    return numberOfContours >= 0
+      ? this.readSimpleGlyph(offset, numberOfContours)
+      : this.readCompositeGlyph(offset, depth);
+  }
+
+  /**
+   * Simple glyph: contour end points, flags, then delta-encoded coordinates.
+   */
+  private readSimpleGlyph(offset: number, numberOfContours: number): GlyphOutline {
+    const data = this.data;
+    let pos = offset + 10;
+
+    const endPoints: number[] = [];
+    for (let i = 0; i < numberOfContours; i++) {
+      endPoints.push(data.readUInt16BE(pos));
+      pos += 2;
+    }
+
+    const numPoints = numberOfContours > 0 ? endPoints[numberOfContours - 1] + 1 : 0;
+    const instructionLength = data.readUInt16BE(pos);
+    pos += 2 + instructionLength;
+
+    const flags: number[] = [];
+    while (flags.length < numPoints) {
+      const flag = data.readUInt8(pos++);
+      flags.push(flag);
+      if (flag & REPEAT_FLAG) {
+        const repeat = data.readUInt8(pos++);
+        for (let i = 0; i < repeat; i++) flags.push(flag);
+      }
+    }
+
+    const readCoordinates = (shortFlag: number, sameOrPositiveFlag: number): number[] => {
+      const values: number[] = [];
+      let value = 0;
+      for (const flag of flags.slice(0, numPoints)) {
+        if (flag & shortFlag) {
+          const delta = data.readUInt8(pos++);
+          value += flag & sameOrPositiveFlag ? delta : -delta;
+        } else if (!(flag & sameOrPositiveFlag)) {
+          value += data.readInt16BE(pos);
+          pos += 2;
+        }
+        values.push(value);
+      }
+      return values;
+    };
+
+    const xs = readCoordinates(X_SHORT_VECTOR, X_IS_SAME_OR_POSITIVE);
+    const ys = readCoordinates(Y_SHORT_VECTOR, Y_IS_SAME_OR_POSITIVE);
+
+    const contours: GlyphOutline = [];
+    let first = 0;
+    for (const last of endPoints) {
+      const contour: GlyphPoint[] = [];
+      for (let i = first; i <= last; i++) {
+        contour.push({ x: xs[i], y: ys[i], onCurve: (flags[i] & ON_CURVE_POINT) !== 0 });
+      }
+      contours.push(contour);
+      first = last + 1;
+    }
+
+    return contours;
+  }
+
+  /**
+   * Composite glyph: transformed references to other glyphs.
+   * Point-matching placement (non-XY arguments) is treated as no offset.
+   */
+  private readCompositeGlyph(offset: number, depth: number): GlyphOutline {
+    const data = this.data;
+    const contours: GlyphOutline = [];
+    let pos = offset + 10;
+    let flags: number;
+
+    do {
+      flags = data.readUInt16BE(pos);
+      const componentIndex = data.readUInt16BE(pos + 2);
+      pos += 4;
+
+      let dx = 0;
+      let dy = 0;
+      if (flags & ARG_1_AND_2_ARE_WORDS) {
+        if (flags & ARGS_ARE_XY_VALUES) {
+          dx = data.readInt16BE(pos);
+          dy = data.readInt16BE(pos + 2);
+        }
+        pos += 4;
+      } else {
+        if (flags & ARGS_ARE_XY_VALUES) {
+          dx = data.readInt8(pos);
+          dy = data.readInt8(pos + 1);
+        }
+        pos += 2;
+      }
+
+      // 2x2 transform [a b; c d] in F2Dot14
+      let a = 1, b = 0, c = 0, d = 1;
+      const f2dot14 = (at: number) => data.readInt16BE(at) / 16384;
+      if (flags & WE_HAVE_A_SCALE) {
+        a = d = f2dot14(pos);
+        pos += 2;
+      } else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) {
+        a = f2dot14(pos);
+        d = f2dot14(pos + 2);
+        pos += 4;
+      } else if (flags & WE_HAVE_A_TWO_BY_TWO) {
+        a = f2dot14(pos);
+        b = f2dot14(pos + 2);
+        c = f2dot14(pos + 4);
+        d = f2dot14(pos + 6);
+        pos += 8;
+      }
+
+      for (const contour of this.readGlyph(componentIndex, depth + 1)) {
+        contours.push(
+          contour.map((point) => ({
+            x: point.x * a + point.y * c + dx,
+            y: point.x * b + point.y * d + dy,
+            onCurve: point.onCurve,
+          }))
+        );
+      }
+    } while (flags & MORE_COMPONENTS);
+
+    return contours;
+  }
+
+  /**
+   * Read the Unicode character map (format 12 preferred, format 4 fallback).
+   */
+  private readCharacterMap(): Map<number, number> {
+    const cmapTable = this.requireTable('cmap');
+    const base = cmapTable.offset;
+    const numSubtables = this.data.readUInt16BE(base + 2);
+
+    let format4Offset: number | null = null;
+    let format12Offset: number | null = null;
+
+    for (let i = 0; i < numSubtables; i++) {
+      const record = base + 4 + i * 8;
+      const platformId = this.data.readUInt16BE(record);
+      const encodingId = this.data.readUInt16BE(record + 2);
+      const offset = base + this.data.readUInt32BE(record + 4);
+      const format = this.data.readUInt16BE(offset);
+
+      const isUnicode = platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+      if (!isUnicode) continue;
+
+      if (format === 12 && format12Offset === null) format12Offset = offset;
+      if (format === 4 && format4Offset === null) format4Offset = offset;
+    }
+
+    if (format12Offset !== null) {
+      return this.readCmapFormat12(format12Offset);
+    }
+    if (format4Offset !== null) {
+      return this.readCmapFormat4(format4Offset);
+    }
+
+    throw new Error('Invalid font: no Unicode cmap subtable');
+  }
+
+  /**
+   * cmap format 4: segment mapping to delta values (BMP only).
+   */
+  private readCmapFormat4(offset: number): Map<number, number> {
+    const data = this.data;
+    const map = new Map<number, number>();
+    const segCount = data.readUInt16BE(offset + 6) / 2;
+    const endCodes = offset + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+
+    for (let seg = 0; seg < segCount; seg++) {
+      const endCode = data.readUInt16BE(endCodes + seg * 2);
+      const startCode = data.readUInt16BE(startCodes + seg * 2);
+      const idDelta = data.readInt16BE(idDeltas + seg * 2);
+      const rangeOffsetPos = idRangeOffsets + seg * 2;
+      const idRangeOffset = data.readUInt16BE(rangeOffsetPos);
+
+      for (let code = startCode; code <= endCode && code !== 0xffff; code++) {
+        let glyph: number;
+        if (idRangeOffset === 0) {
+          glyph = (code + idDelta) & 0xffff;
+        } else {
+          const glyphPos = rangeOffsetPos + idRangeOffset + (code - startCode) * 2;
+          glyph = data.readUInt16BE(glyphPos);
+          if (glyph !== 0) glyph = (glyph + idDelta) & 0xffff;
+        }
+        if (glyph !== 0) map.set(code, glyph);
+      }
+    }
+
+    return map;
+  }
+
+  /**
+   * cmap format 12: segmented coverage (full Unicode range).
+   */
+  private readCmapFormat12(offset: number): Map<number, number> {
+    const data = this.data;
+    const map = new Map<number, number>();
+    const numGroups = data.readUInt32BE(offset + 12);
+
+    for (let i = 0; i < numGroups; i++) {
+      const group = offset + 16 + i * 12;
+      const startCode = data.readUInt32BE(group);
+      const endCode = data.readUInt32BE(group + 4);
+      const startGlyph = data.readUInt32BE(group + 8);
+
+      for (let code = startCode; code <= endCode; code++) {
+        map.set(code, startGlyph + (code - startCode));
+      }
+    }
+
+    return map;
+  }
+}
+
+// ============================================================================
+// Outline Helpers
+// ============================================================================
+
+/**
+ * Convert one closed TrueType contour to SVG path commands.
+ * Consecutive off-curve points imply an on-curve point at their midpoint.
+ */
+function contourToPath(
+  contour: GlyphPoint[],
+  toPx: (point: { x: number; y: number }) => string
+): string {
+  if (contour.length === 0) {
+    return '';
+  }
+
+  const midpoint = (p: GlyphPoint, q: GlyphPoint): GlyphPoint => ({
+    x: (p.x + q.x) / 2,
+    y: (p.y + q.y) / 2,
+    onCurve: true,
+  });
+
+  // Start on an on-curve point (or the implied midpoint of the first two)
+  const startIndex = contour.findIndex((point) => point.onCurve);
+  let points: GlyphPoint[];
+  let start: GlyphPoint;
+  if (startIndex >= 0) {
+    points = [...contour.slice(startIndex + 1), ...contour.slice(0, startIndex)];
+    start = contour[startIndex];
+  } else {
+    start = midpoint(contour[0], contour[1] ?? contour[0]);
+    points = [...contour.slice(1), contour[0]];
+  }
+
+  let path = `M${toPx(start)}`;
+  let control: GlyphPoint | null = null;
+
+  for (const point of points) {
+    if (point.onCurve) {
+      path += control ? `Q${toPx(control)} ${toPx(point)}` : `L${toPx(point)}`;
+      control = null;
+    } else {
+      if (control) {
+        path += `Q${toPx(control)} ${toPx(midpoint(control, point))}`;
+      }
+      control = point;
+    }
+  }
+
+  path += control ? `Q${toPx(control)} ${toPx(start)}Z` : 'Z';
+  return path;
+}
+
+/**
+ * Format a pixel coordinate with fixed precision so SVG output is stable.
+ */
+function formatCoordinate(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
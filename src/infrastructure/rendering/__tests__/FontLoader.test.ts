@@ -0,0 +1,26 @@
+/**
+ * Bundled fonts and the locales they can render.
+ */
+
+import { FontLoader } from '../FontLoader';
+
+describe('FontLoader', () => {
+  it('loads every bundled Inter weight', async () => {
+    const result = await new FontLoader().loadAll();
+
+    expect(result.errors).toEqual([]);
+    expect(result.loaded).toEqual(['regular', 'medium', 'semibold', 'bold']);
+  });
+
+  it('renders RTL and complex-script locales with the bundled Noto fonts', async () => {
+    const locales = ['en-US', 'ru', 'ar-SA', 'he', 'th', 'hi'] as const;
+
+    await expect(new FontLoader().findUnsupportedLocales(locales)).resolves.toEqual([]);
+  });
+
+  it('reports locales whose fonts are not installed', async () => {
+    const fonts = new FontLoader('/nonexistent');
+
+    await expect(fonts.findUnsupportedLocales(['en-US', 'he', 'th'])).resolves.toEqual(['he', 'th']);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Golden renders: the same slide must produce byte-identical PNGs on
+ * every machine, since text is drawn as glyph outlines from the bundled
+ * Inter files and never from system fonts.
+ *
+ * If a rendering change is intended, re-run the failing test and update
+ * the hash it reports (after checking the new image by eye).
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { DeviceTarget, Slide, getDeviceTargetById } from '@/domain';
+import { FontLoader, SharpRenderer } from '@/infrastructure/rendering';
+
+const GOLDEN_SHA256 = {
+  hero: '4217e92f3c776628abd1b7561377e4942ff19d8cb756df351a5dd590fc2dfa1d',
+  feature: '7f270d78bd850d2b451699cb26f10d75adfb60b5837988be612f4c79a5aa3d34',
+};
+
+const HERO_SLIDE: Slide = {
+  id: 1,
+  type: 'hero',
+  templateId: 'hero',
+  text: {
+    headline: 'Plan every trip in one place',
+    subheadline: 'Bundled Inter, glyph outlines',
+    locale: 'en-US',
+  },
+  screenshot: { screenshotId: 's', originalFilename: 's.png' },
+};
+
+const FEATURE_SLIDE: Slide = {
+  id: 2,
+  type: 'feature',
+  templateId: 'split',
+  text: {
+    headline: 'Share itineraries with friends',
+    subheadline: 'Everyone sees changes instantly',
+    locale: 'en-US',
+  },
+  screenshot: { screenshotId: 's', originalFilename: 's.png' },
+};
+
+function sha256(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+describe('SharpRenderer golden renders', () => {
+  let renderer: SharpRenderer;
+  let target: DeviceTarget;
+  let screenshot: Buffer;
+
+  beforeAll(async () => {
+    renderer = new SharpRenderer(new FontLoader());
+    await renderer.initialize();
+    target = getDeviceTargetById('iphone-6.7')!;
+    screenshot = await sharp({
+      create: { width: 390, height: 844, channels: 3, background: '#3366CC' },
+    }).png().toBuffer();
+  });
+
+  it('loads the bundled Inter fonts', async () => {
+    expect(renderer.getInitializationErrors()).toEqual([]);
+    await expect(renderer.isReady()).resolves.toBe(true);
+  });
+
+  it.each([
+    ['hero', HERO_SLIDE],
+    ['feature', FEATURE_SLIDE],
+  ] as const)('renders the %s slide byte for byte', async (name, slide) => {
+    const first = await renderer.render({ target, slide, screenshotBuffer: screenshot });
+    const second = await renderer.render({ target, slide, screenshotBuffer: screenshot });
+
+    expect(second.buffer.equals(first.buffer)).toBe(true);
+    expect(sha256(first.buffer)).toBe(GOLDEN_SHA256[name]);
+  });
+});
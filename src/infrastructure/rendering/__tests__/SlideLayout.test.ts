@@ -0,0 +1,57 @@
+/**
+ * Slide layouts: hero text overlays the screenshot on a scrim band;
+ * stack keeps text and screenshot apart.
+ */
+
+import { LAYOUT_SPACING, Template, getDeviceTargetById, getTemplateById } from '@/domain';
+import { boxesOverlap, computeSlideLayout } from '../SlideLayout';
+
+const target = getDeviceTargetById('iphone-6.7')!;
+const TEXT_HEIGHT = 300;
+
+function layout(template: Template) {
+  return computeSlideLayout({
+    target,
+    template,
+    screenshotAspectRatios: [844 / 390],
+    measureTextHeight: () => TEXT_HEIGHT,
+  });
+}
+
+describe('computeSlideLayout', () => {
+  it('overlays hero text on the screenshot at its own position, on a full-width scrim', () => {
+    const hero = getTemplateById('hero');
+    const { text, screenshots, scrim } = layout(hero);
+
+    expect(screenshots[0].top).toBe(Math.round(target.height * (hero.screenshotPositions[0].verticalPosition / 100)));
+    expect(boxesOverlap(text, screenshots[0])).toBe(true);
+    expect(scrim).toEqual({
+      left: 0,
+      top: text.top - LAYOUT_SPACING.scrimPadding,
+      width: target.width,
+      height: TEXT_HEIGHT + 2 * LAYOUT_SPACING.scrimPadding,
+    });
+  });
+
+  it('leaves out the scrim when hero text clears the screenshot', () => {
+    const hero = getTemplateById('hero');
+    const { text, screenshots, scrim } = layout({
+      ...hero,
+      screenshotPositions: [{ ...hero.screenshotPositions[0], verticalPosition: 60 }],
+    });
+
+    expect(boxesOverlap(text, screenshots[0])).toBe(false);
+    expect(scrim).toBeUndefined();
+  });
+
+  it('pushes a stack screenshot below the text instead of overlapping it', () => {
+    const stack = getTemplateById('stack');
+    const { text, screenshots, scrim } = layout({
+      ...stack,
+      screenshotPositions: [{ ...stack.screenshotPositions[0], verticalPosition: 0 }],
+    });
+
+    expect(screenshots[0].top).toBe(text.top + text.height + LAYOUT_SPACING.textToScreenshot);
+    expect(scrim).toBeUndefined();
+  });
+});
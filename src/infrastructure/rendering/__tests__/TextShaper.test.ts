@@ -0,0 +1,203 @@
+/**
+ * Shaping of fixture strings in each complex script, with the bundled
+ * Noto fallback fonts: Arabic joining forms and stacked marks, Hebrew
+ * right-to-left order, Thai mark stacking and Devanagari reordering,
+ * reph and conjuncts.
+ *
+ * Glyph IDs differ between font versions, so expectations compare shaped
+ * glyphs with the fonts' own character mapping instead of fixed IDs, and
+ * check where glyph outlines land once positioned.
+ */
+
+import { FontLoader } from '../FontLoader';
+import { ShapedGlyph, ShapedLine, TextShaper } from '../TextShaper';
+import { TrueTypeFont } from '../TrueTypeFont';
+
+const FONT_SIZE = 100;
+const REGULAR = 400;
+
+/** Rendered outline box of a placed glyph (pixels, y up) */
+interface GlyphBounds {
+  left: number;
+  right: number;
+  bottom: number;
+  top: number;
+}
+
+describe('TextShaper', () => {
+  let shaper: TextShaper;
+
+  beforeAll(async () => {
+    const fonts = new FontLoader();
+    await fonts.loadAll();
+    const { errors } = await fonts.loadFallbacks();
+    expect(errors.filter((error) => /Arabic|Hebrew|Thai|Devanagari/.test(error))).toEqual([]);
+    shaper = new TextShaper(fonts);
+  });
+
+  const cmapGlyphs = (font: TrueTypeFont, text: string) =>
+    Array.from(text).map((char) => font.getGlyphIndex(char.codePointAt(0)!));
+
+  const glyphIds = (line: ShapedLine) => line.glyphs.map((glyph) => glyph.glyphIndex);
+
+  const advance = (font: TrueTypeFont, char: string) =>
+    (font.getAdvanceWidth(font.getGlyphIndex(char.codePointAt(0)!)) * FONT_SIZE) / font.unitsPerEm;
+
+  const bounds = (glyph: ShapedGlyph): GlyphBounds => {
+    const scale = FONT_SIZE / glyph.font.unitsPerEm;
+    const points = glyph.font.getGlyphOutline(glyph.glyphIndex).flat();
+    const xs = points.map((point) => glyph.x + point.x * scale);
+    const ys = points.map((point) => glyph.y + point.y * scale);
+    return { left: Math.min(...xs), right: Math.max(...xs), bottom: Math.min(...ys), top: Math.max(...ys) };
+  };
+
+  describe('Arabic', () => {
+    // س (initial) ل (medial) ا (final) م (isolated: alef does not join left)
+    const text = 'سلام';
+
+    it('applies joining forms and lays glyphs out right to left', () => {
+      const line = shaper.shape(text, FONT_SIZE, REGULAR, 0, { direction: 'rtl', locale: 'ar-SA' });
+      const font = line.glyphs[0].font;
+      const [seen, lam, alef, meem] = cmapGlyphs(font, text);
+      const [visualMeem, visualAlef, visualLam, visualSeen] = glyphIds(line);
+
+      expect(line.glyphs).toHaveLength(4);
+      expect(visualMeem).toBe(meem);
+      expect(visualAlef).not.toBe(alef);
+      expect(visualLam).not.toBe(lam);
+      expect(visualSeen).not.toBe(seen);
+    });
+
+    it('ignores letter spacing between joined letters', () => {
+      const plain = shaper.shape(text, FONT_SIZE, REGULAR, 0, { direction: 'rtl' });
+      const tracked = shaper.shape(text, FONT_SIZE, REGULAR, 10, { direction: 'rtl' });
+
+      expect(tracked.width).toBeCloseTo(plain.width);
+    });
+
+    it('stacks a fatha on a shadda above their letter (mark-to-mark)', () => {
+      const text = 'شَّ';
+      const line = shaper.shape(text, FONT_SIZE, REGULAR, 0, { direction: 'rtl', locale: 'ar-SA' });
+      const [, fatha, shadda] = cmapGlyphs(line.glyphs[0].font, text);
+      const placedFatha = line.glyphs.find((glyph) => glyph.glyphIndex === fatha)!;
+      const placedShadda = line.glyphs.find((glyph) => glyph.glyphIndex === shadda)!;
+      const letter = line.glyphs[line.glyphs.length - 1];
+
+      expect(placedShadda.y).toBeGreaterThan(0);
+      expect(placedFatha.y).toBeGreaterThan(placedShadda.y);
+      expect(bounds(placedShadda).bottom).toBeGreaterThanOrEqual(bounds(letter).top);
+      expect(bounds(placedFatha).bottom).toBeGreaterThanOrEqual(bounds(placedShadda).top);
+    });
+  });
+
+  describe('Hebrew', () => {
+    it('lays letters out right to left', () => {
+      const text = 'שלום';
+      const line = shaper.shape(text, FONT_SIZE, REGULAR, 0, { direction: 'rtl', locale: 'he' });
+
+      expect(glyphIds(line)).toEqual(cmapGlyphs(line.glyphs[0].font, text).reverse());
+      const positions = line.glyphs.map((glyph) => glyph.x);
+      expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    });
+
+    it('keeps numbers left to right inside right-to-left text', () => {
+      const line = shaper.shape('שלום 123', FONT_SIZE, REGULAR, 0, { direction: 'rtl', locale: 'he' });
+      const digits = line.glyphs.slice(0, 3);
+
+      expect(digits.map((glyph) => glyph.glyphIndex)).toEqual(cmapGlyphs(digits[0].font, '123'));
+    });
+  });
+
+  describe('Thai', () => {
+    it('stacks a tone mark above an upper vowel without advancing', () => {
+      // tho thahan, sara ii, mai ek
+      const text = 'ที่';
+      const line = shaper.shape(text, FONT_SIZE, REGULAR, 0, { locale: 'th' });
+      const font = line.glyphs[0].font;
+      const [consonant, vowel, tone] = line.glyphs;
+
+      expect(line.glyphs).toHaveLength(3);
+      expect(line.width).toBeCloseTo(advance(font, 'ท'));
+
+      // The raised tone mark form clears the vowel
+      expect(tone.glyphIndex).not.toBe(cmapGlyphs(font, text)[2]);
+      expect(bounds(vowel).bottom).toBeGreaterThan(bounds(consonant).top);
+      expect(bounds(tone).bottom).toBeGreaterThanOrEqual(bounds(vowel).top);
+      for (const mark of [vowel, tone]) {
+        expect(bounds(mark).left).toBeGreaterThanOrEqual(0);
+        expect(bounds(mark).right).toBeLessThanOrEqual(advance(font, 'ท'));
+      }
+    });
+
+    it('sits a tone mark lower when there is no upper vowel', () => {
+      const stacked = shaper.shape('ที่', FONT_SIZE, REGULAR, 0, { locale: 'th' }).glyphs[2];
+      const [consonant, , tone] = shaper.shape('นุ่', FONT_SIZE, REGULAR, 0, { locale: 'th' }).glyphs;
+
+      expect(bounds(tone).bottom).toBeLessThan(bounds(stacked).bottom);
+      expect(bounds(tone).bottom).toBeGreaterThanOrEqual(bounds(consonant).top);
+    });
+
+    it('shifts marks left of a tall consonant', () => {
+      // po pla has an ascender on the right; no nu does not
+      const [, tallVowel, tallTone] = shaper.shape('ปี่', FONT_SIZE, REGULAR, 0, { locale: 'th' }).glyphs;
+      const [, vowel, tone] = shaper.shape('นี่', FONT_SIZE, REGULAR, 0, { locale: 'th' }).glyphs;
+
+      expect(bounds(tallVowel).right).toBeLessThan(bounds(vowel).right);
+      expect(bounds(tallTone).right).toBeLessThan(bounds(tone).right);
+    });
+  });
+
+  describe('Devanagari', () => {
+    const halant = (line: ShapedLine) => line.glyphs[0].font.getGlyphIndex(0x094d);
+
+    it('draws the i vowel sign before its consonant', () => {
+      const line = shaper.shape('कि', FONT_SIZE, REGULAR, 0, { locale: 'hi' });
+      const [ka] = cmapGlyphs(line.glyphs[0].font, 'क');
+      const [iSign, consonant] = line.glyphs;
+
+      expect(line.glyphs).toHaveLength(2);
+      expect(consonant.glyphIndex).toBe(ka);
+      expect(iSign.glyphIndex).not.toBe(ka);
+      expect(bounds(iSign).left).toBeLessThan(bounds(consonant).left);
+    });
+
+    it('forms the kssa and ddha conjuncts as single glyphs', () => {
+      for (const text of ['क्ष', 'द्ध']) {
+        const line = shaper.shape(text, FONT_SIZE, REGULAR, 0, { locale: 'hi' });
+
+        expect(line.glyphs).toHaveLength(1);
+        expect(cmapGlyphs(line.glyphs[0].font, text)).not.toContain(line.glyphs[0].glyphIndex);
+      }
+    });
+
+    it('draws a reph above the headline over the end of its consonant', () => {
+      const text = 'र्क';
+      const line = shaper.shape(text, FONT_SIZE, REGULAR, 0, { locale: 'hi' });
+      const [ra, , ka] = cmapGlyphs(line.glyphs[0].font, text);
+      const [consonant, reph] = line.glyphs;
+
+      expect(line.glyphs).toHaveLength(2);
+      expect(consonant.glyphIndex).toBe(ka);
+      expect([ra, halant(line)]).not.toContain(reph.glyphIndex);
+      expect(line.width).toBeCloseTo(advance(line.glyphs[0].font, 'क'));
+
+      expect(bounds(reph).bottom).toBeGreaterThanOrEqual(bounds(consonant).top - 1);
+      expect(bounds(reph).left).toBeGreaterThan(bounds(consonant).left);
+      expect(bounds(reph).right).toBeLessThanOrEqual(bounds(consonant).right);
+    });
+
+    it('leaves no visible halant in words with conjuncts, half forms and reph', () => {
+      const line = shaper.shape('हिन्दी क्षत्रिय र्क द्ध', FONT_SIZE, REGULAR, 0, { locale: 'hi' });
+
+      expect(glyphIds(line)).not.toContain(halant(line));
+    });
+  });
+
+  it('fails for a script whose fonts are not loaded', async () => {
+    const fonts = new FontLoader();
+    await fonts.loadAll();
+
+    expect(() => new TextShaper(fonts).shape('שלום', FONT_SIZE, REGULAR, 0, { direction: 'rtl' }))
+      .toThrow('No font loaded for hebrew text');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Bidi reordering of mixed-direction slide copy (fixture strings in each
+ * script the storyboard locales use).
+ */
+
+import { resolveBidiRuns } from '../bidi';
+
+describe('resolveBidiRuns', () => {
+  it('keeps a Hebrew line in one right-to-left run', () => {
+    expect(resolveBidiRuns('תכננו כל טיול', 'rtl')).toEqual([
+      { text: 'תכננו כל טיול', level: 1, direction: 'rtl' },
+    ]);
+  });
+
+  it('orders Hebrew runs with numbers and Latin words right to left', () => {
+    const runs = resolveBidiRuns('שלום 123 world', 'rtl');
+
+    // Visual order, left to right: the Latin word ends the logical line
+    expect(runs.map((run) => run.text)).toEqual(['world', ' ', '123', 'שלום ']);
+    expect(runs.map((run) => run.direction)).toEqual(['ltr', 'rtl', 'ltr', 'rtl']);
+  });
+
+  it('treats Arabic letters as right-to-left and digits as left-to-right', () => {
+    const runs = resolveBidiRuns('مرحبا 2024 app', 'rtl');
+
+    expect(runs.map((run) => run.text)).toEqual(['app', ' ', '2024', 'مرحبا ']);
+    expect(runs.map((run) => run.level)).toEqual([2, 1, 2, 1]);
+  });
+
+  it('embeds a Hebrew word in a left-to-right line', () => {
+    expect(resolveBidiRuns('Book (now) עכשיו!', 'ltr')).toEqual([
+      { text: 'Book (now) ', level: 0, direction: 'ltr' },
+      { text: 'עכשיו', level: 1, direction: 'rtl' },
+      { text: '!', level: 0, direction: 'ltr' },
+    ]);
+  });
+
+  it.each([
+    ['Thai', 'วางแผนทุกการเดินทาง'],
+    ['Devanagari', 'हर यात्रा की योजना'],
+  ])('keeps %s text in one left-to-right run', (_script, text) => {
+    expect(resolveBidiRuns(text, 'ltr')).toEqual([{ text, level: 0, direction: 'ltr' }]);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Bidirectional Text
+ *
+ * Simplified Unicode Bidirectional Algorithm (UAX #9) for single lines of
+ * slide copy: weak type resolution (W1-W7), neutral resolution (N1-N2),
+ * implicit levels (I1-I2) and run reordering (L2).
+ * Explicit embeddings, isolates and bracket pairing (N0) are not supported;
+ * slide copy is plain text.
+ *
+ * Design Principles:
+ * - Deterministic: Pure function of the text and base direction
+ * - Per Line: Runs are resolved after line breaking, as UAX #9 requires
+ */
+
+import { TextDirection } from '@/domain';
+import { BidiClass, getBidiClass } from './unicode';
+
+/**
+ * A directional run of characters, in logical order within the run.
+ */
+export interface BidiRun {
+  text: string;
+
+  /** Embedding level (odd = right-to-left) */
+  level: number;
+
+  direction: TextDirection;
+}
+
+/**
+ * Split a line into directional runs, returned in visual (left-to-right) order.
+ */
+export function resolveBidiRuns(text: string, baseDirection: TextDirection): BidiRun[] {
+  const chars = Array.from(text);
+  if (chars.length === 0) {
+    return [];
+  }
+
+  const baseLevel = baseDirection === 'rtl' ? 1 : 0;
+  const types = resolveWeakTypes(chars.map(getBidiClass), baseLevel);
+  resolveNeutralTypes(types, baseLevel);
+  const levels = resolveImplicitLevels(types, baseLevel);
+
+  // L1: trailing whitespace takes the paragraph level
+  for (let i = chars.length - 1; i >= 0 && /^\s$/u.test(chars[i]); i--) {
+    levels[i] = baseLevel;
+  }
+
+  return reorderRuns(chars, levels);
+}
+
+// ============================================================================
+// Resolution Steps
+// ============================================================================
+
+/**
+ * Strong direction implied by the paragraph level (sos/eos).
+ */
+function embeddingType(level: number): BidiClass {
+  return level % 2 === 0 ? 'L' : 'R';
+}
+
+/**
+ * W1-W7: resolve marks, numbers and separators.
+ */
+function resolveWeakTypes(classes: BidiClass[], baseLevel: number): BidiClass[] {
+  const types = [...classes];
+  const sos = embeddingType(baseLevel);
+
+  // W1: marks take the type of the preceding character
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] === 'NSM') {
+      types[i] = i === 0 ? sos : (types[i - 1] === 'WS' ? 'ON' : types[i - 1]);
+    }
+  }
+
+  // W2: European numbers after Arabic letters are Arabic numbers
+  // W3: Arabic letters are right-to-left
+  let lastStrong: BidiClass = sos;
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] === 'L' || types[i] === 'R' || types[i] === 'AL') {
+      lastStrong = types[i];
+    } else if (types[i] === 'EN' && lastStrong === 'AL') {
+      types[i] = 'AN';
+    }
+  }
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] === 'AL') types[i] = 'R';
+  }
+
+  // W4: a single separator between numbers of the same kind joins them
+  for (let i = 1; i < types.length - 1; i++) {
+    const before = types[i - 1];
+    const after = types[i + 1];
+    if (types[i] === 'ES' && before === 'EN' && after === 'EN') types[i] = 'EN';
+    else if (types[i] === 'CS' && before === after && (before === 'EN' || before === 'AN')) types[i] = before;
+  }
+
+  // W5: terminators (%, $) adjacent to European numbers become numbers
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] !== 'ET') continue;
+    let end = i;
+    while (end < types.length && types[end] === 'ET') end++;
+    if ((i > 0 && types[i - 1] === 'EN') || types[end] === 'EN') {
+      types.fill('EN', i, end);
+    }
+    i = end - 1;
+  }
+
+  // W6: remaining separators and terminators are neutral
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] === 'ES' || types[i] === 'ET' || types[i] === 'CS') types[i] = 'ON';
+  }
+
+  // W7: European numbers in left-to-right context are left-to-right
+  lastStrong = sos;
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] === 'L' || types[i] === 'R') lastStrong = types[i];
+    else if (types[i] === 'EN' && lastStrong === 'L') types[i] = 'L';
+  }
+
+  return types;
+}
+
+/**
+ * N1-N2: neutrals between two runs of the same direction take that
+ * direction; others take the paragraph direction. Numbers count as R.
+ */
+function resolveNeutralTypes(types: BidiClass[], baseLevel: number): void {
+  const strongOf = (type: BidiClass | undefined): BidiClass =>
+    type === undefined ? embeddingType(baseLevel) : type === 'L' ? 'L' : 'R';
+
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] !== 'ON' && types[i] !== 'WS') continue;
+
+    let end = i;
+    while (end < types.length && (types[end] === 'ON' || types[end] === 'WS')) end++;
+
+    const before = strongOf(i > 0 ? types[i - 1] : undefined);
+    const after = strongOf(end < types.length ? types[end] : undefined);
+    types.fill(before === after ? before : embeddingType(baseLevel), i, end);
+    i = end - 1;
+  }
+}
+
+/**
+ * I1-I2: embedding level of each character.
+ */
+function resolveImplicitLevels(types: BidiClass[], baseLevel: number): number[] {
+  return types.map((type) => {
+    if (baseLevel % 2 === 0) {
+      if (type === 'R') return baseLevel + 1;
+      if (type === 'AN' || type === 'EN') return baseLevel + 2;
+      return baseLevel;
+    }
+    return type === 'L' || type === 'EN' || type === 'AN' ? baseLevel + 1 : baseLevel;
+  });
+}
+
+/**
+ * L2: reverse every sequence at or above each level, from the highest
+ * level down to the lowest odd level. Works on runs rather than characters
+ * so each run keeps its logical order for shaping.
+ */
+function reorderRuns(chars: string[], levels: number[]): BidiRun[] {
+  let runs: BidiRun[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    const last = runs[runs.length - 1];
+    if (last && last.level === levels[i]) {
+      last.text += chars[i];
+    } else {
+      runs.push({ text: chars[i], level: levels[i], direction: levels[i] % 2 === 0 ? 'ltr' : 'rtl' });
+    }
+  }
+
+  const maxLevel = Math.max(...levels);
+  const minOddLevel = Math.min(...levels.map((level) => (level % 2 === 0 ? level + 1 : level)));
+
+  for (let level = maxLevel; level >= minOddLevel; level--) {
+    const reordered: BidiRun[] = [];
+    for (let i = 0; i < runs.length; i++) {
+      if (runs[i].level < level) {
+        reordered.push(runs[i]);
+        continue;
+      }
+      let end = i;
+      while (end < runs.length && runs[end].level >= level) end++;
+      reordered.push(...runs.slice(i, end).reverse());
+      i = end - 1;
+    }
+    runs = reordered;
+  }
+
+  return runs;
+}
@@ -0,0 +1,137 @@
+/**
+ * Gradient Backgrounds
+ *
+ * Builds SVG documents for linear and radial gradient backgrounds.
+ * Sharp has no native gradient support, so gradients are rasterized
+ * from SVG (librsvg) at the exact canvas size.
+ *
+ * Design Principles:
+ * - Deterministic: Geometry is computed from template data only
+ * - Data-Driven: Any number of color stops, any angle
+ */
+
+import { GradientConfig } from '@/domain';
+
+/**
+ * Default gradient geometry when a template omits it (top to bottom).
+ */
+const DEFAULT_GRADIENT: GradientConfig = {
+  kind: 'linear',
+  angle: 180,
+};
+
+/**
+ * Create an SVG document filling width x height with a gradient.
+ *
+ * @param width - Canvas width in pixels
+ * @param height - Canvas height in pixels
+ * @param colors - Color stops (at least one)
+ * @param gradient - Gradient geometry
+ */
+export function createGradientSvg(
+  width: number,
+  height: number,
+  colors: readonly string[],
+  gradient: GradientConfig = DEFAULT_GRADIENT
+): string {
+  if (colors.length === 0) {
+    throw new Error('Gradient requires at least one color');
+  }
+
+  const offsets = resolveStopOffsets(colors.length, gradient.stops);
+  const stops = colors
+    .map((color, i) => `<stop offset="${formatNumber(offsets[i])}%" stop-color="${color}"/>`)
+    .join('');
+
+  const definition = gradient.kind === 'radial'
+    ? createRadialGradient(width, height, gradient, stops)
+    : createLinearGradient(width, height, gradient, stops);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`,
+    `<defs>${definition}</defs>`,
+    `<rect x="0" y="0" width="${width}" height="${height}" fill="url(#bg)"/>`,
+    '</svg>',
+  ].join('');
+}
+
+/**
+ * Resolve stop offsets (0-100) for a number of colors.
+ * Uses explicit offsets when they match the color count, else distributes evenly.
+ */
+export function resolveStopOffsets(colorCount: number, stops?: number[]): number[] {
+  if (stops && stops.length === colorCount) {
+    return stops.map((stop) => Math.max(0, Math.min(100, stop)));
+  }
+
+  if (colorCount === 1) {
+    return [0];
+  }
+
+  return Array.from({ length: colorCount }, (_, i) => (i / (colorCount - 1)) * 100);
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Linear gradient following CSS `linear-gradient(<angle>)` semantics:
+ * the gradient line passes through the center and is long enough that
+ * the 0% and 100% stops touch the canvas corners.
+ */
+function createLinearGradient(
+  width: number,
+  height: number,
+  gradient: GradientConfig,
+  stops: string
+): string {
+  const angle = ((gradient.angle ?? 180) * Math.PI) / 180;
+  const dx = Math.sin(angle);
+  const dy = -Math.cos(angle);
+  const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+
+  const cx = width / 2;
+  const cy = height / 2;
+
+  return [
+    '<linearGradient id="bg" gradientUnits="userSpaceOnUse"',
+    ` x1="${formatNumber(cx - dx * halfLength)}" y1="${formatNumber(cy - dy * halfLength)}"`,
+    ` x2="${formatNumber(cx + dx * halfLength)}" y2="${formatNumber(cy + dy * halfLength)}">`,
+    stops,
+    '</linearGradient>',
+  ].join('');
+}
+
+/**
+ * Radial gradient reaching the farthest canvas corner from its center.
+ */
+function createRadialGradient(
+  width: number,
+  height: number,
+  gradient: GradientConfig,
+  stops: string
+): string {
+  const cx = width * ((gradient.center?.x ?? 50) / 100);
+  const cy = height * ((gradient.center?.y ?? 50) / 100);
+  const radius = Math.max(
+    Math.hypot(cx, cy),
+    Math.hypot(width - cx, cy),
+    Math.hypot(cx, height - cy),
+    Math.hypot(width - cx, height - cy)
+  );
+
+  return [
+    '<radialGradient id="bg" gradientUnits="userSpaceOnUse"',
+    ` cx="${formatNumber(cx)}" cy="${formatNumber(cy)}" r="${formatNumber(radius)}">`,
+    stops,
+    '</radialGradient>',
+  ].join('');
+}
+
+/**
+ * Format a number with fixed precision so SVG output is stable.
+ */
+function formatNumber(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
@@ -0,0 +1,64 @@
+/**
+ * HarfBuzz Shaping Engine
+ *
+ * Loads HarfBuzz (harfbuzzjs, WebAssembly) once per process and wraps
+ * parsed fonts as HarfBuzz fonts for TextShaper. HarfBuzz applies the
+ * fonts' GSUB and GPOS tables (joining forms, Indic reordering and
+ * conjuncts, mark and mark-to-mark anchors) per the OpenType script specs.
+ *
+ * Design Principles:
+ * - Load Once: The engine is compiled on first use and shared
+ * - Bounded Memory: Fonts with the same file data share one HarfBuzz font,
+ *   so loaders created per request do not grow WebAssembly memory
+ * - Fail Fast: Shaping before the engine has loaded throws
+ */
+
+import crypto from 'crypto';
+import harfbuzzjs, { HarfBuzz, HarfBuzzFont } from 'harfbuzzjs';
+import { TrueTypeFont } from './TrueTypeFont';
+
+let engine: HarfBuzz | null = null;
+
+/** HarfBuzz fonts by SHA-256 of the font file */
+const shapingFonts = new Map<string, HarfBuzzFont>();
+
+/** Font file hash per parsed font */
+const fontKeys = new WeakMap<TrueTypeFont, string>();
+
+/**
+ * Load the shaping engine (FontLoader does this before parsing fonts).
+ */
+export async function loadShapingEngine(): Promise<HarfBuzz> {
+  engine ??= await harfbuzzjs;
+  return engine;
+}
+
+/**
+ * Get the loaded shaping engine.
+ * Throws if loadShapingEngine has not completed.
+ */
+export function getShapingEngine(): HarfBuzz {
+  if (!engine) {
+    throw new Error('Shaping engine not loaded (load fonts with FontLoader first)');
+  }
+  return engine;
+}
+
+/**
+ * Get the HarfBuzz font for a parsed font.
+ */
+export function getShapingFont(font: TrueTypeFont): HarfBuzzFont {
+  let key = fontKeys.get(font);
+  if (!key) {
+    key = crypto.createHash('sha256').update(font.data).digest('hex');
+    fontKeys.set(font, key);
+  }
+
+  let shapingFont = shapingFonts.get(key);
+  if (!shapingFont) {
+    const hb = getShapingEngine();
+    shapingFont = hb.createFont(hb.createFace(hb.createBlob(font.data), 0));
+    shapingFonts.set(key, shapingFont);
+  }
+  return shapingFont;
+}
@@ -0,0 +1,49 @@
+/**
+ * Types for the parts of harfbuzzjs (which ships none) used by the shaper.
+ */
+declare module 'harfbuzzjs' {
+  export interface HarfBuzzBlob {
+    destroy(): void;
+  }
+
+  export interface HarfBuzzFace {
+    upem: number;
+    destroy(): void;
+  }
+
+  export interface HarfBuzzFont {
+    destroy(): void;
+  }
+
+  /** A shaped glyph: glyph ID (`codepoint`) and its position in font units */
+  export interface HarfBuzzGlyph {
+    codepoint: number;
+    cluster: number;
+    x_advance: number;
+    y_advance: number;
+    x_offset: number;
+    y_offset: number;
+  }
+
+  export interface HarfBuzzBuffer {
+    addText(text: string): void;
+    setDirection(direction: 'ltr' | 'rtl'): void;
+    setLanguage(language: string): void;
+    guessSegmentProperties(): void;
+    getGlyphInfosAndPositions(): HarfBuzzGlyph[];
+    destroy(): void;
+  }
+
+  export interface HarfBuzz {
+    createBlob(data: Uint8Array): HarfBuzzBlob;
+    createFace(blob: HarfBuzzBlob, index: number): HarfBuzzFace;
+    createFont(face: HarfBuzzFace): HarfBuzzFont;
+    createBuffer(): HarfBuzzBuffer;
+    /** @param features - Comma-separated feature settings, e.g. "-kern,-liga" */
+    shape(font: HarfBuzzFont, buffer: HarfBuzzBuffer, features?: string): void;
+  }
+
+  /** Resolves once the WebAssembly module is compiled */
+  const harfbuzz: Promise<HarfBuzz>;
+  export default harfbuzz;
+}
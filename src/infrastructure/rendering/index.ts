@@ -4,5 +4,25 @@
  * Public API for rendering services.
  */
 
-export type { IImageRenderer, RenderOptions, RenderedImage } from './IImageRenderer';
-export { SharpRenderer } from './SharpRenderer';
\ No newline at end of file
+export type {
+  IImageRenderer,
+  RenderOptions,
+  PanoramaRenderOptions,
+  RenderedImage,
+  TextLayoutReport,
+} from './IImageRenderer';
+export { SharpRenderer } from './SharpRenderer';
+export { createGradientSvg, resolveStopOffsets } from './gradients';
+export { TrueTypeFont } from './TrueTypeFont';
+export { FontLoader } from './FontLoader';
+export type { FontWeightName, FontLoadResult, FallbackWeightName, FallbackFontLoadResult } from './FontLoader';
+export { TextLayoutEngine } from './TextLayoutEngine';
+export type { TextStyle, TextLine, TextLayout } from './TextLayoutEngine';
+export { TextShaper } from './TextShaper';
+export type { ShapingOptions, ShapedGlyph, ShapedLine } from './TextShaper';
+export { resolveBidiRuns } from './bidi';
+export type { BidiRun } from './bidi';
+export { DeviceFrameRenderer } from './DeviceFrameRenderer';
+export type { FramedScreenshot } from './DeviceFrameRenderer';
+export { computeSlideLayout, boxesOverlap, LAYOUT_ALGORITHMS } from './SlideLayout';
+export type { LayoutBox, SlideLayout, SlideLayoutInput, LayoutAlgorithm } from './SlideLayout';
\ No newline at end of file
@@ -0,0 +1,90 @@
+/**
+ * Unicode Character Data
+ *
+ * Compact code-point classification used by bidi reordering and font
+ * selection: script (for font fallback), combining marks and bidi class.
+ * Covers the scripts of SUPPORTED_LOCALES, not the full Unicode Character
+ * Database (HarfBuzz has its own for shaping).
+ *
+ * Design Principles:
+ * - No External Dependencies: Ranges are listed here, not loaded from UCD files
+ * - Deterministic: Pure functions of the code point
+ */
+
+import { TextScript } from '@/domain';
+
+/**
+ * Bidi character class (subset of UAX #9 classes; no explicit embeddings).
+ */
+export type BidiClass = 'L' | 'R' | 'AL' | 'EN' | 'AN' | 'ES' | 'ET' | 'CS' | 'NSM' | 'WS' | 'ON';
+
+/**
+ * Code point ranges (inclusive) per script.
+ */
+const SCRIPT_RANGES: readonly [number, number, TextScript][] = [
+  [0x0590, 0x05ff, 'hebrew'],
+  [0x0600, 0x06ff, 'arabic'],
+  [0x0750, 0x077f, 'arabic'],
+  [0x08a0, 0x08ff, 'arabic'],
+  [0x0900, 0x097f, 'devanagari'],
+  [0x0e00, 0x0e7f, 'thai'],
+  [0x1100, 0x11ff, 'hangul'],
+  [0x2e80, 0x2fdf, 'han'],
+  [0x3000, 0x303f, 'han'],
+  [0x3040, 0x30ff, 'kana'],
+  [0x3130, 0x318f, 'hangul'],
+  [0x31f0, 0x31ff, 'kana'],
+  [0x3400, 0x4dbf, 'han'],
+  [0x4e00, 0x9fff, 'han'],
+  [0xa8e0, 0xa8ff, 'devanagari'],
+  [0xac00, 0xd7af, 'hangul'],
+  [0xf900, 0xfaff, 'han'],
+  [0xfb1d, 0xfb4f, 'hebrew'],
+  [0xfb50, 0xfdff, 'arabic'],
+  [0xfe70, 0xfeff, 'arabic'],
+  [0xff00, 0xff65, 'han'],
+  [0xff66, 0xff9f, 'kana'],
+  [0x20000, 0x2ffff, 'han'],
+];
+
+/**
+ * Get the script of a code point, or null for Latin/Greek/Cyrillic and
+ * script-neutral characters (spaces, digits, punctuation) covered by Inter.
+ */
+export function getCodePointScript(codePoint: number): TextScript | null {
+  for (const [start, end, script] of SCRIPT_RANGES) {
+    if (codePoint >= start && codePoint <= end) {
+      return script;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a character is a combining mark (Mn/Me).
+ */
+export function isCombiningMark(char: string): boolean {
+  return /^[\p{Mn}\p{Me}]$/u.test(char);
+}
+
+/**
+ * Get the bidi class of a character.
+ */
+export function getBidiClass(char: string): BidiClass {
+  const codePoint = char.codePointAt(0) as number;
+
+  if ((codePoint >= 0x0660 && codePoint <= 0x0669) || codePoint === 0x066b || codePoint === 0x066c) return 'AN';
+  if ((codePoint >= 0x30 && codePoint <= 0x39) || (codePoint >= 0x06f0 && codePoint <= 0x06f9)) return 'EN';
+  if (isCombiningMark(char)) return 'NSM';
+
+  const script = getCodePointScript(codePoint);
+  if (script === 'hebrew') return 'R';
+  if (script === 'arabic') return 'AL';
+
+  if (/^\s$/u.test(char)) return 'WS';
+  if (char === '+' || char === '-') return 'ES';
+  if (/^[#$%°\p{Sc}]$/u.test(char)) return 'ET';
+  if (/^[,.:/]$/u.test(char)) return 'CS';
+  if (/^[\p{L}\p{N}\p{Mc}]$/u.test(char)) return 'L';
+  return 'ON';
+}
@@ -0,0 +1,113 @@
+/**
+ * JsonTemplateLoader
+ *
+ * Loads template documents (one Template as JSON per `*.json` file) from
+ * a templates directory and checks each against the domain template
+ * schema (see parseTemplateDocument). Files load in filename order.
+ *
+ * Design Principles:
+ * - Fail Fast: Invalid files are reported with their path and the
+ *   offending properties, never partially loaded
+ * - Optional: A missing directory means no custom templates
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { Template, parseTemplateDocument } from '@/domain';
+
+/**
+ * Templates directory, relative to the project root, when none is configured.
+ */
+export const DEFAULT_TEMPLATES_DIRECTORY = 'templates';
+
+/**
+ * Result of loading a templates directory.
+ */
+export interface TemplateLoadResult {
+  /** Templates from valid files, in filename order */
+  templates: Template[];
+
+  /** Human-readable errors for files that failed (path first) */
+  errors: string[];
+}
+
+/**
+ * Loader for JSON template documents.
+ */
+export class JsonTemplateLoader {
+  private directory: string;
+
+  /**
+   * @param directory - Directory holding `*.json` template documents
+   */
+  constructor(directory: string = path.join(process.cwd(), DEFAULT_TEMPLATES_DIRECTORY)) {
+    this.directory = directory;
+  }
+
+  /**
+   * Create a loader from environment variables:
+   * - TEMPLATES_PATH: templates directory (default: `templates` in the project root)
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): JsonTemplateLoader {
+    return new JsonTemplateLoader(env.TEMPLATES_PATH ? path.resolve(env.TEMPLATES_PATH) : undefined);
+  }
+
+  /**
+   * Directory templates are loaded from.
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Load and validate a single template document.
+   * Throws if the file is missing, not JSON or not a valid template
+   * (TemplateValidationError lists every invalid property).
+   */
+  async loadFile(filePath: string): Promise<Template> {
+    const text = await fs.readFile(filePath, 'utf8');
+
+    let document: unknown;
+    try {
+      document = JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`${filePath}: Invalid JSON: ${error.message}`);
+    }
+
+    return parseTemplateDocument(document, filePath);
+  }
+
+  /**
+   * Load every `*.json` file in the directory, collecting errors instead
+   * of throwing. Templates are not registered; see loadTemplates.
+   */
+  async loadAll(): Promise<TemplateLoadResult> {
+    const result: TemplateLoadResult = { templates: [], errors: [] };
+
+    let filenames: string[];
+    try {
+      filenames = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        result.errors.push(`${this.directory}: ${error.message}`);
+      }
+      return result;
+    }
+
+    const files = filenames
+      .filter((filename) => filename.toLowerCase().endsWith('.json'))
+      .sort()
+      .map((filename) => path.join(this.directory, filename));
+
+    for (const filePath of files) {
+      try {
+        result.templates.push(await this.loadFile(filePath));
+      } catch (error: any) {
+        // Messages name the file (fs errors include the path)
+        result.errors.push(error.message);
+      }
+    }
+
+    return result;
+  }
+}
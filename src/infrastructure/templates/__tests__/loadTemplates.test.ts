@@ -0,0 +1,95 @@
+/**
+ * Registering a templates directory file by file.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Template, getTemplateById } from '@/domain';
+import { JsonTemplateLoader } from '../JsonTemplateLoader';
+import { loadTemplates } from '../loadTemplates';
+
+/** Portrait feature template with an optional landscape variant */
+function featureTemplate(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: id,
+    layout: 'stack',
+    applicableTypes: ['feature'],
+    supportedOrientations: ['portrait'],
+    orientationVariants: { landscape: 'stack-landscape' },
+    textPosition: { align: 'left', verticalPosition: 10, maxWidth: 90 },
+    screenshotPositions: [{ verticalPosition: 30, width: 85, applyFrame: true }],
+    background: { type: 'solid', colors: ['#0F172A'] },
+    ...overrides,
+  };
+}
+
+describe('loadTemplates', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-'));
+    const write = (filename: string, document: unknown) =>
+      fs.writeFileSync(path.join(directory, filename), JSON.stringify(document));
+
+    // Portrait and landscape templates naming each other as variants
+    write('a-portrait.json', featureTemplate('pair-portrait', { orientationVariants: { landscape: 'pair-landscape' } }));
+    write('b-landscape.json', featureTemplate('pair-landscape', {
+      supportedOrientations: ['landscape'],
+      orientationVariants: { portrait: 'pair-portrait' },
+    }));
+    write('c-valid.json', featureTemplate('stack-wide'));
+    write('d-duplicate.json', featureTemplate('stack'));
+    write('e-missing-variant.json', featureTemplate('orphan', {
+      supportedOrientations: ['landscape'],
+      orientationVariants: { portrait: 'nowhere' },
+    }));
+    write('f-skipped-variant.json', featureTemplate('orphan-child', { orientationVariants: { landscape: 'orphan' } }));
+    fs.writeFileSync(path.join(directory, 'g-broken.json'), '{');
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('registers valid files and skips the rest one by one', async () => {
+    const result = await loadTemplates(new JsonTemplateLoader(directory));
+
+    expect(result.templates.map((template) => template.id)).toEqual(['pair-portrait', 'pair-landscape', 'stack-wide']);
+    expect(getTemplateById('pair-landscape').supportedOrientations).toEqual(['landscape']);
+
+    expect(result.errors).toHaveLength(4);
+    expect(result.errors[0]).toMatch(/g-broken\.json: Invalid JSON/);
+    expect(result.errors.slice(1)).toEqual([
+      'Template "stack": id: is already used by another template',
+      'Template "orphan": orientationVariants.portrait: template "nowhere" not found',
+      'Template "orphan-child": orientationVariants.landscape: template "orphan" not found',
+    ]);
+    expect(() => getTemplateById('orphan')).toThrow('Template not found: orphan');
+  });
+
+  it('loads the directory once', async () => {
+    const first = await loadTemplates();
+
+    await expect(loadTemplates(new JsonTemplateLoader('/nonexistent'))).resolves.toBe(first);
+  });
+
+  it('registers the shared load in another bundle, skipping templates its registry rejects', async () => {
+    // A separate module registry stands in for another Next.js bundle (same globalThis)
+    await jest.isolateModulesAsync(async () => {
+      const domain: typeof import('@/domain') = require('@/domain');
+      const bundle: typeof import('../loadTemplates') = require('../loadTemplates');
+      domain.registerTemplates([{ ...featureTemplate('stack-wide'), name: 'Bundle-local' } as Template]);
+
+      const result = await bundle.loadTemplates();
+
+      expect(result.templates.map((template) => template.id)).toEqual(['pair-portrait', 'pair-landscape']);
+      expect(result.errors).toContain('Template "stack-wide": id: is already used by another template');
+      expect(domain.getTemplateById('pair-landscape').supportedOrientations).toEqual(['landscape']);
+      expect(domain.getTemplateById('stack-wide').name).toBe('Bundle-local');
+    });
+  });
+});
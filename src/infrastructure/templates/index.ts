@@ -0,0 +1,9 @@
+/**
+ * Templates Infrastructure
+ *
+ * Public API for loading custom templates from JSON documents.
+ */
+
+export { JsonTemplateLoader, DEFAULT_TEMPLATES_DIRECTORY } from './JsonTemplateLoader';
+export type { TemplateLoadResult } from './JsonTemplateLoader';
+export { loadTemplates } from './loadTemplates';
@@ -0,0 +1,82 @@
+/**
+ * Template Registration
+ *
+ * Loads the templates directory (see JsonTemplateLoader) once per server
+ * process and registers its templates with the domain template registry,
+ * so they are found by ID like the built-in templates. The server loads
+ * them at startup (src/instrumentation.ts); routes that use templates
+ * also await loadTemplates, which registers the startup load.
+ *
+ * Next.js compiles instrumentation and each route into separate bundles
+ * with their own copy of this module and of the domain registry, so the
+ * load is shared through `globalThis` and registered once per bundle.
+ *
+ * Design Principles:
+ * - Load Once: Every caller shares the first load (restart to pick up changes)
+ * - Per File: Each template is registered on its own; invalid ones
+ *   (e.g., a variant naming a missing template) are skipped and reported
+ */
+
+import { Template, getTemplates, registerValidTemplates } from '@/domain';
+import { JsonTemplateLoader, TemplateLoadResult } from './JsonTemplateLoader';
+
+/** Process-wide load, shared by every bundle */
+const shared = globalThis as typeof globalThis & { customTemplates?: Promise<TemplateLoadResult> };
+
+/** Registration in this bundle's template registry */
+let registration: Promise<TemplateLoadResult> | null = null;
+
+/**
+ * Load and register the custom templates, once.
+ * Never throws: problems are returned (and logged) as errors.
+ *
+ * @param loader - Loader used by the first call (default: from environment)
+ * @returns Registered templates and errors, the same for every call
+ */
+export function loadTemplates(
+  loader: JsonTemplateLoader = JsonTemplateLoader.fromEnv()
+): Promise<TemplateLoadResult> {
+  registration ??= registerSharedTemplates(loader);
+  return registration;
+}
+
+/**
+ * Load and register the directory in the first bundle; register the
+ * templates it accepted in every other one.
+ */
+async function registerSharedTemplates(loader: JsonTemplateLoader): Promise<TemplateLoadResult> {
+  if (!shared.customTemplates) {
+    shared.customTemplates = loader.loadAll().then((loaded) => registerLoaded(loaded.templates, loaded.errors, loader));
+    return shared.customTemplates;
+  }
+
+  // Skips templates already registered (e.g., this module reloaded in development)
+  const { templates, errors } = await shared.customTemplates;
+  const registered = registerLoaded(templates.filter((template) => !getTemplates().includes(template)), [], loader);
+  return {
+    templates: templates.filter((template) => getTemplates().includes(template)),
+    errors: [...errors, ...registered.errors],
+  };
+}
+
+/**
+ * Register the valid templates in this bundle's registry, reporting
+ * the skipped ones with the load errors.
+ */
+function registerLoaded(
+  templates: Template[],
+  loadErrors: string[],
+  loader: JsonTemplateLoader
+): TemplateLoadResult {
+  const skipped = registerValidTemplates(templates);
+
+  const result: TemplateLoadResult = {
+    templates: templates.filter((template) => getTemplates().includes(template)),
+    errors: [...loadErrors, ...skipped.map((error) => error.message)],
+  };
+
+  if (result.errors.length > 0) {
+    console.warn(`Custom templates (${loader.getDirectory()}) skipped:\n${result.errors.join('\n')}`);
+  }
+  return result;
+}
@@ -0,0 +1,17 @@
+/**
+ * Server Instrumentation
+ *
+ * Runs once when the server starts (Next.js `register` hook, enabled by
+ * `experimental.instrumentationHook` in next.config.js).
+ *
+ * - Registers the custom templates (TEMPLATES_PATH), so every route sees
+ *   them from the first request; invalid files are logged and skipped
+ */
+
+export async function register() {
+  // Templates are read from disk, which the Edge runtime cannot do
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { loadTemplates } = await import('@/infrastructure/templates');
+    await loadTemplates();
+  }
+}